@@ -0,0 +1,12 @@
+CREATE TABLE "oauth_accounts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"provider" text NOT NULL,
+	"provider_user_id" text NOT NULL,
+	"email" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "oauth_accounts_provider_user_unique" UNIQUE("provider","provider_user_id"),
+	CONSTRAINT "oauth_accounts_user_provider_unique" UNIQUE("user_id","provider")
+);
+--> statement-breakpoint
+ALTER TABLE "oauth_accounts" ADD CONSTRAINT "oauth_accounts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "sessions" ADD COLUMN "rotated_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "replaced_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,3 @@
+-- Session IDs used to be stored raw: replace them with their SHA-256 digest so existing logins stay valid
+UPDATE "sessions" SET "id" = encode(sha256(convert_to("id", 'UTF8')), 'hex');--> statement-breakpoint
+ALTER TABLE "sessions" RENAME COLUMN "id" TO "token_hash";
@@ -0,0 +1,2 @@
+ALTER TABLE "users" DROP CONSTRAINT "users_email_unique";--> statement-breakpoint
+CREATE UNIQUE INDEX "users_email_lower_unique" ON "users" USING btree (lower("email"));
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "counters" DROP CONSTRAINT "counters_user_id_unique";--> statement-breakpoint
+ALTER TABLE "counters" ADD COLUMN "name" text DEFAULT 'Default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "counters" ADD COLUMN "position" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "counters" ADD COLUMN "created_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+CREATE INDEX "counters_user_id_position_idx" ON "counters" USING btree ("user_id","position");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "counters" ADD COLUMN "is_default" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+UPDATE "counters" SET "is_default" = true WHERE "id" IN (SELECT min("id") FROM "counters" GROUP BY "user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "counters_user_id_default_unique" ON "counters" USING btree ("user_id") WHERE "counters"."is_default";
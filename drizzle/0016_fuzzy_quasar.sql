@@ -0,0 +1,14 @@
+CREATE TABLE "counter_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"counter_id" integer NOT NULL,
+	"user_id" integer,
+	"action" text NOT NULL,
+	"delta" integer NOT NULL,
+	"old_value" integer NOT NULL,
+	"new_value" integer NOT NULL,
+	"request_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "counter_events" ADD CONSTRAINT "counter_events_counter_id_counters_id_fk" FOREIGN KEY ("counter_id") REFERENCES "public"."counters"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "counter_events_counter_id_idx" ON "counter_events" USING btree ("counter_id","id");
\ No newline at end of file
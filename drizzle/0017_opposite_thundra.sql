@@ -0,0 +1,10 @@
+CREATE TABLE "counter_operations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"counter_id" integer NOT NULL,
+	"delta" integer NOT NULL,
+	"undone_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "counter_operations" ADD CONSTRAINT "counter_operations_counter_id_counters_id_fk" FOREIGN KEY ("counter_id") REFERENCES "public"."counters"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "counter_operations_counter_id_idx" ON "counter_operations" USING btree ("counter_id","id");
\ No newline at end of file
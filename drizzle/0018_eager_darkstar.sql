@@ -0,0 +1,4 @@
+ALTER TABLE "counters" ADD COLUMN "step" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "counters" ADD COLUMN "min_value" integer;--> statement-breakpoint
+ALTER TABLE "counters" ADD COLUMN "max_value" integer;--> statement-breakpoint
+ALTER TABLE "counters" ADD COLUMN "overflow" text DEFAULT 'clamp' NOT NULL;
\ No newline at end of file
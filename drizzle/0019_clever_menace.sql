@@ -0,0 +1,2 @@
+DROP INDEX "users_email_lower_unique";--> statement-breakpoint
+CREATE UNIQUE INDEX "users_email_lower_unique" ON "users" USING btree (lower("email")) WHERE "users"."email_verified_at" is not null;
\ No newline at end of file
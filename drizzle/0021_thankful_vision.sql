@@ -0,0 +1 @@
+ALTER TABLE "sessions" ADD COLUMN "replaced_by" text;
\ No newline at end of file
@@ -4,7 +4,20 @@ declare global {
 	namespace App {
 		// interface Error {}
 		interface Locals {
+			// Identifies the request in logs and counter history; taken from X-Request-Id if well-formed
+			requestId?: string;
 			userId?: number;
+			// Admin signed in as this user, see $lib/auth/impersonation
+			impersonatorId?: number;
+			// When the session signed in (kept across ID rotations), see $lib/auth/reauthentication
+			authenticatedAt?: Date;
+			// Roles of the authenticated user, always including 'user' (see $lib/auth/roles)
+			roles?: import('$lib/auth/roles').Role[];
+			// Set when the request authenticated with a personal access token instead of the session cookie
+			apiToken?: {
+				id: number;
+				scopes: string[];
+			};
 			telemetryContext?: {
 				userId?: number;
 				sessionId?: string;
@@ -25,6 +38,40 @@ declare global {
 				CF_PAGES_BRANCH?: string; // Cloudflare Pages automatically sets this
 				UPSTASH_REDIS_REST_URL?: string;
 				UPSTASH_REDIS_REST_TOKEN?: string;
+				INITIAL_ADMIN_USERNAME?: string; // Promoted to admin while no admin exists
+				ADMIN_SECRET?: string; // Bearer token for admin endpoints such as clearing login lockouts
+				PASSWORD_HASH_ALGORITHM?: string; // 'bcrypt' (default), 'scrypt' or 'pbkdf2'
+				PASSWORD_BCRYPT_COST?: string; // Default 10
+				PASSWORD_SCRYPT_LOG_N?: string; // Default 15 (N = 32768)
+				PASSWORD_PBKDF2_ITERATIONS?: string; // Default 600000
+				PASSWORD_MIN_LENGTH?: string; // Default 8
+				PASSWORD_MIN_CHARACTER_CLASSES?: string; // Default 2 (of lowercase, uppercase, digits, symbols)
+				BREACHED_PASSWORD_CHECK?: string; // 'file' (default), 'hibp' or 'off'
+				BREACHED_PASSWORD_DIR?: string; // Range files for the 'file' check (default data/pwned-passwords)
+				MAIL_TRANSPORT?: string; // 'http', 'console' (default in development), 'file' or 'memory'
+				MAIL_API_URL?: string; // Mail API endpoint for the 'http' transport
+				MAIL_API_KEY?: string;
+				MAIL_FROM?: string;
+				MAIL_FILE_DIR?: string;
+				WEBAUTHN_RP_ID?: string; // Defaults to the request hostname
+				WEBAUTHN_RP_NAME?: string;
+				WEBAUTHN_ORIGIN?: string; // Defaults to the request origin
+				CSRF_PROTECTION?: string; // 'origin' (default), 'token' (adds double-submit token) or 'off'
+				CSRF_TRUSTED_ORIGINS?: string; // Comma-separated extra origins allowed to send requests
+				IMPERSONATION_READ_ONLY?: string; // 'true' rejects state-changing requests while an admin impersonates a user
+				CSP_MODE?: string; // 'enforce' (default), 'report-only' or 'off'
+				CSP_CONNECT_SRC?: string; // Extra connect-src origins, comma-separated
+				CSP_FRAME_ANCESTORS?: string; // Space-separated frame-ancestors sources (default 'none')
+				HSTS_MAX_AGE?: string; // Strict-Transport-Security max-age in seconds, 0 disables (default 1 year)
+				REFERRER_POLICY?: string; // Referrer-Policy header (default strict-origin-when-cross-origin)
+				PERMISSIONS_POLICY?: string; // Permissions-Policy header
+				COUNTER_UNDO_WINDOW_SECONDS?: string; // Seconds a counter change can be undone or redone, 0 disables (default 300)
+				SESSION_DURATION?: string; // Seconds of inactivity before a session expires (default 7 days)
+				SESSION_MAX_LIFETIME?: string; // Seconds after login when a session always expires (default 30 days)
+				SESSION_ROTATION_INTERVAL?: string; // Seconds between session ID rotations (default 1 day)
+				OAUTH_PROVIDERS?: string; // Comma-separated provider IDs, e.g. 'google,github'
+				OAUTH_REDIRECT_BASE_URL?: string; // Defaults to the request origin
+				[key: `OAUTH_${string}`]: string | undefined; // OAUTH_<ID>_CLIENT_ID, OAUTH_<ID>_CLIENT_SECRET, ...
 				// Add other environment variables as needed
 			};
 			context?: {
@@ -1,8 +1,11 @@
 import type { HandleClientError } from '@sveltejs/kit';
 import { logException } from '$lib/posthog-client';
+import { installCsrfFetch } from '$lib/csrf-client';
 
 // PostHog is initialized in +layout.svelte using data from +layout.server.ts
 
+installCsrfFetch();
+
 // Global error handler for client-side errors
 export const handleError: HandleClientError = ({ error, event }) => {
 	// Log the error to PostHog
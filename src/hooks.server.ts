@@ -1,34 +1,211 @@
-import type { Handle } from '@sveltejs/kit';
-import { validateSession } from '$lib/auth';
+import { json, type Handle } from '@sveltejs/kit';
+import { deleteSession, getSessionTelemetryId, setSessionCookie, touchSession, validateSession } from '$lib/auth';
+import { validateApiToken } from '$lib/auth/api-tokens';
+import { canImpersonate, getImpersonationConfig, isBlockedWhileImpersonating, isCredentialPath } from '$lib/auth/impersonation';
+import { getUserRoles } from '$lib/auth/roles';
+import { CSRF_COOKIE, checkCsrf, generateCsrfToken, getCsrfConfig } from '$lib/csrf';
 import { getPostHog } from '$lib/posthog';
+import { CSP_REPORT_PATH, applySecurityHeaders, getPostHogOrigins, getSecurityHeadersConfig } from '$lib/security-headers';
+import { logAuthEvent } from '$lib/telemetry';
+
+// Only write the last-seen time once in a while rather than on every request
+const LAST_SEEN_UPDATE_INTERVAL = 5 * 60 * 1000; // 5 minutes in milliseconds
+
+// Account and credential management needs an interactive session, so a token cannot
+// mint tokens or take over the account. /api/admin routes check their own bearer secret.
+const SESSION_ONLY_API_PREFIXES = ['/api/auth', '/api/account', '/api/admin'];
+
+// Admin routes that authenticate scripts with a bearer secret of their own
+const CSRF_BEARER_ALLOWLIST = ['/api/admin/migrate', '/api/admin/lockouts'];
+
+function matchesPrefix(pathname: string, prefixes: string[]): boolean {
+	return prefixes.some((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+}
+
+// Request IDs accepted from an upstream proxy; anything else is replaced by our own
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+function getRequestId(request: Request): string {
+	const requestId = request.headers.get('x-request-id');
+	return requestId && REQUEST_ID_PATTERN.test(requestId) ? requestId : crypto.randomUUID();
+}
+
+function acceptsApiTokens(pathname: string): boolean {
+	return pathname.startsWith('/api/') && !matchesPrefix(pathname, SESSION_ONLY_API_PREFIXES);
+}
 
 export const handle: Handle = async ({ event, resolve }) => {
 	const startTime = Date.now();
 	const sessionId = event.cookies.get('session');
+	const requestId = getRequestId(event.request);
+	event.locals.requestId = requestId;
+
+	// Every response, including the rejections below, gets the security headers and request ID
+	function finalize(response: Response): Response {
+		const env = event.platform?.env;
+		const secured = applySecurityHeaders(response, event.url, getSecurityHeadersConfig(env), getPostHogOrigins(env));
+		secured.headers.set('X-Request-Id', requestId);
+		return secured;
+	}
 
 	// Enhance event.locals with telemetry context for use in load functions and API routes
 	// This context is automatically available to all logs via resource attributes
+	// The session ID is a bearer token, so telemetry only gets an identifier derived from it
 	event.locals.telemetryContext = {
-		sessionId: sessionId || undefined,
+		sessionId: sessionId ? getSessionTelemetryId(sessionId) : undefined,
 		distinctId: event.getClientAddress() || 'anonymous',
 		ipAddress: event.getClientAddress() || undefined
 	};
 
-	if (sessionId) {
+	const authorization = event.request.headers.get('authorization');
+
+	// Personal access tokens authenticate API requests, except for session-only routes
+	if (authorization?.startsWith('Bearer ') && acceptsApiTokens(event.url.pathname)) {
+		const apiToken = await validateApiToken(authorization.slice('Bearer '.length).trim(), event.platform?.env);
+		if (!apiToken) {
+			return finalize(
+				json(
+					{ error: 'Invalid or expired API token' },
+					{ status: 401, headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' } }
+				)
+			);
+		}
+
+		event.locals.userId = apiToken.userId;
+		event.locals.apiToken = { id: apiToken.tokenId, scopes: apiToken.scopes };
+		event.locals.telemetryContext.userId = apiToken.userId;
+		event.locals.telemetryContext.distinctId = `user_${apiToken.userId}`;
+	} else if (sessionId) {
 		// Pass platform.env for Cloudflare Workers compatibility
-		const env = event.platform?.env as { DATABASE_URL?: string } | undefined;
-		const userId = await validateSession(sessionId, env);
-		if (userId) {
+		const env = event.platform?.env;
+		let result = await validateSession(sessionId, env);
+
+		// An impersonation ends as soon as the impersonator loses the admin role
+		const impersonatorId = result.session?.impersonatorId;
+		if (result.session && impersonatorId && !(await canImpersonate(impersonatorId, env))) {
+			await deleteSession(result.sessionId, env);
+			await logAuthEvent('impersonation_ended', {
+				userId: impersonatorId,
+				distinctId: `user_${impersonatorId}`,
+				ipAddress: event.getClientAddress() || undefined,
+				userAgent: event.request.headers.get('user-agent') || undefined,
+				target: `user:${result.session.userId}`,
+				success: true,
+				metadata: { reason: 'admin_role_revoked' }
+			}, env);
+			result = { session: null };
+		}
+
+		if (result.session) {
+			const session = result.session;
+			const userId = session.userId;
+
+			// The expiry was extended or the ID rotated - send the updated cookie
+			if (result.renewed) {
+				setSessionCookie(event.cookies, result.sessionId, env, session.expiresAt);
+				event.locals.telemetryContext.sessionId = getSessionTelemetryId(result.sessionId);
+			}
+
 			event.locals.userId = userId;
+			event.locals.impersonatorId = session.impersonatorId ?? undefined;
+			event.locals.authenticatedAt = session.createdAt;
 			// Update telemetry context with user info
 			event.locals.telemetryContext.userId = userId;
 			event.locals.telemetryContext.distinctId = `user_${userId}`;
+
+			if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_UPDATE_INTERVAL) {
+				try {
+					await touchSession(result.sessionId, {
+						userAgent: event.request.headers.get('user-agent') || undefined,
+						ipAddress: event.getClientAddress() || undefined
+					}, env);
+				} catch (error) {
+					// Activity tracking is best-effort - don't break the request
+					console.error('Session touch error:', error);
+				}
+			}
 		} else {
 			event.cookies.delete('session', { path: '/' });
+
+			if (result.expiredUserId) {
+				await logAuthEvent('session_expired', {
+					userId: result.expiredUserId,
+					distinctId: `user_${result.expiredUserId}`,
+					ipAddress: event.getClientAddress() || undefined,
+					userAgent: event.request.headers.get('user-agent') || undefined,
+					success: true
+				}, env);
+			}
 		}
 	}
 
-	const response = await resolve(event);
+	const csrfConfig = getCsrfConfig(event.platform?.env);
+	let csrfCookie = event.cookies.get(CSRF_COOKIE);
+	if (csrfConfig.mode === 'token' && !csrfCookie) {
+		csrfCookie = generateCsrfToken();
+		// Readable by page scripts, which echo it in the X-CSRF-Token header
+		event.cookies.set(CSRF_COOKIE, csrfCookie, { path: '/', httpOnly: false, sameSite: 'strict' });
+	}
+
+	// Browsers never attach an Authorization header on their own, so bearer-authenticated
+	// requests cannot be forged cross-site
+	const bearerAuthenticated =
+		!!event.locals.apiToken ||
+		(!!authorization?.startsWith('Bearer ') && matchesPrefix(event.url.pathname, CSRF_BEARER_ALLOWLIST));
+
+	// Violation reports are posted by the browser itself and change no state
+	if (!bearerAuthenticated && event.url.pathname !== CSP_REPORT_PATH) {
+		const rejection = checkCsrf(event.request, event.url, csrfConfig, {
+			csrfCookie,
+			hasSession: !!sessionId
+		});
+
+		if (rejection) {
+			await logAuthEvent('csrf_rejected', {
+				userId: event.locals.userId,
+				sessionId: event.locals.telemetryContext.sessionId,
+				distinctId: event.locals.telemetryContext.distinctId,
+				ipAddress: event.getClientAddress() || undefined,
+				userAgent: event.request.headers.get('user-agent') || undefined,
+				success: false,
+				errorMessage: rejection,
+				metadata: {
+					method: event.request.method,
+					path: event.url.pathname,
+					origin: event.request.headers.get('origin') || 'none'
+				}
+			}, event.platform?.env);
+
+			return finalize(json({ error: 'Cross-site request blocked' }, { status: 403 }));
+		}
+	}
+
+	if (event.locals.userId) {
+		const env = event.platform?.env;
+		try {
+			event.locals.roles = await getUserRoles(event.locals.userId, env);
+		} catch (error) {
+			// E.g. the roles table does not exist before the first migration
+			console.error('Role lookup error:', error);
+			event.locals.roles = ['user'];
+		}
+	}
+
+	if (
+		isBlockedWhileImpersonating(
+			event.request.method,
+			event.url.pathname,
+			event.locals.impersonatorId,
+			getImpersonationConfig(event.platform?.env)
+		)
+	) {
+		const error = isCredentialPath(event.url.pathname)
+			? 'Credentials and the account cannot be changed while impersonating'
+			: 'Read-only while impersonating';
+		return finalize(json({ error }, { status: 403 }));
+	}
+
+	const response = finalize(await resolve(event));
 
 	// Log HTTP request to PostHog if configured
 	try {
@@ -52,8 +229,11 @@ export const handle: Handle = async ({ event, resolve }) => {
 					user_agent: event.request.headers.get('user-agent') || undefined,
 					referer: event.request.headers.get('referer') || undefined,
 					authenticated: !!userId,
+					auth_method: event.locals.apiToken ? 'api_token' : userId ? 'session' : undefined,
 					user_id: userId || undefined,
-					session_id: sessionId || undefined
+					impersonator_id: event.locals.impersonatorId,
+					request_id: event.locals.requestId,
+					session_id: event.locals.telemetryContext.sessionId
 				}
 			});
 
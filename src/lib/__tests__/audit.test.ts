@@ -0,0 +1,41 @@
+import { describe, test, expect } from 'bun:test';
+import { DEFAULT_AUDIT_PAGE_SIZE, MAX_AUDIT_PAGE_SIZE, parseAuditLogQuery } from '../audit';
+
+function parse(query: string) {
+	return parseAuditLogQuery(new URLSearchParams(query));
+}
+
+describe('Audit log', () => {
+	describe('parseAuditLogQuery', () => {
+		test('should default to the first page without filters', () => {
+			expect(parse('')).toEqual({ query: { limit: DEFAULT_AUDIT_PAGE_SIZE } });
+		});
+
+		test('should read filters and pagination', () => {
+			const result = parse(
+				'actor=7&action=login&target=user:7&success=false&since=2024-01-01T00:00:00Z&until=2024-02-01T00:00:00Z&cursor=120&limit=10'
+			);
+			expect(result).toEqual({
+				query: {
+					actorUserId: 7,
+					action: 'login',
+					target: 'user:7',
+					success: false,
+					since: new Date('2024-01-01T00:00:00Z'),
+					until: new Date('2024-02-01T00:00:00Z'),
+					cursor: 120,
+					limit: 10
+				}
+			});
+		});
+
+		test('should reject invalid values', () => {
+			expect(parse('actor=alice')).toEqual({ error: 'actor must be a user ID' });
+			expect(parse('success=yes')).toEqual({ error: 'success must be true or false' });
+			expect(parse('since=yesterday')).toEqual({ error: 'since must be an ISO timestamp' });
+			expect(parse('cursor=-1')).toEqual({ error: 'Invalid cursor' });
+			expect('error' in parse('limit=0')).toBe(true);
+			expect('error' in parse(`limit=${MAX_AUDIT_PAGE_SIZE + 1}`)).toBe(true);
+		});
+	});
+});
@@ -0,0 +1,125 @@
+import { describe, test, expect } from 'bun:test';
+import {
+	MAX_COUNTER_STEP,
+	MAX_COUNTER_VALUE,
+	MIN_COUNTER_VALUE,
+	applyCounterAction,
+	parseCounterAction,
+	parseCounterSettings,
+	readJsonBody,
+	validateCounterSettings,
+	validationErrorResponse,
+	type CounterSettings
+} from '../counter-actions';
+
+const unbounded: CounterSettings = { step: 1, minValue: null, maxValue: null, overflow: 'clamp' };
+const bounded: CounterSettings = { step: 3, minValue: 0, maxValue: 10, overflow: 'clamp' };
+
+describe('Counter actions', () => {
+	describe('parseCounterAction', () => {
+		test('should accept every action', () => {
+			expect(parseCounterAction({ action: 'increment' })).toEqual({ data: { action: 'increment' } });
+			expect(parseCounterAction({ action: 'decrement' })).toEqual({ data: { action: 'decrement' } });
+			expect(parseCounterAction({ action: 'add', amount: -5 })).toEqual({ data: { action: 'add', amount: -5 } });
+			expect(parseCounterAction({ action: 'set', value: 42 })).toEqual({ data: { action: 'set', value: 42 } });
+			expect(parseCounterAction({ action: 'reset' })).toEqual({ data: { action: 'reset' } });
+		});
+
+		test('should report the offending field', () => {
+			const missing = parseCounterAction({ action: 'add' });
+			expect(missing).toHaveProperty('issues');
+			expect('issues' in missing && missing.issues[0].path).toBe('amount');
+
+			const fractional = parseCounterAction({ action: 'set', value: 1.5 });
+			expect('issues' in fractional && fractional.issues[0].path).toBe('value');
+
+			expect(parseCounterAction({ action: 'add', amount: MAX_COUNTER_STEP + 1 })).toHaveProperty('issues');
+			expect(parseCounterAction({ action: 'multiply' })).toHaveProperty('issues');
+			expect(parseCounterAction(null)).toHaveProperty('issues');
+		});
+	});
+
+	describe('parseCounterSettings', () => {
+		test('should accept partial settings and removing a bound', () => {
+			expect(parseCounterSettings({ name: ' Laps ', maxValue: null })).toEqual({ data: { name: 'Laps', maxValue: null } });
+			expect(parseCounterSettings({ step: 5, overflow: 'wrap' })).toEqual({ data: { step: 5, overflow: 'wrap' } });
+		});
+
+		test('should reject unknown fields, invalid values and empty bodies', () => {
+			expect(parseCounterSettings({ value: 3 })).toHaveProperty('issues');
+			expect(parseCounterSettings({ step: 0 })).toHaveProperty('issues');
+			expect(parseCounterSettings({ overflow: 'bounce' })).toHaveProperty('issues');
+			expect(parseCounterSettings({ minValue: MAX_COUNTER_VALUE + 1 })).toHaveProperty('issues');
+			expect(parseCounterSettings({})).toHaveProperty('issues');
+		});
+	});
+
+	describe('validateCounterSettings', () => {
+		test('should accept consistent settings', () => {
+			expect(validateCounterSettings(bounded, 5)).toEqual([]);
+			expect(validateCounterSettings({ ...bounded, overflow: 'wrap' }, 0)).toEqual([]);
+			expect(validateCounterSettings(unbounded, -100)).toEqual([]);
+		});
+
+		test('should reject inverted bounds, wrapping without bounds and an out-of-bounds value', () => {
+			expect(validateCounterSettings({ ...bounded, minValue: 11 }, 11)[0].code).toBe('invalid_bounds');
+			expect(validateCounterSettings({ ...unbounded, overflow: 'wrap' }, 0)[0].code).toBe('bounds_required');
+			expect(validateCounterSettings(bounded, 12)[0]).toMatchObject({ path: 'maxValue', code: 'value_out_of_bounds' });
+		});
+	});
+
+	describe('applyCounterAction', () => {
+		test('should change the value by the step or amount', () => {
+			expect(applyCounterAction(4, { action: 'increment' }, bounded)).toEqual({ data: 7 });
+			expect(applyCounterAction(4, { action: 'decrement' }, bounded)).toEqual({ data: 1 });
+			expect(applyCounterAction(4, { action: 'add', amount: 2 }, bounded)).toEqual({ data: 6 });
+		});
+
+		test('should clamp at the bounds', () => {
+			expect(applyCounterAction(9, { action: 'increment' }, bounded)).toEqual({ data: 10 });
+			expect(applyCounterAction(1, { action: 'add', amount: -50 }, bounded)).toEqual({ data: 0 });
+			expect(applyCounterAction(MAX_COUNTER_VALUE, { action: 'increment' }, unbounded)).toEqual({ data: MAX_COUNTER_VALUE });
+			expect(applyCounterAction(MIN_COUNTER_VALUE, { action: 'decrement' }, unbounded)).toEqual({ data: MIN_COUNTER_VALUE });
+		});
+
+		test('should wrap around the bounds', () => {
+			const wrapping: CounterSettings = { ...bounded, overflow: 'wrap' };
+			expect(applyCounterAction(9, { action: 'increment' }, wrapping)).toEqual({ data: 1 });
+			expect(applyCounterAction(10, { action: 'add', amount: 1 }, wrapping)).toEqual({ data: 0 });
+			expect(applyCounterAction(1, { action: 'decrement' }, wrapping)).toEqual({ data: 9 });
+			expect(applyCounterAction(0, { action: 'add', amount: -23 }, wrapping)).toEqual({ data: 10 });
+		});
+
+		test('should set within the bounds only', () => {
+			expect(applyCounterAction(4, { action: 'set', value: 10 }, bounded)).toEqual({ data: 10 });
+			const result = applyCounterAction(4, { action: 'set', value: 11 }, bounded);
+			expect('issues' in result && result.issues[0]).toMatchObject({ path: 'value', code: 'value_out_of_bounds' });
+		});
+
+		test('should reset to 0 or the nearest bound', () => {
+			expect(applyCounterAction(4, { action: 'reset' }, bounded)).toEqual({ data: 0 });
+			expect(applyCounterAction(8, { action: 'reset' }, { ...bounded, minValue: 5 })).toEqual({ data: 5 });
+			expect(applyCounterAction(-8, { action: 'reset' }, { ...bounded, minValue: -10, maxValue: -5 })).toEqual({ data: -5 });
+		});
+	});
+
+	describe('readJsonBody', () => {
+		const post = (body: string) => new Request('http://localhost/api/counter', { method: 'POST', body });
+
+		test('should return the parsed body', async () => {
+			expect(await readJsonBody(post('{"action":"reset"}'))).toEqual({ data: { action: 'reset' } });
+		});
+
+		test('should report malformed JSON as an issue', async () => {
+			const result = await readJsonBody(post('{"action":'));
+			expect('issues' in result && result.issues[0]).toMatchObject({ path: '', code: 'invalid_json' });
+		});
+	});
+
+	test('should respond with 422 and the issues', async () => {
+		const issues = [{ path: 'value', code: 'value_out_of_bounds', message: 'value must be between 0 and 10' }];
+		const response = validationErrorResponse(issues);
+		expect(response.status).toBe(422);
+		expect(await response.json()).toEqual({ error: 'value must be between 0 and 10', issues });
+	});
+});
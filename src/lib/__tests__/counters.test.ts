@@ -0,0 +1,92 @@
+import { describe, test, expect } from 'bun:test';
+import {
+	DEFAULT_UNDO_WINDOW_SECONDS,
+	MAX_COUNTER_NAME_LENGTH,
+	MAX_HISTORY_PAGE_SIZE,
+	MAX_UNDO_WINDOW_SECONDS,
+	getCounterChangeContext,
+	getUndoWindowSeconds,
+	isCompleteOrder,
+	isWithinUndoWindow,
+	parseCounterHistoryQuery,
+	parseCounterId,
+	parseCounterName
+} from '../counters';
+
+describe('Counters', () => {
+	describe('parseCounterName', () => {
+		test('should trim names', () => {
+			expect(parseCounterName('  Push-ups ')).toEqual({ name: 'Push-ups' });
+		});
+
+		test('should reject empty and overlong names', () => {
+			expect(parseCounterName('   ')).toHaveProperty('error');
+			expect(parseCounterName(42)).toHaveProperty('error');
+			expect(parseCounterName('x'.repeat(MAX_COUNTER_NAME_LENGTH + 1))).toHaveProperty('error');
+			expect(parseCounterName('x'.repeat(MAX_COUNTER_NAME_LENGTH))).toHaveProperty('name');
+		});
+	});
+
+	test('should parse counter IDs', () => {
+		expect(parseCounterId('12')).toBe(12);
+		expect(parseCounterId('0')).toBeNull();
+		expect(parseCounterId('-1')).toBeNull();
+		expect(parseCounterId('1.5')).toBeNull();
+		expect(parseCounterId('abc')).toBeNull();
+		expect(parseCounterId('99999999999')).toBeNull();
+	});
+
+	describe('isCompleteOrder', () => {
+		test('should accept a permutation of the owned IDs', () => {
+			expect(isCompleteOrder([3, 1, 2], [1, 2, 3])).toBe(true);
+		});
+
+		test('should reject missing, duplicate or foreign IDs', () => {
+			expect(isCompleteOrder([1, 2], [1, 2, 3])).toBe(false);
+			expect(isCompleteOrder([1, 1, 2], [1, 2, 3])).toBe(false);
+			expect(isCompleteOrder([1, 2, 4], [1, 2, 3])).toBe(false);
+			expect(isCompleteOrder('1,2,3', [1, 2, 3])).toBe(false);
+		});
+	});
+
+	test('should attribute changes to the impersonating admin', () => {
+		expect(getCounterChangeContext(7, { requestId: 'req-1' })).toEqual({ actorUserId: 7, requestId: 'req-1' });
+		expect(getCounterChangeContext(7, { impersonatorId: 1 })).toEqual({ actorUserId: 1, requestId: undefined });
+	});
+
+	describe('parseCounterHistoryQuery', () => {
+		test('should use the default counter and page size', () => {
+			expect(parseCounterHistoryQuery(new URLSearchParams())).toEqual({ query: { limit: 20 } });
+		});
+
+		test('should read the counter, cursor and limit', () => {
+			expect(parseCounterHistoryQuery(new URLSearchParams('counter=3&cursor=120&limit=50'))).toEqual({
+				query: { counterId: 3, cursor: 120, limit: 50 }
+			});
+		});
+
+		test('should reject invalid values', () => {
+			expect(parseCounterHistoryQuery(new URLSearchParams('counter=abc'))).toHaveProperty('error');
+			expect(parseCounterHistoryQuery(new URLSearchParams('cursor=-1'))).toHaveProperty('error');
+			expect(parseCounterHistoryQuery(new URLSearchParams(`limit=${MAX_HISTORY_PAGE_SIZE + 1}`))).toHaveProperty('error');
+		});
+	});
+
+	describe('undo window', () => {
+		test('should read the window from the environment', () => {
+			expect(getUndoWindowSeconds({})).toBe(DEFAULT_UNDO_WINDOW_SECONDS);
+			expect(getUndoWindowSeconds({ COUNTER_UNDO_WINDOW_SECONDS: '60' })).toBe(60);
+			expect(getUndoWindowSeconds({ COUNTER_UNDO_WINDOW_SECONDS: '0' })).toBe(0);
+			expect(getUndoWindowSeconds({ COUNTER_UNDO_WINDOW_SECONDS: '-5' })).toBe(0);
+			expect(getUndoWindowSeconds({ COUNTER_UNDO_WINDOW_SECONDS: '999999' })).toBe(MAX_UNDO_WINDOW_SECONDS);
+			expect(getUndoWindowSeconds({ COUNTER_UNDO_WINDOW_SECONDS: 'soon' })).toBe(DEFAULT_UNDO_WINDOW_SECONDS);
+		});
+
+		test('should only allow undoing recent changes', () => {
+			const now = Date.parse('2024-01-01T12:00:00Z');
+			expect(isWithinUndoWindow(new Date(now - 59_000), 60, now)).toBe(true);
+			expect(isWithinUndoWindow(new Date(now - 60_000), 60, now)).toBe(false);
+			expect(isWithinUndoWindow(new Date(now), 0, now)).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,56 @@
+import { describe, test, expect } from 'bun:test';
+import { buildDataExport, createDataExportZip, getExportSections, type DataExportSection } from '../data-export';
+import '../auth';
+import '../auth/roles';
+import '../counters';
+import '../auth/oauth';
+import '../auth/webauthn';
+import '../auth/api-tokens';
+import '../auth/password-reset';
+import '../auth/email';
+import '../audit';
+
+describe('Data export', () => {
+	test('should have each feature module register its kinds of user data', () => {
+		// Sections are listed in the order the modules were loaded
+		expect(getExportSections().map((section) => section.name).sort()).toEqual([
+			'api_tokens',
+			'audit_log',
+			'counter_history',
+			'counters',
+			'email_links',
+			'oauth_accounts',
+			'passkeys',
+			'password_resets',
+			'profile',
+			'roles',
+			'sessions'
+		]);
+	});
+
+	const sections: DataExportSection[] = [
+		{ name: 'profile', description: 'Your account', collect: async (userId) => ({ id: userId, username: 'alice' }) },
+		{ name: 'counters', description: 'Your counters', collect: async () => [{ value: 3 }] }
+	];
+
+	test('should collect every section for the user', async () => {
+		const dataExport = await buildDataExport(42, undefined, sections);
+
+		expect(dataExport.format).toBe('svelte-bun-data-export');
+		expect(dataExport.userId).toBe(42);
+		expect(dataExport.sections).toEqual({
+			profile: { description: 'Your account', data: { id: 42, username: 'alice' } },
+			counters: { description: 'Your counters', data: [{ value: 3 }] }
+		});
+	});
+
+	test('should package a manifest and one file per section', async () => {
+		const zip = createDataExportZip(await buildDataExport(42, undefined, sections));
+		const content = new TextDecoder().decode(zip);
+
+		expect(content).toContain('manifest.json');
+		expect(content).toContain('"file": "profile.json"');
+		expect(content).toContain('counters.json');
+		expect(content).toContain('"username": "alice"');
+	});
+});
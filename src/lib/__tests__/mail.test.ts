@@ -0,0 +1,189 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+	ConsoleMailTransport,
+	DisabledMailTransport,
+	canSendMail,
+	FileMailTransport,
+	HttpMailTransport,
+	MemoryMailTransport,
+	getMailTransport,
+	resetMailTransport,
+	sendMail,
+	setMailTransport,
+	type MailMessage,
+	type MailTransport
+} from '../mail';
+
+describe('Mail delivery', () => {
+	beforeEach(() => {
+		resetMailTransport();
+	});
+
+	describe('getMailTransport', () => {
+		test('should default to the console transport', () => {
+			expect(getMailTransport()).toBeInstanceOf(ConsoleMailTransport);
+		});
+
+		test('should use the file transport when configured', () => {
+			const transport = getMailTransport({ MAIL_TRANSPORT: 'file', MAIL_FILE_DIR: '/tmp/mail' });
+			expect(transport).toBeInstanceOf(FileMailTransport);
+		});
+
+		test('should use the in-memory transport when configured', () => {
+			expect(getMailTransport({ MAIL_TRANSPORT: 'memory' })).toBeInstanceOf(MemoryMailTransport);
+		});
+
+		test('should refuse to send with an unknown transport', () => {
+			expect(getMailTransport({ MAIL_TRANSPORT: 'carrier-pigeon' })).toBeInstanceOf(DisabledMailTransport);
+		});
+
+		test('should refuse to send outside development without a delivering transport', () => {
+			expect(getMailTransport({ ENVIRONMENT: 'production' })).toBeInstanceOf(DisabledMailTransport);
+			resetMailTransport();
+			expect(getMailTransport({ ENVIRONMENT: 'production', MAIL_TRANSPORT: 'console' })).toBeInstanceOf(
+				DisabledMailTransport
+			);
+			resetMailTransport();
+			expect(getMailTransport({ CF_PAGES_BRANCH: 'main', MAIL_TRANSPORT: 'file' })).toBeInstanceOf(DisabledMailTransport);
+		});
+
+		test('should use the http transport when configured', () => {
+			const env = { ENVIRONMENT: 'production', MAIL_TRANSPORT: 'http', MAIL_API_URL: 'https://mail.example.com/emails' };
+			expect(getMailTransport(env)).toBeInstanceOf(DisabledMailTransport);
+			resetMailTransport();
+			expect(getMailTransport({ ...env, MAIL_API_KEY: 'key' })).toBeInstanceOf(HttpMailTransport);
+		});
+
+		test('should return the same instance on repeated calls', () => {
+			expect(getMailTransport()).toBe(getMailTransport());
+		});
+	});
+
+	describe('canSendMail', () => {
+		test('should only report delivering transports', () => {
+			expect(canSendMail({ MAIL_TRANSPORT: 'memory' })).toBe(true);
+			resetMailTransport();
+			expect(canSendMail({ ENVIRONMENT: 'production' })).toBe(false);
+		});
+	});
+
+	describe('DisabledMailTransport', () => {
+		test('should not write sign-in links to the logs', async () => {
+			const logged: unknown[] = [];
+			const originalLog = console.log;
+			const originalError = console.error;
+			console.log = (...args: unknown[]) => logged.push(...args);
+			console.error = (...args: unknown[]) => logged.push(...args);
+			try {
+				getMailTransport({ ENVIRONMENT: 'production' });
+				await sendMail({ to: 'alice@example.com', subject: 'Your sign-in link', text: 'https://app/login/email/verify?token=secret' });
+			} finally {
+				console.log = originalLog;
+				console.error = originalError;
+			}
+
+			expect(logged.join(' ')).not.toContain('secret');
+		});
+	});
+
+	describe('sendMail', () => {
+		test('should deliver through a registered transport with the configured sender', async () => {
+			const sent: Array<MailMessage & { from: string }> = [];
+			const transport: MailTransport = {
+				async send(message) {
+					sent.push(message);
+				}
+			};
+			setMailTransport(transport);
+
+			await sendMail({ to: 'alice', subject: 'Hello', text: 'Hi there' }, { MAIL_FROM: 'app@example.com' });
+
+			expect(sent).toHaveLength(1);
+			expect(sent[0].from).toBe('app@example.com');
+			expect(sent[0].to).toBe('alice');
+		});
+	});
+
+	describe('MemoryMailTransport', () => {
+		test('should collect sent messages in the outbox', async () => {
+			const transport = new MemoryMailTransport();
+			setMailTransport(transport);
+
+			await sendMail({ to: 'alice@example.com', subject: 'First', text: '1' });
+			await sendMail({ to: 'bob@example.com', subject: 'Other', text: '2' });
+			await sendMail({ to: 'alice@example.com', subject: 'Second', text: '3' });
+
+			expect(transport.outbox).toHaveLength(3);
+			expect(transport.lastMessageTo('alice@example.com')?.subject).toBe('Second');
+			expect(transport.lastMessageTo('carol@example.com')).toBeUndefined();
+
+			transport.clear();
+			expect(transport.outbox).toHaveLength(0);
+		});
+	});
+
+	describe('HttpMailTransport', () => {
+		const originalFetch = globalThis.fetch;
+
+		afterEach(() => {
+			globalThis.fetch = originalFetch;
+		});
+
+		test('should post the message with the API key', async () => {
+			const requests: Request[] = [];
+			globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+				requests.push(new Request(input, init));
+				return new Response('{}', { status: 200 });
+			}) as typeof fetch;
+
+			const transport = new HttpMailTransport('https://mail.example.com/emails', 'secret-key');
+			await transport.send({ from: 'app@example.com', to: 'bob@example.com', subject: 'Reset', text: 'link' });
+
+			expect(requests).toHaveLength(1);
+			expect(requests[0].headers.get('authorization')).toBe('Bearer secret-key');
+			expect(await requests[0].json()).toEqual({
+				from: 'app@example.com',
+				to: 'bob@example.com',
+				subject: 'Reset',
+				text: 'link'
+			});
+		});
+
+		test('should throw when the API rejects the message', async () => {
+			globalThis.fetch = (async () => new Response('nope', { status: 422 })) as unknown as typeof fetch;
+
+			const transport = new HttpMailTransport('https://mail.example.com/emails', 'secret-key');
+			await expect(
+				transport.send({ from: 'app@example.com', to: 'bob@example.com', subject: 'Reset', text: 'link' })
+			).rejects.toThrow('Mail API responded with 422');
+		});
+	});
+
+	describe('FileMailTransport', () => {
+		let directory: string;
+
+		beforeEach(async () => {
+			directory = await mkdtemp(join(tmpdir(), 'mail-test-'));
+		});
+
+		afterEach(async () => {
+			await rm(directory, { recursive: true, force: true });
+		});
+
+		test('should write each message as a JSON file', async () => {
+			const transport = new FileMailTransport(directory);
+			await transport.send({ from: 'app@example.com', to: 'bob', subject: 'Reset', text: 'link' });
+
+			const files = await readdir(directory);
+			expect(files).toHaveLength(1);
+
+			const message = JSON.parse(await readFile(join(directory, files[0]), 'utf8'));
+			expect(message.to).toBe('bob');
+			expect(message.subject).toBe('Reset');
+			expect(message.sentAt).toBeDefined();
+		});
+	});
+});
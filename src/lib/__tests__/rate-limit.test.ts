@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'bun:test';
-import { createRateLimiter, checkRateLimit } from '../rate-limit';
+import { createRateLimiter, checkMailRateLimit, checkRateLimit } from '../rate-limit';
 
 describe('Rate limiting utilities', () => {
 	describe('createRateLimiter', () => {
@@ -181,4 +181,11 @@ describe('Rate limiting utilities', () => {
 			expect(result.success).toBe(true);
 		});
 	});
+
+	describe('checkMailRateLimit', () => {
+		test('should allow requests when Redis is not configured', async () => {
+			const result = await checkMailRateLimit('magic-link', 'alice@example.com', '203.0.113.7', undefined);
+			expect(result).toEqual({ success: true });
+		});
+	});
 });
@@ -0,0 +1,154 @@
+import { describe, test, expect } from 'bun:test';
+import {
+	DEFAULT_SECURITY_HEADERS_CONFIG,
+	applySecurityHeaders,
+	extendContentSecurityPolicy,
+	getPostHogOrigins,
+	getSecurityHeadersConfig,
+	parseCspReports,
+	type SecurityHeadersConfig
+} from '../security-headers';
+
+const httpsUrl = new URL('https://app.example.com/');
+const kitPolicy = "default-src 'self'; script-src 'self' 'nonce-abc123'; connect-src 'self'; frame-ancestors 'none'";
+
+function page(headers: Record<string, string> = { 'content-security-policy': kitPolicy }) {
+	return new Response('<html></html>', { headers: { 'content-type': 'text/html', ...headers } });
+}
+
+describe('Security headers', () => {
+	describe('getSecurityHeadersConfig', () => {
+		test('should use the defaults', () => {
+			expect(getSecurityHeadersConfig({})).toEqual(DEFAULT_SECURITY_HEADERS_CONFIG);
+		});
+
+		test('should read the configuration', () => {
+			const config = getSecurityHeadersConfig({
+				CSP_MODE: 'report-only',
+				CSP_CONNECT_SRC: 'https://api.example.com, https://cdn.example.com',
+				CSP_FRAME_ANCESTORS: "'self' https://portal.example.com",
+				HSTS_MAX_AGE: '0',
+				REFERRER_POLICY: 'no-referrer'
+			});
+			expect(config.cspMode).toBe('report-only');
+			expect(config.connectSrc).toEqual(['https://api.example.com', 'https://cdn.example.com']);
+			expect(config.frameAncestors).toEqual(["'self'", 'https://portal.example.com']);
+			expect(config.hstsMaxAge).toBe(0);
+			expect(config.referrerPolicy).toBe('no-referrer');
+		});
+
+		test('should fall back on invalid values', () => {
+			const config = getSecurityHeadersConfig({ CSP_MODE: 'strict', HSTS_MAX_AGE: '-1' });
+			expect(config.cspMode).toBe('enforce');
+			expect(config.hstsMaxAge).toBe(DEFAULT_SECURITY_HEADERS_CONFIG.hstsMaxAge);
+		});
+	});
+
+	describe('getPostHogOrigins', () => {
+		test('should be empty without PostHog', () => {
+			const previous = process.env.POSTHOG_API_KEY;
+			delete process.env.POSTHOG_API_KEY;
+			try {
+				expect(getPostHogOrigins({})).toEqual([]);
+			} finally {
+				if (previous !== undefined) {
+					process.env.POSTHOG_API_KEY = previous;
+				}
+			}
+		});
+
+		test('should include the API and OTLP hosts', () => {
+			expect(
+				getPostHogOrigins({
+					POSTHOG_API_KEY: 'phc_test',
+					POSTHOG_HOST: 'https://eu.i.posthog.com',
+					POSTHOG_OTLP_HOST: 'https://otlp.example.com/v1'
+				})
+			).toEqual(['https://eu.i.posthog.com', 'https://otlp.example.com']);
+		});
+	});
+
+	describe('extendContentSecurityPolicy', () => {
+		test('should keep the nonce and add sources and reporting', () => {
+			const config: SecurityHeadersConfig = {
+				...DEFAULT_SECURITY_HEADERS_CONFIG,
+				connectSrc: ['https://api.example.com'],
+				frameAncestors: ["'self'"]
+			};
+			const policy = extendContentSecurityPolicy(kitPolicy, config, ['https://eu.i.posthog.com']);
+			expect(policy).toContain("script-src 'self' 'nonce-abc123'");
+			expect(policy).toContain("connect-src 'self' https://eu.i.posthog.com https://api.example.com");
+			expect(policy).toContain("frame-ancestors 'self'");
+			expect(policy).toContain('report-uri /api/csp-report');
+			expect(policy).toContain('report-to csp-endpoint');
+		});
+	});
+
+	describe('applySecurityHeaders', () => {
+		test('should enforce the policy by default', () => {
+			const response = applySecurityHeaders(page(), httpsUrl, DEFAULT_SECURITY_HEADERS_CONFIG, []);
+			expect(response.headers.get('content-security-policy')).toContain("'nonce-abc123'");
+			expect(response.headers.get('content-security-policy-report-only')).toBeNull();
+			expect(response.headers.get('x-content-type-options')).toBe('nosniff');
+			expect(response.headers.get('x-frame-options')).toBe('DENY');
+			expect(response.headers.get('strict-transport-security')).toBe('max-age=31536000; includeSubDomains');
+		});
+
+		test('should only report in report-only mode', () => {
+			const config: SecurityHeadersConfig = { ...DEFAULT_SECURITY_HEADERS_CONFIG, cspMode: 'report-only' };
+			const response = applySecurityHeaders(page(), httpsUrl, config, []);
+			expect(response.headers.get('content-security-policy')).toBeNull();
+			expect(response.headers.get('content-security-policy-report-only')).toContain('report-uri /api/csp-report');
+		});
+
+		test('should drop the policy when turned off', () => {
+			const config: SecurityHeadersConfig = { ...DEFAULT_SECURITY_HEADERS_CONFIG, cspMode: 'off' };
+			const response = applySecurityHeaders(page(), httpsUrl, config, []);
+			expect(response.headers.get('content-security-policy')).toBeNull();
+			expect(response.headers.get('referrer-policy')).toBe('strict-origin-when-cross-origin');
+		});
+
+		test('should not send HSTS over plain HTTP', () => {
+			const response = applySecurityHeaders(page(), new URL('http://localhost:5173/'), DEFAULT_SECURITY_HEADERS_CONFIG, []);
+			expect(response.headers.get('strict-transport-security')).toBeNull();
+		});
+
+		test('should copy responses with immutable headers', async () => {
+			const immutable = Response.redirect('https://app.example.com/login', 302);
+			const response = applySecurityHeaders(immutable, httpsUrl, DEFAULT_SECURITY_HEADERS_CONFIG, []);
+			expect(response.status).toBe(302);
+			expect(response.headers.get('location')).toBe('https://app.example.com/login');
+			expect(response.headers.get('x-content-type-options')).toBe('nosniff');
+		});
+	});
+
+	describe('parseCspReports', () => {
+		test('should parse report-uri reports', () => {
+			const [violation] = parseCspReports({
+				'csp-report': {
+					'document-uri': 'https://app.example.com/counter',
+					'blocked-uri': 'https://evil.example/x.js',
+					'violated-directive': 'script-src-elem',
+					'line-number': 12
+				}
+			});
+			expect(violation.blockedUri).toBe('https://evil.example/x.js');
+			expect(violation.violatedDirective).toBe('script-src-elem');
+			expect(violation.lineNumber).toBe('12');
+		});
+
+		test('should parse Reporting API reports and skip other types', () => {
+			const violations = parseCspReports([
+				{ type: 'csp-violation', body: { documentURL: 'https://app.example.com/', effectiveDirective: 'connect-src' } },
+				{ type: 'deprecation', body: { id: 'x' } }
+			]);
+			expect(violations).toHaveLength(1);
+			expect(violations[0].effectiveDirective).toBe('connect-src');
+		});
+
+		test('should ignore malformed bodies', () => {
+			expect(parseCspReports(null)).toEqual([]);
+			expect(parseCspReports({ 'csp-report': 'x' })).toEqual([]);
+		});
+	});
+});
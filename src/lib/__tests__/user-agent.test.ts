@@ -0,0 +1,38 @@
+import { describe, test, expect } from 'bun:test';
+import { describeUserAgent } from '../user-agent';
+
+describe('describeUserAgent', () => {
+	test('should describe common desktop browsers', () => {
+		expect(
+			describeUserAgent('Mozilla/5.0 (X11; Linux x86_64; rv:128.0) Gecko/20100101 Firefox/128.0')
+		).toBe('Firefox on Linux');
+		expect(
+			describeUserAgent(
+				'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.0.0'
+			)
+		).toBe('Edge on Windows');
+		expect(
+			describeUserAgent(
+				'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Safari/605.1.15'
+			)
+		).toBe('Safari on macOS');
+	});
+
+	test('should describe mobile browsers', () => {
+		expect(
+			describeUserAgent(
+				'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/126.0.6478.54 Mobile/15E148 Safari/604.1'
+			)
+		).toBe('Chrome on iOS');
+		expect(
+			describeUserAgent(
+				'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Mobile Safari/537.36'
+			)
+		).toBe('Chrome on Android');
+	});
+
+	test('should fall back for missing or unknown user agents', () => {
+		expect(describeUserAgent(null)).toBe('Unknown device');
+		expect(describeUserAgent('curl/8.5.0')).toBe('Unknown device');
+	});
+});
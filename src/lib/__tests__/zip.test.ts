@@ -0,0 +1,39 @@
+import { describe, test, expect } from 'bun:test';
+import { crc32, createZip } from '../zip';
+
+describe('ZIP writer', () => {
+	test('should compute CRC-32 checksums', () => {
+		expect(crc32(new TextEncoder().encode('hello'))).toBe(0x3610a686);
+		expect(crc32(new Uint8Array())).toBe(0);
+	});
+
+	test('should write local headers, file data and a central directory', () => {
+		const zip = createZip([
+			{ name: 'a.json', data: '{"a":1}' },
+			{ name: 'b.txt', data: new Uint8Array([1, 2, 3]) }
+		]);
+		const view = new DataView(zip.buffer);
+
+		// First local file header and its stored data
+		expect(view.getUint32(0, true)).toBe(0x04034b50);
+		expect(view.getUint16(8, true)).toBe(0); // stored
+		expect(view.getUint32(18, true)).toBe(7);
+		expect(new TextDecoder().decode(zip.slice(30, 36))).toBe('a.json');
+		expect(new TextDecoder().decode(zip.slice(36, 43))).toBe('{"a":1}');
+
+		// End of central directory record points at the central directory
+		const end = zip.length - 22;
+		expect(view.getUint32(end, true)).toBe(0x06054b50);
+		expect(view.getUint16(end + 10, true)).toBe(2);
+		const centralOffset = view.getUint32(end + 16, true);
+		expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+		expect(centralOffset + view.getUint32(end + 12, true)).toBe(end);
+
+		// Second entry's central header references its local header
+		const secondCentral = centralOffset + 46 + 'a.json'.length;
+		const secondLocal = view.getUint32(secondCentral + 42, true);
+		expect(secondLocal).toBe(30 + 6 + 7);
+		expect(view.getUint32(secondLocal, true)).toBe(0x04034b50);
+		expect(view.getUint32(secondLocal + 14, true)).toBe(crc32(new Uint8Array([1, 2, 3])));
+	});
+});
@@ -0,0 +1,187 @@
+/**
+ * Persistent audit log
+ *
+ * Security-relevant actions are stored in the audit_log table so there is a
+ * record even when PostHog is not configured. `logAuthEvent` writes here first
+ * and forwards to PostHog as an additional sink, so call sites only log once.
+ */
+
+import { and, desc, eq, gte, lt, lte, type SQL } from 'drizzle-orm';
+import { getDb } from '$lib/db';
+import { auditLog } from '$lib/db/schema';
+import { registerExportSection } from '$lib/data-export';
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_PAGE_SIZE = 200;
+
+type AuditEnv = { DATABASE_URL?: string };
+
+export interface AuditEvent {
+	actorUserId?: number | null;
+	action: string;
+	target?: string | null;
+	success: boolean;
+	ipAddress?: string;
+	userAgent?: string;
+	metadata?: Record<string, string>;
+}
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+
+export interface AuditLogQuery {
+	actorUserId?: number;
+	action?: string;
+	target?: string;
+	success?: boolean;
+	since?: Date;
+	until?: Date;
+	/** ID of the last entry of the previous page */
+	cursor?: number;
+	limit: number;
+}
+
+/**
+ * Store an audit event
+ *
+ * Never throws: a failed write (e.g. before the table is migrated) is logged
+ * and must not break the action being audited.
+ */
+export async function recordAuditEvent(event: AuditEvent, env?: AuditEnv): Promise<void> {
+	try {
+		const db = getDb(env);
+		await db.insert(auditLog).values({
+			actorUserId: event.actorUserId ?? null,
+			action: event.action,
+			target: event.target ?? null,
+			success: event.success,
+			ipAddress: event.ipAddress,
+			userAgent: event.userAgent,
+			metadata: event.metadata && Object.keys(event.metadata).length > 0 ? event.metadata : null
+		});
+	} catch (error: any) {
+		console.error('Audit log write failed:', {
+			action: event.action,
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+	}
+}
+
+function parsePositiveInteger(value: string): number | null {
+	return /^\d+$/.test(value) && Number(value) > 0 ? Number(value) : null;
+}
+
+function parseDate(value: string): Date | null {
+	const date = new Date(value);
+	return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Read filters and pagination from query parameters
+ *
+ * Supported: actor (user ID), action, target, success (true|false),
+ * since/until (ISO timestamps), cursor and limit.
+ */
+export function parseAuditLogQuery(params: URLSearchParams): { query: AuditLogQuery } | { error: string } {
+	const query: AuditLogQuery = { limit: DEFAULT_AUDIT_PAGE_SIZE };
+
+	const actor = params.get('actor');
+	if (actor !== null) {
+		const actorUserId = parsePositiveInteger(actor);
+		if (actorUserId === null) return { error: 'actor must be a user ID' };
+		query.actorUserId = actorUserId;
+	}
+
+	const action = params.get('action');
+	if (action) query.action = action;
+
+	const target = params.get('target');
+	if (target) query.target = target;
+
+	const success = params.get('success');
+	if (success !== null) {
+		if (success !== 'true' && success !== 'false') return { error: 'success must be true or false' };
+		query.success = success === 'true';
+	}
+
+	for (const key of ['since', 'until'] as const) {
+		const value = params.get(key);
+		if (value !== null) {
+			const date = parseDate(value);
+			if (!date) return { error: `${key} must be an ISO timestamp` };
+			query[key] = date;
+		}
+	}
+
+	const cursor = params.get('cursor');
+	if (cursor !== null) {
+		const id = parsePositiveInteger(cursor);
+		if (id === null) return { error: 'Invalid cursor' };
+		query.cursor = id;
+	}
+
+	const limit = params.get('limit');
+	if (limit !== null) {
+		const value = parsePositiveInteger(limit);
+		if (value === null || value > MAX_AUDIT_PAGE_SIZE) {
+			return { error: `limit must be between 1 and ${MAX_AUDIT_PAGE_SIZE}` };
+		}
+		query.limit = value;
+	}
+
+	return { query };
+}
+
+/**
+ * List audit entries, newest first
+ *
+ * @returns A page of entries and the cursor for the next page (null on the last page)
+ */
+export async function listAuditLog(
+	query: AuditLogQuery,
+	env?: AuditEnv
+): Promise<{ entries: AuditLogEntry[]; nextCursor: string | null }> {
+	const conditions: SQL[] = [];
+	if (query.actorUserId !== undefined) conditions.push(eq(auditLog.actorUserId, query.actorUserId));
+	if (query.action) conditions.push(eq(auditLog.action, query.action));
+	if (query.target) conditions.push(eq(auditLog.target, query.target));
+	if (query.success !== undefined) conditions.push(eq(auditLog.success, query.success));
+	if (query.since) conditions.push(gte(auditLog.createdAt, query.since));
+	if (query.until) conditions.push(lte(auditLog.createdAt, query.until));
+	if (query.cursor !== undefined) conditions.push(lt(auditLog.id, query.cursor));
+
+	const db = getDb(env);
+	// One extra row tells whether there is a next page
+	const rows = await db
+		.select()
+		.from(auditLog)
+		.where(conditions.length > 0 ? and(...conditions) : undefined)
+		.orderBy(desc(auditLog.id))
+		.limit(query.limit + 1);
+
+	const entries = rows.slice(0, query.limit);
+	const nextCursor = rows.length > query.limit ? String(entries[entries.length - 1].id) : null;
+
+	return { entries, nextCursor };
+}
+
+registerExportSection({
+	name: 'audit_log',
+	description: 'Security-relevant actions you performed, e.g. logins and account changes',
+	async collect(userId, env) {
+		return getDb(env)
+			.select({
+				action: auditLog.action,
+				target: auditLog.target,
+				success: auditLog.success,
+				ipAddress: auditLog.ipAddress,
+				userAgent: auditLog.userAgent,
+				metadata: auditLog.metadata,
+				createdAt: auditLog.createdAt
+			})
+			.from(auditLog)
+			.where(eq(auditLog.actorUserId, userId))
+			.orderBy(desc(auditLog.id));
+	}
+});
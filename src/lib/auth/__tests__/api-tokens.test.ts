@@ -0,0 +1,51 @@
+import { describe, test, expect } from 'bun:test';
+import { generateApiToken, hasScope, isApiToken, parseScopes, validateApiToken } from '../api-tokens';
+
+describe('API tokens', () => {
+	describe('generateApiToken', () => {
+		test('should generate prefixed, URL-safe tokens', () => {
+			const token = generateApiToken();
+			expect(token).toMatch(/^sbt_[A-Za-z0-9_-]{43}$/);
+			expect(isApiToken(token)).toBe(true);
+		});
+
+		test('should generate unique tokens', () => {
+			expect(generateApiToken()).not.toBe(generateApiToken());
+		});
+	});
+
+	test('should not recognize other bearer values as tokens', async () => {
+		expect(isApiToken('a'.repeat(64))).toBe(false);
+		// Rejected before any database lookup
+		expect(await validateApiToken('not-a-token')).toBeNull();
+	});
+
+	describe('parseScopes', () => {
+		test('should return known scopes in canonical order without duplicates', () => {
+			expect(parseScopes(['counter:write', 'counter:read', 'counter:write'])).toEqual(['counter:read', 'counter:write']);
+		});
+
+		test('should reject unknown, missing or empty scopes', () => {
+			expect(parseScopes(['counter:read', 'admin'])).toBeNull();
+			expect(parseScopes('counter:read')).toBeNull();
+			expect(parseScopes([])).toBeNull();
+			expect(parseScopes(undefined)).toBeNull();
+		});
+	});
+
+	describe('hasScope', () => {
+		test('should deny anonymous requests', () => {
+			expect(hasScope({}, 'counter:read')).toBe(false);
+		});
+
+		test('should give cookie sessions every scope', () => {
+			expect(hasScope({ userId: 1 }, 'counter:write')).toBe(true);
+		});
+
+		test('should limit token requests to the token scopes', () => {
+			const locals = { userId: 1, apiToken: { id: 1, scopes: ['counter:read'] } };
+			expect(hasScope(locals, 'counter:read')).toBe(true);
+			expect(hasScope(locals, 'counter:write')).toBe(false);
+		});
+	});
+});
@@ -1,5 +1,13 @@
 import { describe, test, expect } from 'bun:test';
-import { hashPassword, verifyPassword, generateSessionId } from '../index';
+import {
+	hashPassword,
+	verifyPassword,
+	generateSessionId,
+	hashToken,
+	getSessionConfig,
+	getSessionTelemetryId,
+	getSessionChain
+} from '../index';
 
 describe('Authentication utilities', () => {
 	describe('Password hashing', () => {
@@ -59,4 +67,96 @@ describe('Authentication utilities', () => {
 			expect(sessionId).toMatch(/^[0-9a-f]{64}$/);
 		});
 	});
+
+	describe('Token hashing', () => {
+		test('should produce a SHA-256 hex digest', () => {
+			expect(hashToken('token')).toMatch(/^[0-9a-f]{64}$/);
+		});
+
+		test('should be deterministic', () => {
+			const token = generateSessionId();
+			expect(hashToken(token)).toBe(hashToken(token));
+		});
+
+		test('should not return the token itself', () => {
+			const token = generateSessionId();
+			expect(hashToken(token)).not.toBe(token);
+		});
+	});
+
+	describe('Session telemetry ID', () => {
+		test('should be stable for a session', () => {
+			const sessionId = generateSessionId();
+			expect(getSessionTelemetryId(sessionId)).toBe(getSessionTelemetryId(sessionId));
+		});
+
+		test('should reveal neither the session ID nor its stored digest', () => {
+			const sessionId = generateSessionId();
+			const telemetryId = getSessionTelemetryId(sessionId);
+
+			expect(telemetryId).toMatch(/^[0-9a-f]{16}$/);
+			expect(sessionId).not.toContain(telemetryId);
+			expect(telemetryId).not.toBe(hashToken(sessionId));
+		});
+	});
+
+	describe('Session configuration', () => {
+		test('should default to a 7 day sliding and 30 day absolute lifetime', () => {
+			const config = getSessionConfig({});
+
+			expect(config.duration).toBe(7 * 24 * 60 * 60 * 1000);
+			expect(config.maxLifetime).toBe(30 * 24 * 60 * 60 * 1000);
+			expect(config.rotationInterval).toBe(24 * 60 * 60 * 1000);
+		});
+
+		test('should read durations in seconds from env', () => {
+			const config = getSessionConfig({
+				SESSION_DURATION: '3600',
+				SESSION_MAX_LIFETIME: '86400',
+				SESSION_ROTATION_INTERVAL: '600'
+			});
+
+			expect(config.duration).toBe(3600 * 1000);
+			expect(config.maxLifetime).toBe(86400 * 1000);
+			expect(config.rotationInterval).toBe(600 * 1000);
+		});
+
+		test('should ignore invalid values', () => {
+			expect(getSessionConfig({ SESSION_DURATION: 'soon' }).duration).toBe(7 * 24 * 60 * 60 * 1000);
+			expect(getSessionConfig({ SESSION_DURATION: '-5' }).duration).toBe(7 * 24 * 60 * 60 * 1000);
+		});
+
+		test('should never make the maximum lifetime shorter than the duration', () => {
+			const config = getSessionConfig({ SESSION_DURATION: '7200', SESSION_MAX_LIFETIME: '60' });
+
+			expect(config.maxLifetime).toBe(config.duration);
+		});
+	});
+
+	describe('Session chain', () => {
+		// Right after a rotation the previous token still works for the grace period
+		const rotated = { tokenHash: 'previous', replacedBy: 'current' };
+		const current = { tokenHash: 'current', replacedBy: null };
+		const other = { tokenHash: 'other', replacedBy: null };
+
+		test('should include the token a session replaced', () => {
+			expect(getSessionChain([rotated, current, other], 'current')).toEqual(new Set(['current', 'previous']));
+		});
+
+		test('should include the token that replaced a session', () => {
+			expect(getSessionChain([rotated, current, other], 'previous')).toEqual(new Set(['previous', 'current']));
+		});
+
+		test('should follow repeated rotations', () => {
+			const older = { tokenHash: 'older', replacedBy: 'previous' };
+
+			expect(getSessionChain([current, older, other, rotated], 'current')).toEqual(
+				new Set(['current', 'previous', 'older'])
+			);
+		});
+
+		test('should leave other sessions alone', () => {
+			expect(getSessionChain([rotated, current, other], 'other')).toEqual(new Set(['other']));
+		});
+	});
 });
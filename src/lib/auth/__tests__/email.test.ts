@@ -0,0 +1,73 @@
+import { describe, test, expect } from 'bun:test';
+import {
+	EMAIL_VERIFICATION_RESEND_INTERVAL,
+	consumeEmailToken,
+	getVerificationResendWait,
+	isSameEmail,
+	isValidEmail,
+	normalizeEmail,
+	sendEmailChangedNotice
+} from '../email';
+import { MemoryMailTransport, resetMailTransport, setMailTransport } from '../../mail';
+
+describe('Email', () => {
+	test('should accept plausible addresses', () => {
+		expect(isValidEmail('alice@example.com')).toBe(true);
+		expect(isValidEmail('alice+tag@mail.example.co.uk')).toBe(true);
+	});
+
+	test('should reject malformed addresses', () => {
+		expect(isValidEmail('alice')).toBe(false);
+		expect(isValidEmail('alice@localhost')).toBe(false);
+		expect(isValidEmail('al ice@example.com')).toBe(false);
+		expect(isValidEmail(`${'a'.repeat(250)}@example.com`)).toBe(false);
+		expect(isValidEmail(42)).toBe(false);
+	});
+
+	test('should trim addresses', () => {
+		expect(normalizeEmail('  alice@example.com ')).toBe('alice@example.com');
+	});
+
+	test('should compare addresses case-insensitively', () => {
+		expect(isSameEmail('Alice@Example.com', ' alice@example.COM')).toBe(true);
+		expect(isSameEmail('alice@example.com', 'bob@example.com')).toBe(false);
+		expect(isSameEmail(null, null)).toBe(false);
+	});
+
+	describe('getVerificationResendWait', () => {
+		const now = Date.now();
+
+		test('should allow the first mail', () => {
+			expect(getVerificationResendWait(null, now)).toBe(0);
+		});
+
+		test('should throttle mails within the resend interval', () => {
+			expect(getVerificationResendWait(new Date(now - 15 * 1000), now)).toBe(
+				EMAIL_VERIFICATION_RESEND_INTERVAL / 1000 - 15
+			);
+		});
+
+		test('should allow a mail once the interval has passed', () => {
+			expect(getVerificationResendWait(new Date(now - EMAIL_VERIFICATION_RESEND_INTERVAL), now)).toBe(0);
+		});
+	});
+
+	test('should tell the previous address about a change', async () => {
+		const transport = new MemoryMailTransport();
+		setMailTransport(transport);
+		try {
+			await sendEmailChangedNotice('alice@example.com', 'alice', 'mallory@example.com', {});
+			await sendEmailChangedNotice('bob@example.com', 'bob', null, {});
+		} finally {
+			resetMailTransport();
+		}
+
+		expect(transport.lastMessageTo('alice@example.com')?.text).toContain('replaced by mallory@example.com');
+		expect(transport.lastMessageTo('bob@example.com')?.text).toContain('removed from the account bob');
+	});
+
+	test('should reject malformed tokens', async () => {
+		// Rejected before any database lookup
+		expect(await consumeEmailToken('not-a-token', 'magic_link')).toBeNull();
+	});
+});
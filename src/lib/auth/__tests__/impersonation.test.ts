@@ -0,0 +1,61 @@
+import { describe, test, expect } from 'bun:test';
+import { getImpersonationConfig, isBlockedWhileImpersonating, isCredentialPath } from '../impersonation';
+
+const readOnly = { readOnly: true };
+
+describe('Impersonation', () => {
+	test('should only be read-only when enabled', () => {
+		expect(getImpersonationConfig({ IMPERSONATION_READ_ONLY: 'true' })).toEqual({ readOnly: true });
+		expect(getImpersonationConfig({ IMPERSONATION_READ_ONLY: 'yes' })).toEqual({ readOnly: false });
+	});
+
+	describe('isBlockedWhileImpersonating', () => {
+		test('should block writes in read-only mode', () => {
+			expect(isBlockedWhileImpersonating('POST', '/api/counter', 1, readOnly)).toBe(true);
+			expect(isBlockedWhileImpersonating('DELETE', '/api/account', 1, readOnly)).toBe(true);
+		});
+
+		test('should allow reads', () => {
+			expect(isBlockedWhileImpersonating('GET', '/api/counter', 1, readOnly)).toBe(false);
+		});
+
+		test('should allow exiting and logging out', () => {
+			expect(isBlockedWhileImpersonating('DELETE', '/api/admin/impersonation', 1, readOnly)).toBe(false);
+			expect(isBlockedWhileImpersonating('POST', '/api/auth/logout', 1, readOnly)).toBe(false);
+		});
+
+		test('should not block without impersonation or read-only mode', () => {
+			expect(isBlockedWhileImpersonating('POST', '/api/counter', undefined, readOnly)).toBe(false);
+			expect(isBlockedWhileImpersonating('POST', '/api/counter', 1, { readOnly: false })).toBe(false);
+		});
+
+		test('should always block credential changes while impersonating', () => {
+			const writable = { readOnly: false };
+			expect(isBlockedWhileImpersonating('POST', '/api/auth/tokens', 1, writable)).toBe(true);
+			expect(isBlockedWhileImpersonating('PATCH', '/api/auth/tokens/3', 1, writable)).toBe(true);
+			expect(isBlockedWhileImpersonating('DELETE', '/api/auth/tokens/3', 1, writable)).toBe(true);
+			expect(isBlockedWhileImpersonating('POST', '/api/auth/passkey/register/verify', 1, writable)).toBe(true);
+			expect(isBlockedWhileImpersonating('POST', '/api/auth/2fa/setup', 1, writable)).toBe(true);
+			expect(isBlockedWhileImpersonating('PATCH', '/api/account/email', 1, writable)).toBe(true);
+			expect(isBlockedWhileImpersonating('PATCH', '/api/account/password', 1, writable)).toBe(true);
+		});
+
+		test('should block account deletion, renaming and session revocation while impersonating', () => {
+			const writable = { readOnly: false };
+			expect(isBlockedWhileImpersonating('DELETE', '/api/account', 1, writable)).toBe(true);
+			expect(isBlockedWhileImpersonating('PATCH', '/api/account/username', 1, writable)).toBe(true);
+			expect(isBlockedWhileImpersonating('DELETE', '/api/auth/sessions', 1, writable)).toBe(true);
+			expect(isBlockedWhileImpersonating('DELETE', '/api/auth/sessions/abc', 1, writable)).toBe(true);
+		});
+
+		test('should allow reading credentials and changing them without impersonation', () => {
+			expect(isBlockedWhileImpersonating('GET', '/api/auth/tokens', 1, readOnly)).toBe(false);
+			expect(isBlockedWhileImpersonating('POST', '/api/auth/tokens', undefined, { readOnly: false })).toBe(false);
+		});
+
+		test('should not treat similarly named routes as credential routes', () => {
+			expect(isCredentialPath('/api/auth/tokens-info')).toBe(false);
+			expect(isCredentialPath('/api/accounts')).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,117 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import {
+	clearLockout,
+	getFailureDelay,
+	MemoryLockoutStore,
+	recordLoginSuccess,
+	reserveLoginAttempt,
+	resetLockoutStore,
+	setLockoutStore
+} from '../lockout';
+
+describe('Login lockout', () => {
+	beforeEach(() => {
+		resetLockoutStore();
+		setLockoutStore(new MemoryLockoutStore());
+	});
+
+	describe('getFailureDelay', () => {
+		test('should allow the first attempts without delay', () => {
+			expect(getFailureDelay(1)).toBe(0);
+			expect(getFailureDelay(3)).toBe(0);
+		});
+
+		test('should double the delay with each further failure up to a cap', () => {
+			expect(getFailureDelay(4)).toBe(1000);
+			expect(getFailureDelay(5)).toBe(2000);
+			expect(getFailureDelay(6)).toBe(4000);
+			expect(getFailureDelay(20)).toBe(60 * 1000);
+		});
+	});
+
+	test('should allow the first attempt', async () => {
+		expect(await reserveLoginAttempt('alice', '10.0.0.1')).toEqual({ allowed: true, lockedOut: [] });
+	});
+
+	test('should impose a delay after the free attempts', async () => {
+		for (let i = 0; i < 4; i++) {
+			expect((await reserveLoginAttempt('alice', '10.0.0.1')).allowed).toBe(true);
+		}
+
+		// The fourth attempt took the one-second delay slot
+		expect(await reserveLoginAttempt('alice', '10.0.0.1')).toEqual({ allowed: false, scope: 'username', retryAfter: 1 });
+	});
+
+	test('should let only one of a parallel burst past the free attempts', async () => {
+		const results = await Promise.all(Array.from({ length: 20 }, () => reserveLoginAttempt('alice', undefined)));
+
+		expect(results.filter((result) => result.allowed)).toHaveLength(4);
+	});
+
+	test('should treat usernames case-insensitively', async () => {
+		for (let i = 0; i < 4; i++) {
+			await reserveLoginAttempt('Alice', undefined);
+		}
+
+		expect((await reserveLoginAttempt('alice', undefined)).allowed).toBe(false);
+	});
+
+	test('should lock the username out at the threshold and report it once', async () => {
+		// As if each progressive delay had passed
+		class NoDelayStore extends MemoryLockoutStore {
+			async acquire() {
+				return true;
+			}
+		}
+		setLockoutStore(new NoDelayStore());
+
+		const reported: string[] = [];
+		for (let i = 0; i < 10; i++) {
+			const result = await reserveLoginAttempt('alice', `10.0.0.${i}`);
+			expect(result.allowed).toBe(true);
+			if (result.allowed) reported.push(...result.lockedOut);
+		}
+
+		const result = await reserveLoginAttempt('alice', '10.0.0.99');
+
+		expect(reported).toEqual(['username']);
+		expect(result.allowed).toBe(false);
+		if (!result.allowed) {
+			expect(result.retryAfter).toBeGreaterThan(14 * 60);
+		}
+	});
+
+	test('should throttle an IP guessing across many usernames', async () => {
+		for (let i = 0; i < 4; i++) {
+			await reserveLoginAttempt(`user${i}`, '10.0.0.1');
+		}
+
+		const result = await reserveLoginAttempt('someone-else', '10.0.0.1');
+
+		expect(result.allowed).toBe(false);
+		if (!result.allowed) {
+			expect(result.scope).toBe('ip');
+		}
+	});
+
+	test('should reset the username but only refund the IP after a successful login', async () => {
+		for (let i = 0; i < 4; i++) {
+			await reserveLoginAttempt('alice', '10.0.0.1');
+		}
+
+		await recordLoginSuccess('alice', '10.0.0.1');
+
+		expect((await reserveLoginAttempt('alice', undefined)).allowed).toBe(true);
+		expect((await reserveLoginAttempt(undefined, '10.0.0.1')).allowed).toBe(false);
+	});
+
+	test('should let an admin clear a lockout', async () => {
+		for (let i = 0; i < 10; i++) {
+			await reserveLoginAttempt('alice', '10.0.0.1');
+		}
+
+		await clearLockout({ username: 'alice', ipAddress: '10.0.0.1' });
+
+		expect(await reserveLoginAttempt('alice', '10.0.0.1')).toEqual({ allowed: true, lockedOut: [] });
+	});
+});
@@ -0,0 +1,121 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { exportJWK, generateKeyPair, SignJWT, type JWTPayload } from 'jose';
+
+interface PendingCode {
+	clientId: string;
+	redirectUri: string;
+	codeChallenge: string;
+	nonce?: string;
+	subject: string;
+	claims: JWTPayload;
+}
+
+/**
+ * Minimal in-process OpenID Connect provider for tests
+ *
+ * Serves discovery, JWKS, token and userinfo endpoints. Instead of rendering a
+ * login page, tests call `authorize()` with the parameters from the
+ * authorization URL to obtain a code, just as the browser redirect would.
+ */
+export async function startMockOidcIssuer() {
+	const { publicKey, privateKey } = await generateKeyPair('RS256');
+	const jwk = { ...(await exportJWK(publicKey)), kid: 'test-key', alg: 'RS256', use: 'sig' };
+	const codes = new Map<string, PendingCode>();
+	const accessTokens = new Map<string, PendingCode>();
+
+	const server = Bun.serve({
+		port: 0,
+		async fetch(request) {
+			const url = new URL(request.url);
+			const issuer = url.origin;
+
+			if (url.pathname === '/.well-known/openid-configuration') {
+				return Response.json({
+					issuer,
+					authorization_endpoint: `${issuer}/authorize`,
+					token_endpoint: `${issuer}/token`,
+					userinfo_endpoint: `${issuer}/userinfo`,
+					jwks_uri: `${issuer}/jwks`
+				});
+			}
+
+			if (url.pathname === '/jwks') {
+				return Response.json({ keys: [jwk] });
+			}
+
+			if (url.pathname === '/token' && request.method === 'POST') {
+				const body = new URLSearchParams(await request.text());
+				const pending = codes.get(body.get('code') || '');
+				codes.delete(body.get('code') || '');
+
+				const verifier = body.get('code_verifier') || '';
+				const challenge = createHash('sha256').update(verifier).digest('base64url');
+
+				if (
+					!pending ||
+					pending.clientId !== body.get('client_id') ||
+					pending.redirectUri !== body.get('redirect_uri') ||
+					pending.codeChallenge !== challenge
+				) {
+					return Response.json({ error: 'invalid_grant' }, { status: 400 });
+				}
+
+				const accessToken = randomBytes(16).toString('hex');
+				accessTokens.set(accessToken, pending);
+
+				// Claims passed to authorize() override the defaults, to simulate bad tokens
+				const idToken = await new SignJWT({
+					iss: issuer,
+					aud: pending.clientId,
+					sub: pending.subject,
+					nonce: pending.nonce,
+					...pending.claims
+				})
+					.setProtectedHeader({ alg: 'RS256', kid: 'test-key' })
+					.setIssuedAt()
+					.setExpirationTime('5m')
+					.sign(privateKey);
+
+				return Response.json({ access_token: accessToken, token_type: 'Bearer', id_token: idToken });
+			}
+
+			if (url.pathname === '/userinfo') {
+				const token = request.headers.get('authorization')?.replace(/^Bearer /, '') || '';
+				const pending = accessTokens.get(token);
+				if (!pending) {
+					return new Response('Unauthorized', { status: 401 });
+				}
+				return Response.json({ id: Number(pending.subject), ...pending.claims });
+			}
+
+			return new Response('Not found', { status: 404 });
+		}
+	});
+
+	const issuer = `http://localhost:${server.port}`;
+
+	return {
+		issuer,
+
+		/**
+		 * Approve an authorization request and return the code the provider would redirect back with
+		 */
+		authorize(authorizationUrl: string, subject: string, claims: JWTPayload = {}): string {
+			const params = new URL(authorizationUrl).searchParams;
+			const code = randomBytes(16).toString('hex');
+			codes.set(code, {
+				clientId: params.get('client_id') || '',
+				redirectUri: params.get('redirect_uri') || '',
+				codeChallenge: params.get('code_challenge') || '',
+				nonce: params.get('nonce') || undefined,
+				subject,
+				claims
+			});
+			return code;
+		},
+
+		stop() {
+			server.stop(true);
+		}
+	};
+}
@@ -0,0 +1,201 @@
+import { describe, test, expect, beforeAll, afterAll, afterEach } from 'bun:test';
+import {
+	completeAuthorization,
+	createAuthorizationRequest,
+	deriveCodeChallenge,
+	getOAuthProviders,
+	getOAuthRedirectUri,
+	OAuthError,
+	resetOAuthCaches,
+	suggestUsername,
+	type OAuthProviderConfig
+} from '../oauth';
+import { startMockOidcIssuer } from './mock-oidc-issuer';
+
+const REDIRECT_URI = 'http://localhost:5173/api/auth/oauth/mock/callback';
+
+describe('OAuth provider configuration', () => {
+	test('should read providers from env and apply presets', () => {
+		const providers = getOAuthProviders({
+			OAUTH_PROVIDERS: 'google, github',
+			OAUTH_GOOGLE_CLIENT_ID: 'google-id',
+			OAUTH_GITHUB_CLIENT_ID: 'github-id',
+			OAUTH_GITHUB_CLIENT_SECRET: 'github-secret'
+		});
+
+		expect(providers.map((provider) => provider.id)).toEqual(['google', 'github']);
+		expect(providers[0].issuer).toBe('https://accounts.google.com');
+		expect(providers[1].name).toBe('GitHub');
+		expect(providers[1].clientSecret).toBe('github-secret');
+		expect(providers[1].tokenEndpoint).toBe('https://github.com/login/oauth/access_token');
+	});
+
+	test('should skip providers without a client ID or endpoints', () => {
+		const providers = getOAuthProviders({
+			OAUTH_PROVIDERS: 'google,custom',
+			OAUTH_CUSTOM_CLIENT_ID: 'custom-id'
+		});
+
+		expect(providers).toEqual([]);
+	});
+
+	test('should configure a custom OIDC provider', () => {
+		const [provider] = getOAuthProviders({
+			OAUTH_PROVIDERS: 'keycloak',
+			OAUTH_KEYCLOAK_NAME: 'Keycloak',
+			OAUTH_KEYCLOAK_ISSUER: 'https://sso.example.com/realms/main',
+			OAUTH_KEYCLOAK_CLIENT_ID: 'svelte-bun',
+			OAUTH_KEYCLOAK_SCOPES: 'openid email'
+		});
+
+		expect(provider.name).toBe('Keycloak');
+		expect(provider.scopes).toEqual(['openid', 'email']);
+	});
+
+	test('should build the callback URL from the request or configured base URL', () => {
+		const url = new URL('http://localhost:5173/api/auth/oauth/google/start');
+
+		expect(getOAuthRedirectUri(url, 'google')).toBe('http://localhost:5173/api/auth/oauth/google/callback');
+		expect(getOAuthRedirectUri(url, 'google', { OAUTH_REDIRECT_BASE_URL: 'https://example.com/' })).toBe(
+			'https://example.com/api/auth/oauth/google/callback'
+		);
+	});
+});
+
+describe('PKCE', () => {
+	test('should derive the S256 challenge from RFC 7636 Appendix B', () => {
+		expect(deriveCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk')).toBe(
+			'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM'
+		);
+	});
+});
+
+describe('Username suggestion', () => {
+	test('should prefer the provider username, then the email local part', () => {
+		expect(suggestUsername('github', { subject: '1', username: 'Octo-Cat' })).toBe('octo-cat');
+		expect(suggestUsername('google', { subject: '1', email: 'jane.doe+x@example.com' })).toBe('jane.doex');
+	});
+
+	test('should fall back to a provider-based name', () => {
+		expect(suggestUsername('google', { subject: '1', name: 'J' })).toBe('google_user');
+	});
+});
+
+describe('Authorization code flow', () => {
+	let issuer: Awaited<ReturnType<typeof startMockOidcIssuer>>;
+	let provider: OAuthProviderConfig;
+
+	beforeAll(async () => {
+		issuer = await startMockOidcIssuer();
+		provider = {
+			id: 'mock',
+			name: 'Mock',
+			clientId: 'client-123',
+			clientSecret: 'secret',
+			scopes: ['openid', 'email'],
+			issuer: issuer.issuer
+		};
+	});
+
+	afterAll(() => {
+		issuer.stop();
+	});
+
+	afterEach(() => {
+		resetOAuthCaches();
+	});
+
+	test('should build an authorization URL with state, nonce and PKCE', async () => {
+		const { url, flow } = await createAuthorizationRequest(provider, REDIRECT_URI);
+		const params = new URL(url).searchParams;
+
+		expect(url.startsWith(`${issuer.issuer}/authorize?`)).toBe(true);
+		expect(params.get('response_type')).toBe('code');
+		expect(params.get('client_id')).toBe('client-123');
+		expect(params.get('redirect_uri')).toBe(REDIRECT_URI);
+		expect(params.get('state')).toBe(flow.state);
+		expect(params.get('nonce')).toBe(flow.nonce);
+		expect(params.get('code_challenge')).toBe(deriveCodeChallenge(flow.codeVerifier));
+		expect(params.get('code_challenge_method')).toBe('S256');
+		expect(flow.mode).toBe('login');
+	});
+
+	test('should return the verified ID token identity', async () => {
+		const { url, flow } = await createAuthorizationRequest(provider, REDIRECT_URI);
+		const code = issuer.authorize(url, 'user-42', { email: 'jane@example.com', email_verified: true });
+
+		const profile = await completeAuthorization(provider, { code, state: flow.state }, flow, REDIRECT_URI);
+
+		expect(profile).toEqual({
+			subject: 'user-42',
+			email: 'jane@example.com',
+			emailVerified: true,
+			name: undefined,
+			username: undefined
+		});
+	});
+
+	test('should reject a mismatched state', async () => {
+		const { url, flow } = await createAuthorizationRequest(provider, REDIRECT_URI);
+		const code = issuer.authorize(url, 'user-42');
+
+		const error = await completeAuthorization(provider, { code, state: 'forged' }, flow, REDIRECT_URI).catch((e) => e);
+
+		expect(error).toBeInstanceOf(OAuthError);
+		expect(error.code).toBe('state_mismatch');
+	});
+
+	test('should reject a mismatched nonce', async () => {
+		const { url, flow } = await createAuthorizationRequest(provider, REDIRECT_URI);
+		const code = issuer.authorize(url, 'user-42', { nonce: 'replayed' });
+
+		const error = await completeAuthorization(provider, { code, state: flow.state }, flow, REDIRECT_URI).catch((e) => e);
+
+		expect(error.code).toBe('nonce_mismatch');
+	});
+
+	test('should reject an ID token issued for another client', async () => {
+		const { url, flow } = await createAuthorizationRequest(provider, REDIRECT_URI);
+		const code = issuer.authorize(url, 'user-42', { aud: 'other-client' });
+
+		const error = await completeAuthorization(provider, { code, state: flow.state }, flow, REDIRECT_URI).catch((e) => e);
+
+		expect(error.code).toBe('invalid_id_token');
+	});
+
+	test('should fail the token exchange with the wrong PKCE verifier', async () => {
+		const { url, flow } = await createAuthorizationRequest(provider, REDIRECT_URI);
+		const code = issuer.authorize(url, 'user-42');
+
+		const error = await completeAuthorization(
+			provider,
+			{ code, state: flow.state },
+			{ ...flow, codeVerifier: 'wrong-verifier' },
+			REDIRECT_URI
+		).catch((e) => e);
+
+		expect(error.code).toBe('token_exchange_failed');
+	});
+
+	test('should identify plain OAuth2 providers through the userinfo endpoint', async () => {
+		const oauth2Provider: OAuthProviderConfig = {
+			id: 'plain',
+			name: 'Plain',
+			clientId: 'client-456',
+			scopes: ['read:user'],
+			authorizationEndpoint: `${issuer.issuer}/authorize`,
+			tokenEndpoint: `${issuer.issuer}/token`,
+			userinfoEndpoint: `${issuer.issuer}/userinfo`
+		};
+
+		const { url, flow } = await createAuthorizationRequest(oauth2Provider, REDIRECT_URI);
+		expect(new URL(url).searchParams.has('nonce')).toBe(false);
+
+		const code = issuer.authorize(url, '1234', { login: 'octocat', email: 'octo@example.com' });
+		const profile = await completeAuthorization(oauth2Provider, { code, state: flow.state }, flow, REDIRECT_URI);
+
+		expect(profile.subject).toBe('1234');
+		expect(profile.username).toBe('octocat');
+		expect(profile.email).toBe('octo@example.com');
+	});
+});
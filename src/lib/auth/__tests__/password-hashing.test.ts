@@ -0,0 +1,109 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import {
+	createBcryptHasher,
+	createPasswordHasherRegistry,
+	createPbkdf2Hasher,
+	createScryptHasher,
+	createTestHasher,
+	findHasher,
+	resetPasswordHasherRegistry,
+	setPasswordHasher,
+	type PasswordHasher
+} from '../password-hashing';
+import { hashPassword, verifyPassword } from '../index';
+
+// Low-cost parameters keep the tests fast
+const hashers: PasswordHasher[] = [
+	createBcryptHasher(4),
+	createScryptHasher({ logN: 10 }),
+	createPbkdf2Hasher({ iterations: 1000 }),
+	createTestHasher()
+];
+
+describe('Password hashing', () => {
+	afterEach(() => {
+		resetPasswordHasherRegistry();
+	});
+
+	for (const hasher of hashers) {
+		describe(hasher.id, () => {
+			test('should verify the correct password and reject others', async () => {
+				const hash = await hasher.hash('correct horse');
+				expect(hasher.handles(hash)).toBe(true);
+				expect(await hasher.verify('correct horse', hash)).toBe(true);
+				expect(await hasher.verify('wrong horse', hash)).toBe(false);
+			});
+
+			test('should salt each hash', async () => {
+				expect(await hasher.hash('correct horse')).not.toBe(await hasher.hash('correct horse'));
+			});
+
+			test('should not need a rehash with unchanged parameters', async () => {
+				expect(hasher.needsRehash(await hasher.hash('correct horse'))).toBe(false);
+			});
+		});
+	}
+
+	test('should encode scrypt and PBKDF2 parameters in the hash', async () => {
+		expect(await createScryptHasher({ logN: 10 }).hash('pw')).toMatch(/^\$scrypt\$ln=10,r=8,p=1\$[^$]+\$[^$]+$/);
+		expect(await createPbkdf2Hasher({ iterations: 1000 }).hash('pw')).toMatch(/^\$pbkdf2-sha256\$i=1000\$[^$]+\$[^$]+$/);
+	});
+
+	test('should need a rehash when parameters change', async () => {
+		expect(createBcryptHasher(5).needsRehash(await createBcryptHasher(4).hash('pw'))).toBe(true);
+		expect(createScryptHasher({ logN: 11 }).needsRehash(await createScryptHasher({ logN: 10 }).hash('pw'))).toBe(true);
+		expect(createPbkdf2Hasher({ iterations: 2000 }).needsRehash(await createPbkdf2Hasher({ iterations: 1000 }).hash('pw'))).toBe(true);
+	});
+
+	test('should verify with the parameters stored in the hash', async () => {
+		const hash = await createPbkdf2Hasher({ iterations: 1000 }).hash('pw');
+		expect(await createPbkdf2Hasher({ iterations: 2000 }).verify('pw', hash)).toBe(true);
+	});
+
+	describe('Registry', () => {
+		test('should use bcrypt by default', () => {
+			expect(createPasswordHasherRegistry({}).current.id).toBe('bcrypt');
+		});
+
+		test('should select the configured algorithm', () => {
+			expect(createPasswordHasherRegistry({ PASSWORD_HASH_ALGORITHM: 'scrypt' }).current.id).toBe('scrypt');
+			expect(createPasswordHasherRegistry({ PASSWORD_HASH_ALGORITHM: 'PBKDF2' }).current.id).toBe('pbkdf2');
+		});
+
+		test('should apply the configured bcrypt cost', async () => {
+			const registry = createPasswordHasherRegistry({ PASSWORD_BCRYPT_COST: '4' });
+			expect(await registry.current.hash('pw')).toMatch(/^\$2[ab]\$04\$/);
+		});
+
+		test('should find the hasher for any registered format', async () => {
+			setPasswordHasher(createTestHasher(), { PASSWORD_BCRYPT_COST: '4' });
+
+			expect(findHasher(await createBcryptHasher(4).hash('pw'))?.id).toBe('bcrypt');
+			expect(findHasher(await createPbkdf2Hasher({ iterations: 1000 }).hash('pw'))?.id).toBe('pbkdf2');
+			expect(findHasher('$test$abc$pw')?.id).toBe('test');
+			expect(findHasher('plaintext')).toBeUndefined();
+		});
+	});
+
+	describe('hashPassword and verifyPassword', () => {
+		test('should hash with the injected hasher', async () => {
+			setPasswordHasher(createTestHasher());
+			const hash = await hashPassword('pw');
+
+			expect(hash).toStartWith('$test$');
+			expect(await verifyPassword('pw', hash)).toBe(true);
+		});
+
+		test('should keep verifying hashes of other registered algorithms', async () => {
+			setPasswordHasher(createTestHasher());
+			const hash = await createPbkdf2Hasher({ iterations: 1000 }).hash('pw');
+
+			expect(await verifyPassword('pw', hash)).toBe(true);
+			expect(await verifyPassword('other', hash)).toBe(false);
+		});
+
+		test('should reject hashes in an unknown format', async () => {
+			expect(await verifyPassword('pw', 'ci-hash:salt:pw')).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,161 @@
+import { describe, test, expect, beforeEach, afterAll } from 'bun:test';
+import { join } from 'node:path';
+import {
+	DEFAULT_PASSWORD_POLICY,
+	checkPasswordRules,
+	estimatePasswordStrength,
+	getPasswordPolicy,
+	isSimilarToUsername
+} from '../password-policy';
+import {
+	RangeFileSource,
+	findInRange,
+	getBreachCount,
+	resetBreachedPasswordSource,
+	setBreachedPasswordSource
+} from '../breached-passwords';
+import { validatePassword } from '../index';
+
+// Contains Tr0ub4dor&3 with a breach count of 42
+const FIXTURE_DIR = join(import.meta.dir, 'fixtures', 'pwned-passwords');
+
+describe('Password policy', () => {
+	describe('getPasswordPolicy', () => {
+		test('should use the defaults without configuration', () => {
+			expect(getPasswordPolicy({})).toEqual(DEFAULT_PASSWORD_POLICY);
+		});
+
+		test('should read the configured values', () => {
+			const policy = getPasswordPolicy({ PASSWORD_MIN_LENGTH: '12', PASSWORD_MIN_CHARACTER_CLASSES: '3' });
+			expect(policy.minLength).toBe(12);
+			expect(policy.minCharacterClasses).toBe(3);
+		});
+
+		test('should ignore invalid values and clamp out-of-range ones', () => {
+			expect(getPasswordPolicy({ PASSWORD_MIN_LENGTH: 'abc' }).minLength).toBe(8);
+			expect(getPasswordPolicy({ PASSWORD_MIN_CHARACTER_CLASSES: '9' }).minCharacterClasses).toBe(4);
+		});
+	});
+
+	describe('checkPasswordRules', () => {
+		test('should accept a password meeting every rule', () => {
+			expect(checkPasswordRules('testpass123', DEFAULT_PASSWORD_POLICY, { username: 'testuser_1' })).toEqual([]);
+		});
+
+		test('should report each failed rule', () => {
+			const rules = checkPasswordRules('alice', DEFAULT_PASSWORD_POLICY, { username: 'alice' }).map((f) => f.rule);
+			expect(rules).toEqual(['min_length', 'character_classes', 'username_similarity']);
+		});
+
+		test('should reject overly long passwords', () => {
+			const rules = checkPasswordRules('a1'.repeat(65), DEFAULT_PASSWORD_POLICY).map((f) => f.rule);
+			expect(rules).toEqual(['max_length']);
+		});
+
+		test('should count character classes', () => {
+			const policy = { ...DEFAULT_PASSWORD_POLICY, minCharacterClasses: 3 };
+			expect(checkPasswordRules('lowercase123', policy).map((f) => f.rule)).toEqual(['character_classes']);
+			expect(checkPasswordRules('Lowercase123', policy)).toEqual([]);
+		});
+	});
+
+	describe('isSimilarToUsername', () => {
+		test('should detect the username inside the password, ignoring case and separators', () => {
+			expect(isSimilarToUsername('Alice-2024!', 'alice')).toBe(true);
+			expect(isSimilarToUsername('my.bob_smith.pw', 'BobSmith')).toBe(true);
+		});
+
+		test('should detect the reversed username', () => {
+			expect(isSimilarToUsername('ecila123', 'alice')).toBe(true);
+		});
+
+		test('should not flag unrelated passwords or very short usernames', () => {
+			expect(isSimilarToUsername('testpass123', 'testuser_1')).toBe(false);
+			expect(isSimilarToUsername('abcdefgh1', 'ab')).toBe(false);
+		});
+	});
+
+	describe('estimatePasswordStrength', () => {
+		test('should rate empty and trivial passwords as very weak', () => {
+			expect(estimatePasswordStrength('')).toBe(0);
+			expect(estimatePasswordStrength('12345678')).toBe(0);
+		});
+
+		test('should rate longer and more varied passwords higher', () => {
+			const fair = estimatePasswordStrength('testpass123');
+			const strong = estimatePasswordStrength('Correct-Horse-Battery-9');
+			expect(fair).toBeGreaterThan(0);
+			expect(strong).toBe(4);
+		});
+	});
+});
+
+describe('Breached passwords', () => {
+	beforeEach(() => {
+		resetBreachedPasswordSource();
+		setBreachedPasswordSource(new RangeFileSource(FIXTURE_DIR));
+	});
+
+	afterAll(() => {
+		resetBreachedPasswordSource();
+	});
+
+	test('should find a suffix in a range and ignore padding entries', () => {
+		const range = 'AAAAA:0\r\n0018A45C4D1DEF81644B54AB7F969B88D65:3\r\n';
+		expect(findInRange(range, '0018A45C4D1DEF81644B54AB7F969B88D65')).toBe(3);
+		expect(findInRange(range, 'AAAAA')).toBe(0);
+		expect(findInRange(range, 'BBBBB')).toBe(0);
+	});
+
+	test('should return the breach count from the range file', async () => {
+		expect(await getBreachCount('Tr0ub4dor&3')).toBe(42);
+	});
+
+	test('should return 0 for passwords without a range file or match', async () => {
+		expect(await getBreachCount('testpass123')).toBe(0);
+	});
+
+	test('should only pass the hash prefix to the source', async () => {
+		const requested: string[] = [];
+		setBreachedPasswordSource({
+			async getRange(prefix) {
+				requested.push(prefix);
+				return null;
+			}
+		});
+
+		await getBreachCount('Tr0ub4dor&3');
+		expect(requested).toEqual(['87457']);
+	});
+
+	test('should fail open when the source is unavailable', async () => {
+		setBreachedPasswordSource({
+			async getRange() {
+				throw new Error('unavailable');
+			}
+		});
+
+		expect(await getBreachCount('Tr0ub4dor&3')).toBe(0);
+	});
+
+	test('should skip the check when disabled', async () => {
+		resetBreachedPasswordSource();
+		expect(await getBreachCount('Tr0ub4dor&3', { BREACHED_PASSWORD_CHECK: 'off' })).toBe(0);
+	});
+
+	describe('validatePassword', () => {
+		test('should reject a breached password that meets the other rules', async () => {
+			const failures = await validatePassword('Tr0ub4dor&3', { username: 'alice' });
+			expect(failures.map((f) => f.rule)).toEqual(['breached']);
+		});
+
+		test('should accept a password that passes every rule', async () => {
+			expect(await validatePassword('testpass123', { username: 'testuser_1' })).toEqual([]);
+		});
+
+		test('should report local rule failures without a breach lookup', async () => {
+			const failures = await validatePassword('short', { username: 'alice' });
+			expect(failures.map((f) => f.rule)).toEqual(['min_length', 'character_classes']);
+		});
+	});
+});
@@ -0,0 +1,81 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { hashPassword } from '../index';
+import { MemoryLockoutStore, resetLockoutStore, setLockoutStore } from '../lockout';
+import { isRecentlyAuthenticated, REAUTHENTICATION_WINDOW, verifyReauthentication } from '../reauthentication';
+
+const now = Date.now();
+const recent = { authenticatedAt: new Date(now - 60 * 1000) };
+const stale = { authenticatedAt: new Date(now - REAUTHENTICATION_WINDOW - 1000) };
+
+describe('Re-authentication', () => {
+	describe('isRecentlyAuthenticated', () => {
+		test('should accept a sign-in within the window', () => {
+			expect(isRecentlyAuthenticated(recent, now)).toBe(true);
+			expect(isRecentlyAuthenticated(stale, now)).toBe(false);
+		});
+
+		test('should not accept requests without a session sign-in', () => {
+			expect(isRecentlyAuthenticated({}, now)).toBe(false);
+		});
+
+		test('should not accept impersonation or API token requests', () => {
+			expect(isRecentlyAuthenticated({ ...recent, impersonatorId: 1 }, now)).toBe(false);
+			expect(isRecentlyAuthenticated({ ...recent, apiToken: { id: 1, scopes: [] } }, now)).toBe(false);
+		});
+	});
+
+	describe('verifyReauthentication', () => {
+		let passwordUser: { id: number; username: string; password: string; hasPassword: boolean };
+		const passwordlessUser = { id: 2, username: 'oauth-user', password: 'unusable', hasPassword: false };
+
+		beforeEach(async () => {
+			resetLockoutStore();
+			setLockoutStore(new MemoryLockoutStore());
+			passwordUser ??= { id: 1, username: 'alice', password: await hashPassword('correct horse'), hasPassword: true };
+		});
+
+		test('should check the password of accounts that have one', async () => {
+			expect(await verifyReauthentication(passwordUser, { password: 'correct horse' }, stale, '203.0.113.1')).toEqual({
+				status: 'verified'
+			});
+			expect(await verifyReauthentication(passwordUser, { password: 'wrong' }, stale, '203.0.113.1')).toEqual({
+				status: 'invalid'
+			});
+		});
+
+		test('should require the password even after a recent sign-in or with a code', async () => {
+			const fresh = { authenticatedAt: new Date() };
+
+			expect(await verifyReauthentication(passwordUser, {}, fresh, '203.0.113.1')).toEqual({ status: 'required' });
+			expect(await verifyReauthentication(passwordUser, { code: '123456' }, fresh, '203.0.113.1')).toEqual({
+				status: 'required'
+			});
+		});
+
+		test('should accept a recent sign-in for accounts without a password', async () => {
+			expect(await verifyReauthentication(passwordlessUser, {}, { authenticatedAt: new Date() }, '203.0.113.1')).toEqual({
+				status: 'verified'
+			});
+			expect(await verifyReauthentication(passwordlessUser, {}, stale, '203.0.113.1')).toEqual({ status: 'required' });
+		});
+
+		test('should not accept a password for accounts without one', async () => {
+			expect(await verifyReauthentication(passwordlessUser, { password: 'unusable' }, stale, '203.0.113.1')).toEqual({
+				status: 'required'
+			});
+		});
+
+		test('should count wrong passwords against the login lockout', async () => {
+			let result = await verifyReauthentication(passwordUser, { password: 'wrong' }, stale, '203.0.113.1');
+			for (let attempt = 1; attempt < 5 && result.status === 'invalid'; attempt++) {
+				result = await verifyReauthentication(passwordUser, { password: 'wrong' }, stale, '203.0.113.1');
+			}
+
+			expect(result.status).toBe('locked');
+			// A correct password is refused too while locked
+			expect((await verifyReauthentication(passwordUser, { password: 'correct horse' }, stale, '203.0.113.1')).status).toBe(
+				'locked'
+			);
+		});
+	});
+});
@@ -0,0 +1,54 @@
+import { describe, test, expect } from 'bun:test';
+import { bootstrapAdmin, hasRole, isGrantableRole, requireRole } from '../roles';
+
+describe('Roles', () => {
+	test('should only allow granting non-implicit roles', () => {
+		expect(isGrantableRole('admin')).toBe(true);
+		expect(isGrantableRole('user')).toBe(false);
+		expect(isGrantableRole('root')).toBe(false);
+		expect(isGrantableRole(undefined)).toBe(false);
+	});
+
+	describe('hasRole', () => {
+		test('should deny anonymous requests', () => {
+			expect(hasRole({ roles: ['user', 'admin'] }, 'admin')).toBe(false);
+		});
+
+		test('should check the loaded roles', () => {
+			expect(hasRole({ userId: 1, roles: ['user'] }, 'user')).toBe(true);
+			expect(hasRole({ userId: 1, roles: ['user'] }, 'admin')).toBe(false);
+			expect(hasRole({ userId: 1, roles: ['user', 'admin'] }, 'admin')).toBe(true);
+		});
+
+		test('should deny when roles were not loaded', () => {
+			expect(hasRole({ userId: 1 }, 'user')).toBe(false);
+		});
+	});
+
+	describe('requireRole', () => {
+		test('should return 401 for anonymous requests', () => {
+			expect(requireRole({}, 'admin')?.status).toBe(401);
+		});
+
+		test('should return 403 without the role', () => {
+			expect(requireRole({ userId: 1, roles: ['user'] }, 'admin')?.status).toBe(403);
+		});
+
+		test('should return null with the role', () => {
+			expect(requireRole({ userId: 1, roles: ['user', 'admin'] }, 'admin')).toBeNull();
+		});
+	});
+
+	test('should not bootstrap an admin without INITIAL_ADMIN_USERNAME', async () => {
+		const previous = process.env.INITIAL_ADMIN_USERNAME;
+		delete process.env.INITIAL_ADMIN_USERNAME;
+		try {
+			// Returns before any database lookup
+			expect(await bootstrapAdmin({})).toBe(false);
+		} finally {
+			if (previous !== undefined) {
+				process.env.INITIAL_ADMIN_USERNAME = previous;
+			}
+		}
+	});
+});
@@ -0,0 +1,119 @@
+import { describe, test, expect } from 'bun:test';
+import {
+	base32Encode,
+	base32Decode,
+	generateHotp,
+	generateTotp,
+	generateTotpSecret,
+	verifyTotp,
+	buildOtpauthUri,
+	getTimeStep
+} from '../totp';
+import { generateRecoveryCode, normalizeRecoveryCode } from '../two-factor';
+
+// RFC 6238 Appendix B test secret for HMAC-SHA1: ASCII "12345678901234567890"
+const RFC_SECRET = base32Encode(new TextEncoder().encode('12345678901234567890'));
+
+describe('TOTP', () => {
+	describe('base32', () => {
+		test('should encode RFC 4648 test vectors', () => {
+			expect(base32Encode(new TextEncoder().encode('foobar'))).toBe('MZXW6YTBOI');
+			expect(base32Encode(new TextEncoder().encode('f'))).toBe('MY');
+		});
+
+		test('should round-trip arbitrary bytes', () => {
+			const bytes = new Uint8Array([0, 1, 2, 250, 255, 128, 64]);
+			expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+		});
+
+		test('should ignore case, spaces and padding when decoding', () => {
+			expect(new TextDecoder().decode(base32Decode('mzxw 6ytb oi======'))).toBe('foobar');
+		});
+
+		test('should reject invalid characters', () => {
+			expect(() => base32Decode('MZXW1')).toThrow();
+		});
+	});
+
+	describe('HOTP', () => {
+		test('should match RFC 4226 Appendix D values', () => {
+			const key = new TextEncoder().encode('12345678901234567890');
+			const expected = ['755224', '287082', '359152', '969429', '338314'];
+			expected.forEach((code, counter) => {
+				expect(generateHotp(key, counter)).toBe(code);
+			});
+		});
+	});
+
+	describe('generateTotp', () => {
+		test('should match RFC 6238 Appendix B values (8 digits, SHA-1)', () => {
+			expect(generateTotp(RFC_SECRET, 59 * 1000, 8)).toBe('94287082');
+			expect(generateTotp(RFC_SECRET, 1111111109 * 1000, 8)).toBe('07081804');
+			expect(generateTotp(RFC_SECRET, 1234567890 * 1000, 8)).toBe('89005924');
+			expect(generateTotp(RFC_SECRET, 20000000000 * 1000, 8)).toBe('65353130');
+		});
+	});
+
+	describe('verifyTotp', () => {
+		const now = 1_700_000_000_000;
+
+		test('should accept the current code and return its time step', () => {
+			const code = generateTotp(RFC_SECRET, now);
+			expect(verifyTotp(RFC_SECRET, code, { timestampMs: now })).toBe(getTimeStep(now));
+		});
+
+		test('should accept codes within the drift window', () => {
+			const previous = generateTotp(RFC_SECRET, now - 30_000);
+			expect(verifyTotp(RFC_SECRET, previous, { timestampMs: now })).toBe(getTimeStep(now) - 1);
+		});
+
+		test('should reject codes outside the drift window', () => {
+			const old = generateTotp(RFC_SECRET, now - 90_000);
+			expect(verifyTotp(RFC_SECRET, old, { timestampMs: now })).toBeNull();
+		});
+
+		test('should reject malformed codes', () => {
+			expect(verifyTotp(RFC_SECRET, 'abcdef', { timestampMs: now })).toBeNull();
+			expect(verifyTotp(RFC_SECRET, '12345', { timestampMs: now })).toBeNull();
+		});
+
+		test('should tolerate spaces in the code', () => {
+			const code = generateTotp(RFC_SECRET, now);
+			expect(verifyTotp(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, { timestampMs: now })).not.toBeNull();
+		});
+	});
+
+	describe('generateTotpSecret', () => {
+		test('should generate a 160-bit base32 secret', () => {
+			const secret = generateTotpSecret();
+			expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+			expect(base32Decode(secret).length).toBe(20);
+		});
+	});
+
+	describe('buildOtpauthUri', () => {
+		test('should build a provisioning URI with issuer and account', () => {
+			const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', 'alice', 'svelte-bun');
+			const url = new URL(uri);
+
+			expect(url.protocol).toBe('otpauth:');
+			expect(url.host).toBe('totp');
+			expect(decodeURIComponent(url.pathname)).toBe('/svelte-bun:alice');
+			expect(url.searchParams.get('secret')).toBe('JBSWY3DPEHPK3PXP');
+			expect(url.searchParams.get('issuer')).toBe('svelte-bun');
+			expect(url.searchParams.get('digits')).toBe('6');
+			expect(url.searchParams.get('period')).toBe('30');
+		});
+	});
+
+	describe('Recovery codes', () => {
+		test('should generate codes in XXXXX-XXXXX format', () => {
+			expect(generateRecoveryCode()).toMatch(/^[A-Z2-7]{5}-[A-Z2-7]{5}$/);
+		});
+
+		test('should normalize case and separators', () => {
+			expect(normalizeRecoveryCode('abcde-fghij')).toBe('ABCDEFGHIJ');
+			expect(normalizeRecoveryCode(' ABCDE FGHIJ ')).toBe('ABCDEFGHIJ');
+		});
+	});
+});
@@ -0,0 +1,155 @@
+import { describe, test, expect } from 'bun:test';
+import {
+	getRelyingParty,
+	isSignatureCounterValid,
+	verifyPasskeyAuthentication,
+	verifyPasskeyRegistration,
+	type RelyingParty,
+	type StoredPasskey
+} from '../webauthn';
+import fixture from './fixtures/passkey.json';
+
+// Responses recorded from a software authenticator (ES256, "none" attestation)
+// for http://localhost:5173; see fixtures/passkey.json
+const rp: RelyingParty = { id: fixture.rpID, name: 'svelte-bun', origin: fixture.origin };
+
+const registration = fixture.registration as any;
+const [firstAssertion, secondAssertion] = fixture.authentication as any[];
+
+const storedPasskey: StoredPasskey = {
+	id: registration.response.id,
+	publicKey: fixture.credentialPublicKey,
+	counter: 0,
+	transports: 'internal'
+};
+
+describe('WebAuthn passkeys', () => {
+	describe('getRelyingParty', () => {
+		test('should default to the request hostname and origin', () => {
+			const result = getRelyingParty(new URL('https://example.com/api/auth/passkey/login/options'));
+			expect(result).toEqual({ id: 'example.com', name: 'svelte-bun', origin: 'https://example.com' });
+		});
+
+		test('should prefer configured values', () => {
+			const result = getRelyingParty(new URL('http://internal:3000/'), {
+				WEBAUTHN_RP_ID: 'example.com',
+				WEBAUTHN_RP_NAME: 'Example',
+				WEBAUTHN_ORIGIN: 'https://app.example.com'
+			});
+			expect(result).toEqual({ id: 'example.com', name: 'Example', origin: 'https://app.example.com' });
+		});
+	});
+
+	describe('isSignatureCounterValid', () => {
+		test('should accept authenticators without a counter', () => {
+			expect(isSignatureCounterValid(0, 0)).toBe(true);
+		});
+
+		test('should accept an increasing counter', () => {
+			expect(isSignatureCounterValid(0, 1)).toBe(true);
+			expect(isSignatureCounterValid(5, 6)).toBe(true);
+		});
+
+		test('should reject a repeated or decreasing counter', () => {
+			expect(isSignatureCounterValid(5, 5)).toBe(false);
+			expect(isSignatureCounterValid(5, 3)).toBe(false);
+			expect(isSignatureCounterValid(5, 0)).toBe(false);
+		});
+	});
+
+	describe('verifyPasskeyRegistration', () => {
+		test('should verify a recorded attestation', async () => {
+			const result = await verifyPasskeyRegistration(registration.response, registration.expectedChallenge, rp);
+
+			expect(result.verified).toBe(true);
+			if (result.verified) {
+				expect(result.passkey.id).toBe(storedPasskey.id);
+				expect(result.passkey.publicKey).toBe(fixture.credentialPublicKey);
+				expect(result.passkey.counter).toBe(0);
+				expect(result.passkey.transports).toBe('internal');
+			}
+		});
+
+		test('should reject a mismatched challenge', async () => {
+			const result = await verifyPasskeyRegistration(registration.response, 'not-the-challenge', rp);
+			expect(result.verified).toBe(false);
+		});
+
+		test('should reject a different origin', async () => {
+			const result = await verifyPasskeyRegistration(registration.response, registration.expectedChallenge, {
+				...rp,
+				origin: 'https://evil.example'
+			});
+			expect(result.verified).toBe(false);
+		});
+	});
+
+	describe('verifyPasskeyAuthentication', () => {
+		test('should verify a recorded assertion and return the new counter', async () => {
+			const result = await verifyPasskeyAuthentication(
+				firstAssertion.response,
+				firstAssertion.expectedChallenge,
+				rp,
+				storedPasskey
+			);
+
+			expect(result).toEqual({ verified: true, newCounter: 1 });
+		});
+
+		test('should accept a later assertion after the counter was updated', async () => {
+			const result = await verifyPasskeyAuthentication(
+				secondAssertion.response,
+				secondAssertion.expectedChallenge,
+				rp,
+				{ ...storedPasskey, counter: 1 }
+			);
+
+			expect(result).toEqual({ verified: true, newCounter: 2 });
+		});
+
+		test('should reject a replayed assertion with a stale counter', async () => {
+			const result = await verifyPasskeyAuthentication(
+				firstAssertion.response,
+				firstAssertion.expectedChallenge,
+				rp,
+				{ ...storedPasskey, counter: 2 }
+			);
+
+			expect(result).toEqual({ verified: false, reason: 'Signature counter regression' });
+		});
+
+		test('should reject a mismatched challenge', async () => {
+			const result = await verifyPasskeyAuthentication(
+				firstAssertion.response,
+				secondAssertion.expectedChallenge,
+				rp,
+				storedPasskey
+			);
+
+			expect(result.verified).toBe(false);
+		});
+
+		test('should reject a signature from a different key', async () => {
+			const result = await verifyPasskeyAuthentication(
+				firstAssertion.response,
+				firstAssertion.expectedChallenge,
+				rp,
+				// Same credential ID, but a different (wrong) public key
+				{ ...storedPasskey, publicKey: fixture.credentialPublicKey.replace(/^(.{20})./, '$1A') }
+			);
+
+			expect(result.verified).toBe(false);
+		});
+
+		test('should reject an assertion for another credential', async () => {
+			const result = await verifyPasskeyAuthentication(
+				firstAssertion.response,
+				firstAssertion.expectedChallenge,
+				rp,
+				{ ...storedPasskey, id: 'another-credential' }
+			);
+
+			expect(result).toEqual({ verified: false, reason: 'Credential ID mismatch' });
+		});
+	});
+});
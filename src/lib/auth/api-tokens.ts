@@ -0,0 +1,175 @@
+/**
+ * Personal access tokens for scripted API access
+ *
+ * Tokens are sent as `Authorization: Bearer <token>` and grant a fixed set of
+ * scopes. Only the SHA-256 digest is stored, so a token is shown to its owner
+ * once, when it is created.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { and, desc, eq } from 'drizzle-orm';
+import { getDb } from '$lib/db';
+import { apiTokens } from '$lib/db/schema';
+import { registerExportSection } from '$lib/data-export';
+import { hashToken } from '$lib/auth';
+
+export const API_TOKEN_SCOPES = ['counter:read', 'counter:write'] as const;
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+// Recognizable prefix, so leaked tokens are easy to spot (e.g. by secret scanners)
+const TOKEN_PREFIX = 'sbt_';
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+const MAX_NAME_LENGTH = 100;
+const LAST_USED_UPDATE_INTERVAL = 5 * 60 * 1000; // 5 minutes in milliseconds
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+
+/**
+ * Generate a new random token
+ */
+export function generateApiToken(): string {
+	return `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Check whether a string looks like one of our tokens
+ */
+export function isApiToken(value: string): boolean {
+	return value.startsWith(TOKEN_PREFIX);
+}
+
+/**
+ * Validate requested scopes
+ *
+ * @returns The unique scopes in canonical order, or null if any is unknown or none were given
+ */
+export function parseScopes(scopes: unknown): ApiTokenScope[] | null {
+	if (!Array.isArray(scopes) || scopes.length === 0) {
+		return null;
+	}
+	if (!scopes.every((scope) => (API_TOKEN_SCOPES as readonly unknown[]).includes(scope))) {
+		return null;
+	}
+	return API_TOKEN_SCOPES.filter((scope) => scopes.includes(scope));
+}
+
+/**
+ * Check whether a request may use a scope
+ *
+ * Cookie sessions have full access; token requests only have the token's scopes.
+ */
+export function hasScope(locals: App.Locals, scope: ApiTokenScope): boolean {
+	if (!locals.userId) {
+		return false;
+	}
+	return !locals.apiToken || locals.apiToken.scopes.includes(scope);
+}
+
+/**
+ * Create a token for a user
+ *
+ * @returns The raw token (to show once) and the stored record
+ */
+export async function createApiToken(
+	userId: number,
+	options: { name: string; scopes: ApiTokenScope[]; expiresAt?: Date | null },
+	env?: { DATABASE_URL?: string }
+): Promise<{ token: string; apiToken: ApiToken }> {
+	const db = getDb(env);
+	const token = generateApiToken();
+
+	const [apiToken] = await db
+		.insert(apiTokens)
+		.values({
+			userId,
+			name: options.name.trim().slice(0, MAX_NAME_LENGTH),
+			tokenHash: hashToken(token),
+			tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+			scopes: options.scopes.join(','),
+			expiresAt: options.expiresAt ?? null
+		})
+		.returning();
+
+	return { token, apiToken };
+}
+
+/**
+ * List a user's tokens, newest first
+ */
+export async function listApiTokens(userId: number, env?: { DATABASE_URL?: string }): Promise<ApiToken[]> {
+	const db = getDb(env);
+	return db.select().from(apiTokens).where(eq(apiTokens.userId, userId)).orderBy(desc(apiTokens.createdAt));
+}
+
+/**
+ * Revoke one of a user's tokens
+ *
+ * @returns Whether a token was revoked
+ */
+export async function revokeApiToken(userId: number, tokenId: number, env?: { DATABASE_URL?: string }): Promise<boolean> {
+	const db = getDb(env);
+	const deleted = await db
+		.delete(apiTokens)
+		.where(and(eq(apiTokens.id, tokenId), eq(apiTokens.userId, userId)))
+		.returning();
+	return deleted.length > 0;
+}
+
+/**
+ * Resolve a bearer token to its user and scopes
+ *
+ * Expired tokens are deleted. The last-used time is updated at most every few minutes.
+ */
+export async function validateApiToken(
+	token: string,
+	env?: { DATABASE_URL?: string }
+): Promise<{ tokenId: number; userId: number; scopes: ApiTokenScope[] } | null> {
+	if (!isApiToken(token)) {
+		return null;
+	}
+
+	const db = getDb(env);
+	const [apiToken] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, hashToken(token))).limit(1);
+
+	if (!apiToken) {
+		return null;
+	}
+
+	if (apiToken.expiresAt && apiToken.expiresAt < new Date()) {
+		await db.delete(apiTokens).where(eq(apiTokens.id, apiToken.id));
+		return null;
+	}
+
+	if (!apiToken.lastUsedAt || Date.now() - apiToken.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL) {
+		try {
+			await db.update(apiTokens).set({ lastUsedAt: new Date() }).where(eq(apiTokens.id, apiToken.id));
+		} catch (error) {
+			// Usage tracking is best-effort - don't reject the request
+			console.error('API token touch error:', error);
+		}
+	}
+
+	return {
+		tokenId: apiToken.id,
+		userId: apiToken.userId,
+		scopes: parseScopes(apiToken.scopes.split(',')) || []
+	};
+}
+
+registerExportSection({
+	name: 'api_tokens',
+	description: 'Personal access tokens (without the token values)',
+	async collect(userId, env) {
+		return getDb(env)
+			.select({
+				name: apiTokens.name,
+				tokenPrefix: apiTokens.tokenPrefix,
+				scopes: apiTokens.scopes,
+				createdAt: apiTokens.createdAt,
+				lastUsedAt: apiTokens.lastUsedAt,
+				expiresAt: apiTokens.expiresAt
+			})
+			.from(apiTokens)
+			.where(eq(apiTokens.userId, userId));
+	}
+});
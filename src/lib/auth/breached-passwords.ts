@@ -0,0 +1,155 @@
+/**
+ * Breached-password lookup
+ *
+ * Passwords are checked with k-anonymity: only the first 5 hex characters of
+ * the SHA-1 digest select a range, and the remaining suffix is matched
+ * locally. Ranges come from a directory of range files by default, using the
+ * layout of the Have I Been Pwned downloader (`<dir>/<PREFIX>.txt` containing
+ * `SUFFIX:COUNT` lines), so the check works offline and in tests. Deployments
+ * without a filesystem (Cloudflare Workers) can query the HIBP range API instead.
+ *
+ * Lookups fail open: if the data source is unavailable the password is accepted.
+ */
+
+import { createHash } from 'node:crypto';
+import { trackedFetch } from '$lib/telemetry';
+
+const DEFAULT_RANGE_DIRECTORY = 'data/pwned-passwords';
+const HIBP_RANGE_API = 'https://api.pwnedpasswords.com/range';
+const PREFIX_LENGTH = 5;
+
+/**
+ * Source of SHA-1 hash ranges
+ */
+export interface BreachedPasswordSource {
+	/**
+	 * Get the range for a 5 character uppercase hex prefix
+	 *
+	 * @returns The range in `SUFFIX:COUNT` line format, or null if there is none
+	 */
+	getRange(prefix: string): Promise<string | null>;
+}
+
+/**
+ * Reads ranges from `<directory>/<PREFIX>.txt` files
+ */
+export class RangeFileSource implements BreachedPasswordSource {
+	constructor(private directory: string) {}
+
+	async getRange(prefix: string): Promise<string | null> {
+		const { readFile } = await import('node:fs/promises');
+		const { join } = await import('node:path');
+
+		try {
+			return await readFile(join(this.directory, `${prefix}.txt`), 'utf8');
+		} catch (error: any) {
+			// A missing file just means no known breached password has this prefix
+			if (error?.code === 'ENOENT') {
+				return null;
+			}
+			throw error;
+		}
+	}
+}
+
+/**
+ * Queries the Have I Been Pwned range API
+ */
+export class HibpApiSource implements BreachedPasswordSource {
+	async getRange(prefix: string): Promise<string | null> {
+		const response = await trackedFetch(`${HIBP_RANGE_API}/${prefix}`, {
+			headers: { 'Add-Padding': 'true' }
+		});
+
+		if (!response.ok) {
+			throw new Error(`Breached password range request failed with status ${response.status}`);
+		}
+
+		return response.text();
+	}
+}
+
+type BreachedPasswordEnv = {
+	BREACHED_PASSWORD_CHECK?: string;
+	BREACHED_PASSWORD_DIR?: string;
+};
+
+/**
+ * Singleton instance of the breached-password source
+ */
+let sourceInstance: BreachedPasswordSource | null | undefined;
+
+/**
+ * Get the breached-password source (singleton) selected by BREACHED_PASSWORD_CHECK
+ *
+ * - `file` (default): range files in BREACHED_PASSWORD_DIR
+ * - `hibp`: the Have I Been Pwned range API
+ * - `off`: no check
+ */
+export function getBreachedPasswordSource(env?: BreachedPasswordEnv): BreachedPasswordSource | null {
+	if (sourceInstance === undefined) {
+		const read = (key: keyof BreachedPasswordEnv) => env?.[key] || (typeof process !== 'undefined' ? process.env[key] : undefined);
+		const mode = (read('BREACHED_PASSWORD_CHECK') || 'file').toLowerCase();
+
+		if (mode === 'off') {
+			sourceInstance = null;
+		} else if (mode === 'hibp') {
+			sourceInstance = new HibpApiSource();
+		} else {
+			sourceInstance = new RangeFileSource(read('BREACHED_PASSWORD_DIR') || DEFAULT_RANGE_DIRECTORY);
+		}
+	}
+	return sourceInstance;
+}
+
+/**
+ * Register a custom source (or null to disable the check), replacing the env-selected one
+ */
+export function setBreachedPasswordSource(source: BreachedPasswordSource | null): void {
+	sourceInstance = source;
+}
+
+/**
+ * Reset the source singleton (primarily for testing)
+ */
+export function resetBreachedPasswordSource(): void {
+	sourceInstance = undefined;
+}
+
+/**
+ * Find a suffix in a range and return its breach count
+ *
+ * Padding entries added by the HIBP API have a count of 0 and never match.
+ */
+export function findInRange(range: string, suffix: string): number {
+	for (const line of range.split('\n')) {
+		const [entrySuffix, count] = line.trim().split(':');
+		if (entrySuffix?.toUpperCase() === suffix) {
+			return Number.parseInt(count, 10) || 0;
+		}
+	}
+	return 0;
+}
+
+/**
+ * Check how often a password appears in known breaches
+ *
+ * @returns The breach count, 0 if the password was not found or the check is unavailable
+ */
+export async function getBreachCount(password: string, env?: BreachedPasswordEnv): Promise<number> {
+	const source = getBreachedPasswordSource(env);
+	if (!source) {
+		return 0;
+	}
+
+	const digest = createHash('sha1').update(password).digest('hex').toUpperCase();
+	const prefix = digest.slice(0, PREFIX_LENGTH);
+
+	try {
+		const range = await source.getRange(prefix);
+		return range ? findInRange(range, digest.slice(PREFIX_LENGTH)) : 0;
+	} catch (error) {
+		console.error('Breached password check failed:', error);
+		return 0;
+	}
+}
@@ -0,0 +1,291 @@
+/**
+ * Email addresses, verification and sign-in links
+ *
+ * Users may add an email address to their account. It has to be verified
+ * through a mailed link before it is used, e.g. to receive magic sign-in links.
+ * Both kinds of link carry a single-use token from the email_tokens table, of
+ * which only the digest is stored.
+ *
+ * Addresses are stored as entered but compared case-insensitively. Any number
+ * of accounts may add the same address, but only one can verify it, which a
+ * partial unique index on lower(email) enforces; responses never tell whether
+ * another account uses an address.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { and, desc, eq, gt, isNotNull, isNull, sql } from 'drizzle-orm';
+import { getDb } from '$lib/db';
+import { emailTokens, users } from '$lib/db/schema';
+import { registerExportSection } from '$lib/data-export';
+import { hashToken } from '$lib/auth';
+import { sendMail } from '$lib/mail';
+
+export type EmailTokenPurpose = 'magic_link' | 'verify_email';
+
+const EMAIL_TOKEN_DURATIONS: Record<EmailTokenPurpose, number> = {
+	magic_link: 15 * 60 * 1000, // 15 minutes in milliseconds
+	verify_email: 24 * 60 * 60 * 1000 // 24 hours in milliseconds
+};
+
+// Minimum time between two verification mails for the same user
+export const EMAIL_VERIFICATION_RESEND_INTERVAL = 60 * 1000; // 1 minute in milliseconds
+
+type EmailEnv = {
+	DATABASE_URL?: string;
+	MAIL_TRANSPORT?: string;
+	MAIL_FROM?: string;
+	MAIL_FILE_DIR?: string;
+	MAIL_API_URL?: string;
+	MAIL_API_KEY?: string;
+	ENVIRONMENT?: string;
+	CF_PAGES_BRANCH?: string;
+};
+
+/**
+ * Trim surrounding whitespace from an address
+ */
+export function normalizeEmail(email: string): string {
+	return email.trim();
+}
+
+/**
+ * Check whether two addresses are the same, ignoring case
+ */
+export function isSameEmail(a: string | null | undefined, b: string | null | undefined): boolean {
+	return !!a && !!b && normalizeEmail(a).toLowerCase() === normalizeEmail(b).toLowerCase();
+}
+
+/**
+ * Loose syntax check; deliverability is proven by verification instead
+ */
+export function isValidEmail(email: unknown): email is string {
+	return typeof email === 'string' && email.length <= 254 && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
+
+/**
+ * Issue a token for a mailed link
+ *
+ * Earlier unused tokens of the same purpose are discarded so that only the
+ * most recent link works.
+ *
+ * @returns The raw token to put into the link
+ */
+export async function createEmailToken(
+	userId: number,
+	purpose: EmailTokenPurpose,
+	email: string,
+	env?: EmailEnv
+): Promise<string> {
+	const db = getDb(env);
+	const token = randomBytes(32).toString('hex');
+
+	await db
+		.delete(emailTokens)
+		.where(and(eq(emailTokens.userId, userId), eq(emailTokens.purpose, purpose), isNull(emailTokens.usedAt)));
+
+	await db.insert(emailTokens).values({
+		userId,
+		purpose,
+		email,
+		tokenHash: hashToken(token),
+		expiresAt: new Date(Date.now() + EMAIL_TOKEN_DURATIONS[purpose])
+	});
+
+	return token;
+}
+
+/**
+ * Redeem a token; it is marked as used in the same statement that checks it
+ *
+ * @returns The user and address the token was issued for, or null if it is invalid, used or expired
+ */
+export async function consumeEmailToken(
+	token: string,
+	purpose: EmailTokenPurpose,
+	env?: EmailEnv
+): Promise<{ userId: number; email: string } | null> {
+	if (!/^[0-9a-f]{64}$/.test(token)) {
+		return null;
+	}
+
+	const db = getDb(env);
+	const now = new Date();
+	const [emailToken] = await db
+		.update(emailTokens)
+		.set({ usedAt: now })
+		.where(
+			and(
+				eq(emailTokens.tokenHash, hashToken(token)),
+				eq(emailTokens.purpose, purpose),
+				isNull(emailTokens.usedAt),
+				gt(emailTokens.expiresAt, now)
+			)
+		)
+		.returning();
+
+	return emailToken ? { userId: emailToken.userId, email: emailToken.email } : null;
+}
+
+/**
+ * Find the user owning a verified address
+ */
+export async function getUserByVerifiedEmail(email: string, env?: EmailEnv) {
+	const db = getDb(env);
+	const [user] = await db
+		.select()
+		.from(users)
+		.where(and(eq(sql`lower(${users.email})`, normalizeEmail(email).toLowerCase()), isNotNull(users.emailVerifiedAt)))
+		.limit(1);
+
+	return user;
+}
+
+/**
+ * Set or remove a user's address; a new address starts out unverified
+ */
+export async function setUserEmail(userId: number, email: string | null, env?: EmailEnv): Promise<void> {
+	const db = getDb(env);
+	await db
+		.update(users)
+		.set({ email: email === null ? null : normalizeEmail(email), emailVerifiedAt: null })
+		.where(eq(users.id, userId));
+}
+
+/**
+ * Seconds until another verification mail may be sent, 0 if allowed now
+ * @param lastSentAt - When the previous verification mail was sent, if any
+ */
+export function getVerificationResendWait(lastSentAt: Date | null | undefined, now = Date.now()): number {
+	if (!lastSentAt) {
+		return 0;
+	}
+	return Math.max(0, Math.ceil((lastSentAt.getTime() + EMAIL_VERIFICATION_RESEND_INTERVAL - now) / 1000));
+}
+
+/**
+ * Mail a verification link for the user's current address, at most once per
+ * EMAIL_VERIFICATION_RESEND_INTERVAL
+ * @param origin - Origin of the app, used to build the link
+ * @returns Whether the mail was sent, and otherwise the seconds to wait
+ */
+export async function sendVerificationEmail(
+	userId: number,
+	email: string,
+	origin: string,
+	env?: EmailEnv
+): Promise<{ sent: true } | { sent: false; retryAfter: number }> {
+	const db = getDb(env);
+	const [lastToken] = await db
+		.select({ createdAt: emailTokens.createdAt })
+		.from(emailTokens)
+		.where(and(eq(emailTokens.userId, userId), eq(emailTokens.purpose, 'verify_email')))
+		.orderBy(desc(emailTokens.createdAt))
+		.limit(1);
+
+	const retryAfter = getVerificationResendWait(lastToken?.createdAt);
+	if (retryAfter > 0) {
+		return { sent: false, retryAfter };
+	}
+
+	const token = await createEmailToken(userId, 'verify_email', email, env);
+
+	await sendMail({
+		to: email,
+		subject: 'Verify your email address',
+		text: `Open the following link to confirm that this address belongs to your account. It expires in 24 hours:\n\n${origin}/verify-email?token=${token}\n\nIf you did not add this address, you can ignore this message.`
+	}, env);
+
+	return { sent: true };
+}
+
+/**
+ * Tell the previous verified address that the account's address was changed or removed
+ *
+ * Lets the owner notice a takeover through a stolen session.
+ */
+export async function sendEmailChangedNotice(
+	previousEmail: string,
+	username: string,
+	newEmail: string | null,
+	env?: EmailEnv
+): Promise<void> {
+	const change = newEmail === null ? 'removed from' : `replaced by ${newEmail} on`;
+	await sendMail({
+		to: previousEmail,
+		subject: 'Your email address was changed',
+		text: `This address was ${change} the account ${username}, so it no longer receives sign-in or password reset links.\n\nIf you did not make this change, reset your password and review your sessions right away.`
+	}, env);
+}
+
+/**
+ * Redeem a verification token
+ *
+ * The address is only marked verified if it is still the one on the account,
+ * so links for a since-replaced address stop working.
+ *
+ * @returns The verified user's ID, 'in_use' if another account verified the
+ *          address first, or null if the token or address no longer matches
+ */
+export async function verifyEmail(token: string, env?: EmailEnv): Promise<number | 'in_use' | null> {
+	const redeemed = await consumeEmailToken(token, 'verify_email', env);
+	if (!redeemed) {
+		return null;
+	}
+
+	const db = getDb(env);
+	try {
+		const [user] = await db
+			.update(users)
+			.set({ emailVerifiedAt: new Date() })
+			.where(and(eq(users.id, redeemed.userId), eq(users.email, redeemed.email)))
+			.returning();
+
+		return user ? user.id : null;
+	} catch (error: any) {
+		// Only the owner of the mailbox gets this far, so the conflict can be told
+		if (error?.code === '23505') {
+			return 'in_use';
+		}
+		throw error;
+	}
+}
+
+/**
+ * Redeem a sign-in link token
+ *
+ * Links stop working once the address was changed or removed from the account.
+ *
+ * @returns The user ID to sign in, or null if the token or address no longer matches
+ */
+export async function redeemMagicLink(token: string, env?: EmailEnv): Promise<number | null> {
+	const redeemed = await consumeEmailToken(token, 'magic_link', env);
+	if (!redeemed) {
+		return null;
+	}
+
+	const db = getDb(env);
+	const [user] = await db
+		.select({ id: users.id })
+		.from(users)
+		.where(and(eq(users.id, redeemed.userId), eq(users.email, redeemed.email), isNotNull(users.emailVerifiedAt)))
+		.limit(1);
+
+	return user ? user.id : null;
+}
+
+registerExportSection({
+	name: 'email_links',
+	description: 'Sign-in and verification links mailed to you (without the token values)',
+	async collect(userId, env) {
+		return getDb(env)
+			.select({
+				purpose: emailTokens.purpose,
+				email: emailTokens.email,
+				createdAt: emailTokens.createdAt,
+				expiresAt: emailTokens.expiresAt,
+				usedAt: emailTokens.usedAt
+			})
+			.from(emailTokens)
+			.where(eq(emailTokens.userId, userId));
+	}
+});
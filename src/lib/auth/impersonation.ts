@@ -0,0 +1,152 @@
+/**
+ * Admin impersonation
+ *
+ * Support staff can sign in as a user to see exactly what they see. Starting
+ * an impersonation replaces the admin's session with a session of the target
+ * user that records the admin in `impersonator_id`; `hooks.server.ts` exposes
+ * it as `locals.impersonatorId`. Ending it (or the session expiring) returns
+ * the admin to a session of their own.
+ *
+ * Impersonation sessions are short-lived and never extended. They stop working
+ * as soon as the impersonator loses the admin role. Credentials (API tokens,
+ * passkeys, 2FA, linked accounts, sessions, username, email and password) can
+ * never be created or changed while impersonating, since they would outlive the
+ * impersonation, and the account cannot be deleted. With
+ * IMPERSONATION_READ_ONLY=true, all other state-changing requests are rejected too.
+ */
+
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { getDb } from '$lib/db';
+import { sessions } from '$lib/db/schema';
+import { isSafeMethod } from '$lib/csrf';
+import { createSession, generateSessionId, hashToken, type SessionEnv, type SessionMetadata } from '$lib/auth';
+import { getUserRoles } from '$lib/auth/roles';
+
+export const IMPERSONATION_DURATION = 60 * 60 * 1000; // 1 hour in milliseconds
+
+export const IMPERSONATION_PATH = '/api/admin/impersonation';
+
+// Requests that stay allowed in read-only mode, so the admin can always leave
+const READ_ONLY_ALLOWLIST = [IMPERSONATION_PATH, '/api/auth/logout'];
+
+// Routes that create or change credentials, sessions or the account itself (deletion,
+// username, email and password), rejected while impersonating regardless of read-only mode
+const CREDENTIAL_PATH_PREFIXES = [
+	'/api/auth/tokens',
+	'/api/auth/passkey',
+	'/api/auth/2fa',
+	'/api/auth/oauth',
+	'/api/auth/sessions',
+	'/api/account'
+];
+
+type ImpersonationEnv = SessionEnv & {
+	IMPERSONATION_READ_ONLY?: string;
+};
+
+export interface ImpersonationConfig {
+	/** Reject state-changing requests while impersonating */
+	readOnly: boolean;
+}
+
+export function getImpersonationConfig(env?: ImpersonationEnv): ImpersonationConfig {
+	const readOnly = env?.IMPERSONATION_READ_ONLY || (typeof process !== 'undefined' ? process.env.IMPERSONATION_READ_ONLY : undefined);
+	return { readOnly: readOnly === 'true' };
+}
+
+/**
+ * Whether a route creates or changes credentials
+ */
+export function isCredentialPath(pathname: string): boolean {
+	return CREDENTIAL_PATH_PREFIXES.some((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+}
+
+/**
+ * Whether a request is rejected because the session is an impersonation: credential
+ * changes always are, other state-changing requests in read-only mode
+ */
+export function isBlockedWhileImpersonating(
+	method: string,
+	pathname: string,
+	impersonatorId: number | undefined,
+	config: ImpersonationConfig
+): boolean {
+	if (!impersonatorId || isSafeMethod(method)) {
+		return false;
+	}
+	return isCredentialPath(pathname) || (config.readOnly && !READ_ONLY_ALLOWLIST.includes(pathname));
+}
+
+/**
+ * Start impersonating a user
+ *
+ * @param currentSessionId - The admin's session, which is replaced
+ * @returns The ID of the impersonation session and when it expires
+ */
+export async function startImpersonation(
+	impersonatorId: number,
+	userId: number,
+	currentSessionId: string | undefined,
+	env?: ImpersonationEnv,
+	metadata: SessionMetadata = {}
+): Promise<{ sessionId: string; expiresAt: Date }> {
+	const db = getDb(env);
+	const sessionId = generateSessionId();
+	const expiresAt = new Date(Date.now() + IMPERSONATION_DURATION);
+
+	await db.transaction(async (tx) => {
+		if (currentSessionId) {
+			await tx.delete(sessions).where(eq(sessions.tokenHash, hashToken(currentSessionId)));
+		}
+
+		await tx.insert(sessions).values({
+			tokenHash: hashToken(sessionId),
+			userId,
+			impersonatorId,
+			expiresAt,
+			userAgent: metadata.userAgent || null,
+			ipAddress: metadata.ipAddress || null
+		});
+	});
+
+	return { sessionId, expiresAt };
+}
+
+/**
+ * End an impersonation and sign the admin back in
+ *
+ * @returns The impersonator and a new session for them, or null if the session is not an impersonation
+ */
+export async function endImpersonation(
+	sessionId: string,
+	env?: ImpersonationEnv,
+	metadata: SessionMetadata = {}
+): Promise<{ impersonatorId: number; userId: number; sessionId: string } | null> {
+	const db = getDb(env);
+	const [ended] = await db
+		.delete(sessions)
+		.where(and(eq(sessions.tokenHash, hashToken(sessionId)), isNotNull(sessions.impersonatorId)))
+		.returning();
+
+	if (!ended?.impersonatorId) {
+		return null;
+	}
+
+	return {
+		impersonatorId: ended.impersonatorId,
+		userId: ended.userId,
+		sessionId: await createSession(ended.impersonatorId, env, metadata)
+	};
+}
+
+/**
+ * Whether an impersonation may continue: the impersonator must still be an admin
+ */
+export async function canImpersonate(impersonatorId: number, env?: ImpersonationEnv): Promise<boolean> {
+	try {
+		return (await getUserRoles(impersonatorId, env)).includes('admin');
+	} catch (error) {
+		console.error('Impersonator role lookup error:', error);
+		return false;
+	}
+}
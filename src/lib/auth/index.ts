@@ -1,81 +1,458 @@
-import bcrypt from 'bcryptjs';
-import { randomBytes } from 'node:crypto';
+import { randomBytes, createHash } from 'node:crypto';
+import type { Cookies } from '@sveltejs/kit';
 import { getDb } from '$lib/db';
 import { users, sessions } from '$lib/db/schema';
-import { eq } from 'drizzle-orm';
+import { and, desc, eq, inArray, isNull, ne, notInArray } from 'drizzle-orm';
+import { checkPasswordRules, getPasswordPolicy, type PasswordRuleFailure } from '$lib/auth/password-policy';
+import { getBreachCount } from '$lib/auth/breached-passwords';
+import { findHasher, getPasswordHasherRegistry } from '$lib/auth/password-hashing';
+import { registerExportSection } from '$lib/data-export';
 
-const SALT_ROUNDS = 10;
-const SESSION_DURATION = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
+const DEFAULT_SESSION_DURATION = 7 * 24 * 60 * 60; // 7 days in seconds
+const DEFAULT_SESSION_MAX_LIFETIME = 30 * 24 * 60 * 60; // 30 days in seconds
+const DEFAULT_SESSION_ROTATION_INTERVAL = 24 * 60 * 60; // 1 day in seconds
+const ROTATION_GRACE_PERIOD = 60 * 1000; // 1 minute in milliseconds
 
-// In CI, use instant no-op password functions for speed
-// In production, use secure bcrypt hashing
-const isCI = typeof process !== 'undefined' && process.env.CI === 'true';
+export type PasswordHashingEnv = {
+	DATABASE_URL?: string;
+	PASSWORD_HASH_ALGORITHM?: string;
+	PASSWORD_BCRYPT_COST?: string;
+	PASSWORD_SCRYPT_LOG_N?: string;
+	PASSWORD_PBKDF2_ITERATIONS?: string;
+};
 
-export async function hashPassword(password: string): Promise<string> {
-	if (isCI) {
-		// No-op in CI: add random salt to make each hash unique (for tests)
-		const salt = randomBytes(8).toString('hex');
-		return Promise.resolve(`ci-hash:${salt}:${password}`);
-	}
-	return bcrypt.hash(password, SALT_ROUNDS);
+/**
+ * Hash a password with the current algorithm (see `$lib/auth/password-hashing`)
+ */
+export async function hashPassword(password: string, env?: PasswordHashingEnv): Promise<string> {
+	return getPasswordHasherRegistry(env).current.hash(password);
 }
 
-export async function verifyPassword(password: string, hash: string): Promise<boolean> {
-	if (isCI) {
-		// No-op in CI: extract password from hash format 'ci-hash:salt:password'
-		const parts = hash.split(':');
-		if (parts.length === 3 && parts[0] === 'ci-hash') {
-			return Promise.resolve(parts[2] === password);
+/**
+ * Verify a password against a stored hash of any registered algorithm
+ *
+ * When `rehash` is given and the password is correct but the stored hash uses
+ * an older algorithm or parameters, the user's hash is upgraded to the current
+ * algorithm. Upgrade failures are logged and do not affect the result.
+ */
+export async function verifyPassword(
+	password: string,
+	hash: string,
+	rehash?: { userId: number; env?: PasswordHashingEnv }
+): Promise<boolean> {
+	const registry = getPasswordHasherRegistry(rehash?.env);
+	const hasher = findHasher(hash, rehash?.env);
+	if (!hasher || !(await hasher.verify(password, hash))) {
+		return false;
+	}
+
+	if (rehash && (hasher !== registry.current || hasher.needsRehash(hash))) {
+		try {
+			const upgraded = await registry.current.hash(password);
+			// Only replace the hash that was verified, in case the password changed meanwhile
+			await getDb(rehash.env)
+				.update(users)
+				.set({ password: upgraded })
+				.where(and(eq(users.id, rehash.userId), eq(users.password, hash)));
+		} catch (error) {
+			console.error('Password rehash failed:', error);
 		}
-		return Promise.resolve(false);
 	}
-	return bcrypt.compare(password, hash);
+
+	return true;
 }
 
 export function generateSessionId(): string {
 	return randomBytes(32).toString('hex');
 }
 
-export async function createSession(userId: number, env?: { DATABASE_URL?: string }): Promise<string> {
+/**
+ * Hash a bearer token (reset token, session ID, ...) for storage
+ * Tokens are high-entropy random values, so a fast unsalted digest is sufficient
+ */
+export function hashToken(token: string): string {
+	return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Client details recorded with a session
+ */
+export interface SessionMetadata {
+	userAgent?: string;
+	ipAddress?: string;
+}
+
+export type Session = typeof sessions.$inferSelect;
+
+export type SessionEnv = {
+	DATABASE_URL?: string;
+	SESSION_DURATION?: string;
+	SESSION_MAX_LIFETIME?: string;
+	SESSION_ROTATION_INTERVAL?: string;
+};
+
+/**
+ * Session lifetimes in milliseconds
+ */
+export interface SessionConfig {
+	/** Sliding expiry: a session expires after this long without activity */
+	duration: number;
+	/** Absolute expiry: a session is never extended past this long after login */
+	maxLifetime: number;
+	/** The session ID is replaced after this long */
+	rotationInterval: number;
+}
+
+function readSeconds(value: string | undefined, fallback: number): number {
+	const seconds = Number(value);
+	return (Number.isFinite(seconds) && seconds > 0 ? seconds : fallback) * 1000;
+}
+
+/**
+ * Read the session lifetimes from the environment (values in seconds)
+ */
+export function getSessionConfig(env?: SessionEnv): SessionConfig {
+	const read = (key: keyof SessionEnv) => env?.[key] || (typeof process !== 'undefined' ? process.env[key] : undefined);
+	const duration = readSeconds(read('SESSION_DURATION'), DEFAULT_SESSION_DURATION);
+
+	return {
+		duration,
+		maxLifetime: Math.max(readSeconds(read('SESSION_MAX_LIFETIME'), DEFAULT_SESSION_MAX_LIFETIME), duration),
+		rotationInterval: readSeconds(read('SESSION_ROTATION_INTERVAL'), DEFAULT_SESSION_ROTATION_INTERVAL)
+	};
+}
+
+/**
+ * Set the session cookie so that it lives as long as the session
+ *
+ * @param expiresAt - Defaults to the expiry of a newly created session
+ */
+export function setSessionCookie(cookies: Cookies, sessionId: string, env?: SessionEnv, expiresAt?: Date): void {
+	const maxAge = expiresAt ? expiresAt.getTime() - Date.now() : getSessionConfig(env).duration;
+
+	cookies.set('session', sessionId, {
+		path: '/',
+		httpOnly: true,
+		sameSite: 'lax',
+		maxAge: Math.max(Math.floor(maxAge / 1000), 0)
+	});
+}
+
+export async function createSession(
+	userId: number,
+	env?: SessionEnv,
+	metadata: SessionMetadata = {}
+): Promise<string> {
 	const db = getDb(env);
 	const sessionId = generateSessionId();
-	const expiresAt = new Date(Date.now() + SESSION_DURATION);
+	const expiresAt = new Date(Date.now() + getSessionConfig(env).duration);
 
+	// Only the digest is stored, so a database leak does not expose usable sessions
 	await db.insert(sessions).values({
-		id: sessionId,
+		tokenHash: hashToken(sessionId),
 		userId,
-		expiresAt
+		expiresAt,
+		userAgent: metadata.userAgent || null,
+		ipAddress: metadata.ipAddress || null
 	});
 
 	return sessionId;
 }
 
-export async function validateSession(sessionId: string, env?: { DATABASE_URL?: string }): Promise<number | null> {
+/**
+ * Identifier for a session in logs and analytics
+ *
+ * Derived from the digest, so it cannot be turned back into a session cookie.
+ */
+export function getSessionTelemetryId(sessionId: string): string {
+	return hashToken(sessionId).slice(0, 16);
+}
+
+/**
+ * Replace a session's ID, keeping its other attributes
+ *
+ * @param gracePeriod - How long the old ID keeps working, so that requests
+ *   already in flight with the old cookie are not logged out
+ * @returns The new session and its ID, or null if it was already replaced or deleted
+ */
+async function replaceSessionId(
+	session: Session,
+	gracePeriod: number,
+	env?: SessionEnv
+): Promise<{ session: Session; sessionId: string } | null> {
 	const db = getDb(env);
+	const now = new Date();
+
+	const sessionId = generateSessionId();
+	const tokenHash = hashToken(sessionId);
+
+	return db.transaction(async (tx) => {
+		// Claim the old row first so that concurrent requests rotate it only once
+		const [claimed] = gracePeriod > 0
+			? await tx
+					.update(sessions)
+					.set({
+						replacedAt: now,
+						replacedBy: tokenHash,
+						expiresAt: new Date(Math.min(now.getTime() + gracePeriod, session.expiresAt.getTime()))
+					})
+					.where(and(eq(sessions.tokenHash, session.tokenHash), isNull(sessions.replacedAt)))
+					.returning()
+			: await tx
+					.delete(sessions)
+					.where(and(eq(sessions.tokenHash, session.tokenHash), isNull(sessions.replacedAt)))
+					.returning();
+
+		if (!claimed) {
+			return null;
+		}
+
+		const [rotated] = await tx
+			.insert(sessions)
+			.values({ ...session, tokenHash, rotatedAt: now, replacedAt: null, replacedBy: null })
+			.returning();
+
+		return { session: rotated, sessionId };
+	});
+}
+
+/**
+ * Issue a new ID for a session, invalidating the old one immediately
+ *
+ * Call this after privilege changes (e.g. enabling 2FA) to limit session fixation.
+ *
+ * @returns The new session and its ID, or null if the session does not exist
+ */
+export async function rotateSession(
+	sessionId: string,
+	env?: SessionEnv
+): Promise<{ session: Session; sessionId: string } | null> {
+	const db = getDb(env);
+	const [session] = await db.select().from(sessions).where(eq(sessions.tokenHash, hashToken(sessionId))).limit(1);
+
+	return session ? replaceSessionId(session, 0, env) : null;
+}
+
+/**
+ * Rotate the session in the request cookie and send the new ID back
+ */
+export async function rotateSessionCookie(cookies: Cookies, env?: SessionEnv): Promise<void> {
+	const sessionId = cookies.get('session');
+	const rotated = sessionId ? await rotateSession(sessionId, env) : null;
+
+	if (rotated) {
+		setSessionCookie(cookies, rotated.sessionId, env, rotated.session.expiresAt);
+	}
+}
+
+export type SessionValidationResult =
+	| { session: Session; sessionId: string; renewed: boolean }
+	| { session: null; expiredUserId?: number };
+
+/**
+ * Validate a session ID from the cookie
+ *
+ * Active sessions slide: once less than half of the duration remains, the
+ * expiry is pushed back (up to the maximum lifetime). The ID is also rotated
+ * periodically. `renewed` tells the caller to set the cookie again, with
+ * `sessionId` as its (possibly new) value.
+ */
+export async function validateSession(sessionId: string, env?: SessionEnv): Promise<SessionValidationResult> {
+	const db = getDb(env);
+	const config = getSessionConfig(env);
+	const tokenHash = hashToken(sessionId);
 	const [session] = await db
 		.select()
 		.from(sessions)
-		.where(eq(sessions.id, sessionId))
+		.where(eq(sessions.tokenHash, tokenHash))
 		.limit(1);
 
-	if (!session || session.expiresAt < new Date()) {
-		if (session) {
-			await db.delete(sessions).where(eq(sessions.id, sessionId));
+	if (!session) {
+		return { session: null };
+	}
+
+	const now = Date.now();
+
+	if (session.expiresAt.getTime() <= now) {
+		await db.delete(sessions).where(eq(sessions.tokenHash, tokenHash));
+		// A rotated ID running out of its grace period is not an expired session
+		return { session: null, expiredUserId: session.replacedAt ? undefined : session.userId };
+	}
+
+	if (session.replacedAt) {
+		return { session, sessionId, renewed: false };
+	}
+
+	let current = session;
+	let currentSessionId = sessionId;
+	let renewed = false;
+
+	if (now - session.rotatedAt.getTime() > config.rotationInterval) {
+		const rotated = await replaceSessionId(session, ROTATION_GRACE_PERIOD, env);
+		if (rotated) {
+			current = rotated.session;
+			currentSessionId = rotated.sessionId;
+			renewed = true;
+		}
+	}
+
+	// Impersonation sessions keep their fixed expiry, see $lib/auth/impersonation
+	if (!current.impersonatorId && current.expiresAt.getTime() - now < config.duration / 2) {
+		const expiresAt = new Date(Math.min(now + config.duration, current.createdAt.getTime() + config.maxLifetime));
+		if (expiresAt > current.expiresAt) {
+			await db.update(sessions).set({ expiresAt }).where(eq(sessions.tokenHash, current.tokenHash));
+			current = { ...current, expiresAt };
+			renewed = true;
 		}
-		return null;
 	}
 
-	return session.userId;
+	return { session: current, sessionId: currentSessionId, renewed };
+}
+
+/**
+ * Record activity on a session
+ */
+export async function touchSession(
+	sessionId: string,
+	metadata: SessionMetadata,
+	env?: { DATABASE_URL?: string }
+): Promise<void> {
+	const db = getDb(env);
+	await db
+		.update(sessions)
+		.set({
+			lastSeenAt: new Date(),
+			...(metadata.userAgent ? { userAgent: metadata.userAgent } : {}),
+			...(metadata.ipAddress ? { ipAddress: metadata.ipAddress } : {})
+		})
+		.where(eq(sessions.tokenHash, hashToken(sessionId)));
 }
 
 export async function deleteSession(sessionId: string, env?: { DATABASE_URL?: string }): Promise<void> {
 	const db = getDb(env);
-	await db.delete(sessions).where(eq(sessions.id, sessionId));
+	await db.delete(sessions).where(eq(sessions.tokenHash, hashToken(sessionId)));
+}
+
+/**
+ * List a user's sessions, most recently active first
+ */
+export async function listSessions(userId: number, env?: { DATABASE_URL?: string }): Promise<Session[]> {
+	const db = getDb(env);
+	return db
+		.select()
+		.from(sessions)
+		.where(and(eq(sessions.userId, userId), isNull(sessions.replacedAt)))
+		.orderBy(desc(sessions.lastSeenAt));
+}
+
+/**
+ * A session's token hash together with the hashes it replaced or was replaced by
+ *
+ * Rotation keeps the previous token valid for a grace period, so a session is
+ * only revoked once every token in its chain is.
+ */
+export function getSessionChain(
+	userSessions: Pick<Session, 'tokenHash' | 'replacedBy'>[],
+	tokenHash: string
+): Set<string> {
+	const chain = new Set([tokenHash]);
+	let grown = true;
+
+	while (grown) {
+		grown = false;
+		for (const session of userSessions) {
+			if (!session.replacedBy) {
+				continue;
+			}
+			if (chain.has(session.tokenHash) !== chain.has(session.replacedBy)) {
+				chain.add(session.tokenHash).add(session.replacedBy);
+				grown = true;
+			}
+		}
+	}
+
+	return chain;
+}
+
+/**
+ * Revoke one of a user's sessions by its digest (the ID shown to the user)
+ *
+ * @returns Whether a session was revoked
+ */
+export async function revokeSession(userId: number, tokenHash: string, env?: { DATABASE_URL?: string }): Promise<boolean> {
+	const db = getDb(env);
+	const userSessions = await db.select().from(sessions).where(eq(sessions.userId, userId));
+	const chain = getSessionChain(userSessions, tokenHash);
+
+	const deleted = await db
+		.delete(sessions)
+		.where(and(eq(sessions.userId, userId), inArray(sessions.tokenHash, [...chain])))
+		.returning();
+	return deleted.length > 0;
+}
+
+/**
+ * Revoke all of a user's sessions except the given one
+ *
+ * @returns The number of sessions revoked
+ */
+export async function revokeOtherSessions(userId: number, currentSessionId: string, env?: { DATABASE_URL?: string }): Promise<number> {
+	const db = getDb(env);
+	const userSessions = await db.select().from(sessions).where(eq(sessions.userId, userId));
+	const chain = getSessionChain(userSessions, hashToken(currentSessionId));
+
+	const deleted = await db
+		.delete(sessions)
+		.where(and(eq(sessions.userId, userId), notInArray(sessions.tokenHash, [...chain])))
+		.returning();
+	// Count sessions, not the rotated tokens that were still in their grace period
+	return deleted.filter((session) => !session.replacedAt).length;
+}
+
+export type PasswordPolicyEnv = {
+	PASSWORD_MIN_LENGTH?: string;
+	PASSWORD_MIN_CHARACTER_CLASSES?: string;
+	BREACHED_PASSWORD_CHECK?: string;
+	BREACHED_PASSWORD_DIR?: string;
+};
+
+/**
+ * Check a new password against the password policy, including the breached-password lookup
+ * Used by every flow that sets a password
+ *
+ * @returns The rules the password fails, empty if it is acceptable
+ */
+export async function validatePassword(
+	password: string,
+	context: { username?: string } = {},
+	env?: PasswordPolicyEnv
+): Promise<PasswordRuleFailure[]> {
+	const failures = checkPasswordRules(password, getPasswordPolicy(env), context);
+
+	// Skip the lookup for passwords that are rejected anyway
+	if (failures.length === 0 && (await getBreachCount(password, env)) > 0) {
+		failures.push({
+			rule: 'breached',
+			message: 'This password has appeared in a data breach. Please choose a different one.'
+		});
+	}
+
+	return failures;
 }
 
-export async function createUser(username: string, password: string, env?: { DATABASE_URL?: string }): Promise<number> {
+/**
+ * Create a user; an email address starts out unverified
+ *
+ * Throws a unique violation (code 23505) if the username or email address is taken.
+ */
+export async function createUser(
+	username: string,
+	password: string,
+	env?: PasswordHashingEnv,
+	options: { email?: string | null } = {}
+): Promise<number> {
 	const db = getDb(env);
-	const hashedPassword = await hashPassword(password);
+	const hashedPassword = await hashPassword(password, env);
 	
 	// Note: Using .returning() without arguments for compatibility with both
 	// postgres-js and neon-serverless drivers. Both return the full row.
@@ -83,7 +460,8 @@ export async function createUser(username: string, password: string, env?: { DAT
 		.insert(users)
 		.values({
 			username,
-			password: hashedPassword
+			password: hashedPassword,
+			email: options.email ?? null
 		})
 		.returning();
 
@@ -100,3 +478,96 @@ export async function getUserByUsername(username: string, env?: { DATABASE_URL?:
 
 	return user;
 }
+
+export async function getUserById(userId: number, env?: { DATABASE_URL?: string }) {
+	const db = getDb(env);
+	const [user] = await db
+		.select()
+		.from(users)
+		.where(eq(users.id, userId))
+		.limit(1);
+
+	return user;
+}
+
+/**
+ * Set a new password and end every other session of the user
+ *
+ * The caller should rotate the current session's cookie afterwards.
+ */
+export async function changePassword(
+	userId: number,
+	newPassword: string,
+	currentSessionId: string | undefined,
+	env?: PasswordHashingEnv
+): Promise<void> {
+	const db = getDb(env);
+	const hashedPassword = await hashPassword(newPassword, env);
+
+	await db.transaction(async (tx) => {
+		await tx.update(users).set({ password: hashedPassword, hasPassword: true }).where(eq(users.id, userId));
+		await tx
+			.delete(sessions)
+			.where(
+				currentSessionId
+					? and(eq(sessions.userId, userId), ne(sessions.tokenHash, hashToken(currentSessionId)))
+					: eq(sessions.userId, userId)
+			);
+	});
+}
+
+/**
+ * Rename a user
+ *
+ * Throws the driver's unique violation (code 23505) if the username is taken.
+ */
+export async function changeUsername(userId: number, username: string, env?: { DATABASE_URL?: string }): Promise<void> {
+	const db = getDb(env);
+	await db.update(users).set({ username }).where(eq(users.id, userId));
+}
+
+/**
+ * Delete a user; sessions, counters and all other user data are removed by cascade
+ */
+export async function deleteUser(userId: number, env?: { DATABASE_URL?: string }): Promise<void> {
+	const db = getDb(env);
+	await db.delete(users).where(eq(users.id, userId));
+}
+
+registerExportSection({
+	name: 'profile',
+	description: 'Your account (without the password hash or two-factor secret)',
+	async collect(userId, env) {
+		const [user] = await getDb(env)
+			.select({
+				id: users.id,
+				username: users.username,
+				email: users.email,
+				emailVerifiedAt: users.emailVerifiedAt,
+				createdAt: users.createdAt,
+				totpEnabledAt: users.totpEnabledAt
+			})
+			.from(users)
+			.where(eq(users.id, userId))
+			.limit(1);
+		return user ?? null;
+	}
+});
+
+registerExportSection({
+	name: 'sessions',
+	description: 'Devices where you are logged in',
+	async collect(userId, env) {
+		return getDb(env)
+			.select({
+				createdAt: sessions.createdAt,
+				lastSeenAt: sessions.lastSeenAt,
+				expiresAt: sessions.expiresAt,
+				userAgent: sessions.userAgent,
+				ipAddress: sessions.ipAddress
+			})
+			.from(sessions)
+			.where(eq(sessions.userId, userId))
+			.orderBy(desc(sessions.lastSeenAt));
+	}
+});
@@ -0,0 +1,306 @@
+/**
+ * Brute-force protection for password login and the 2FA step
+ *
+ * Attempts are counted per username and per client IP. Each attempt is
+ * reserved before the credentials are checked and counts as a failure until
+ * the login fully succeeds, so a parallel burst cannot slip through between
+ * a check and its result. After a few free attempts each further attempt must
+ * take the key's delay slot, which blocks it for an exponentially growing
+ * delay; concurrent attempts that do not get the slot are refused. At a hard
+ * threshold the key is locked out entirely for LOCKOUT_DURATION.
+ *
+ * Counters live in Upstash Redis when it is configured (so they are shared
+ * across instances) and in memory otherwise.
+ */
+
+import type { Redis } from '@upstash/redis/cloudflare';
+import { createRedisClient } from '$lib/rate-limit';
+import { getEnvironmentName } from '$lib/environment';
+
+const FAILURE_WINDOW = 15 * 60 * 1000; // 15 minutes in milliseconds
+const LOCKOUT_DURATION = 15 * 60 * 1000; // 15 minutes in milliseconds
+const FREE_ATTEMPTS = 3;
+const BASE_DELAY = 1000; // 1 second in milliseconds
+const MAX_DELAY = 60 * 1000; // 1 minute in milliseconds
+
+/**
+ * Failures before a hard lockout, per scope
+ *
+ * The IP threshold is higher because many users can share an address (NAT).
+ */
+const LOCKOUT_THRESHOLDS = {
+	username: 10,
+	ip: 50
+} as const;
+
+export type LockoutScope = keyof typeof LOCKOUT_THRESHOLDS;
+
+/**
+ * Storage for failure counters and locks
+ */
+export interface LockoutStore {
+	/** Increment the failure counter, starting a new window if there is none */
+	increment(key: string, windowMs: number): Promise<number>;
+	/** Decrement the failure counter if it exists */
+	decrement(key: string): Promise<void>;
+	/** Get the time (ms since epoch) until which the key is blocked, if any */
+	getLockedUntil(key: string): Promise<number | null>;
+	/** Block the key for a duration */
+	lock(key: string, durationMs: number): Promise<void>;
+	/** Block the key for a duration unless it is blocked already; false if it was */
+	acquire(key: string, durationMs: number): Promise<boolean>;
+	/** Remove the failure counter and any lock */
+	clear(key: string): Promise<void>;
+}
+
+/**
+ * In-memory store, used when Redis is not configured
+ *
+ * Each server instance (or Workers isolate) keeps its own counters.
+ */
+export class MemoryLockoutStore implements LockoutStore {
+	private failures = new Map<string, { count: number; expiresAt: number }>();
+	private locks = new Map<string, number>();
+
+	async increment(key: string, windowMs: number): Promise<number> {
+		const now = Date.now();
+		const entry = this.failures.get(key);
+		if (!entry || entry.expiresAt <= now) {
+			this.failures.set(key, { count: 1, expiresAt: now + windowMs });
+			return 1;
+		}
+		entry.count++;
+		return entry.count;
+	}
+
+	async decrement(key: string): Promise<void> {
+		const entry = this.failures.get(key);
+		if (entry && entry.count > 0) {
+			entry.count--;
+		}
+	}
+
+	async getLockedUntil(key: string): Promise<number | null> {
+		const lockedUntil = this.locks.get(key);
+		if (lockedUntil === undefined) {
+			return null;
+		}
+		if (lockedUntil <= Date.now()) {
+			this.locks.delete(key);
+			return null;
+		}
+		return lockedUntil;
+	}
+
+	async lock(key: string, durationMs: number): Promise<void> {
+		this.locks.set(key, Date.now() + durationMs);
+	}
+
+	async acquire(key: string, durationMs: number): Promise<boolean> {
+		// No await between the check and the set, so concurrent callers cannot both succeed
+		const now = Date.now();
+		const lockedUntil = this.locks.get(key);
+		if (lockedUntil !== undefined && lockedUntil > now) {
+			return false;
+		}
+		this.locks.set(key, now + durationMs);
+		return true;
+	}
+
+	async clear(key: string): Promise<void> {
+		this.failures.delete(key);
+		this.locks.delete(key);
+	}
+}
+
+/**
+ * Upstash Redis store, shared by all instances
+ */
+export class RedisLockoutStore implements LockoutStore {
+	constructor(
+		private redis: Redis,
+		private prefix: string
+	) {}
+
+	async increment(key: string, windowMs: number): Promise<number> {
+		// In one script, so that a counter is never left without its expiry
+		return this.redis.eval<[number], number>(
+			"local count = redis.call('incr', KEYS[1]) if redis.call('pttl', KEYS[1]) < 0 then redis.call('pexpire', KEYS[1], ARGV[1]) end return count",
+			[`${this.prefix}:failures:${key}`],
+			[windowMs]
+		);
+	}
+
+	async decrement(key: string): Promise<void> {
+		// DECR on an expired counter would create one without a TTL
+		await this.redis.eval(
+			"if redis.call('exists', KEYS[1]) == 1 then return redis.call('decr', KEYS[1]) end return 0",
+			[`${this.prefix}:failures:${key}`],
+			[]
+		);
+	}
+
+	async getLockedUntil(key: string): Promise<number | null> {
+		const lockedUntil = await this.redis.get<number>(`${this.prefix}:lock:${key}`);
+		return lockedUntil && lockedUntil > Date.now() ? lockedUntil : null;
+	}
+
+	async lock(key: string, durationMs: number): Promise<void> {
+		await this.redis.set(`${this.prefix}:lock:${key}`, Date.now() + durationMs, { px: durationMs });
+	}
+
+	async acquire(key: string, durationMs: number): Promise<boolean> {
+		const result = await this.redis.set(`${this.prefix}:lock:${key}`, Date.now() + durationMs, { px: durationMs, nx: true });
+		return result === 'OK';
+	}
+
+	async clear(key: string): Promise<void> {
+		await this.redis.del(`${this.prefix}:failures:${key}`, `${this.prefix}:lock:${key}`);
+	}
+}
+
+type LockoutEnv = {
+	UPSTASH_REDIS_REST_URL?: string;
+	UPSTASH_REDIS_REST_TOKEN?: string;
+	ENVIRONMENT?: string;
+	CF_PAGES_BRANCH?: string;
+};
+
+/**
+ * Singleton instance of the lockout store
+ */
+let lockoutStoreInstance: LockoutStore | null = null;
+
+/**
+ * Get the lockout store (singleton): Redis if configured, in-memory otherwise
+ */
+export function getLockoutStore(env?: LockoutEnv): LockoutStore {
+	if (!lockoutStoreInstance) {
+		const redis = createRedisClient(env);
+		lockoutStoreInstance = redis
+			? new RedisLockoutStore(redis, `login-lockout/${getEnvironmentName(env)}`)
+			: new MemoryLockoutStore();
+	}
+	return lockoutStoreInstance;
+}
+
+/**
+ * Register a custom lockout store, replacing the env-selected one
+ */
+export function setLockoutStore(store: LockoutStore): void {
+	lockoutStoreInstance = store;
+}
+
+/**
+ * Reset the lockout store singleton (primarily for testing)
+ */
+export function resetLockoutStore(): void {
+	lockoutStoreInstance = null;
+}
+
+function keysFor(username: string | undefined, ipAddress: string | undefined): [LockoutScope, string][] {
+	const keys: [LockoutScope, string][] = [];
+	if (username) {
+		keys.push(['username', `username:${username.trim().toLowerCase()}`]);
+	}
+	if (ipAddress) {
+		keys.push(['ip', `ip:${ipAddress}`]);
+	}
+	return keys;
+}
+
+/**
+ * Delay imposed after a number of failures, or 0 while attempts are still free
+ */
+export function getFailureDelay(failures: number): number {
+	if (failures <= FREE_ATTEMPTS) {
+		return 0;
+	}
+	return Math.min(BASE_DELAY * 2 ** (failures - FREE_ATTEMPTS - 1), MAX_DELAY);
+}
+
+export type LoginAttemptReservation =
+	| { allowed: true; lockedOut: LockoutScope[] }
+	| { allowed: false; scope: LockoutScope; retryAfter: number };
+
+function secondsUntil(time: number): number {
+	return Math.max(1, Math.ceil((time - Date.now()) / 1000));
+}
+
+/**
+ * Reserve a login attempt before checking any credentials
+ *
+ * The attempt counts as a failure for the username and the IP until
+ * recordLoginSuccess is called. Fails open: if the store is unavailable, the
+ * attempt is allowed.
+ *
+ * @returns Whether the attempt may proceed, and the scopes this attempt has
+ *          just locked out (it is the last one allowed before the lockout)
+ */
+export async function reserveLoginAttempt(
+	username: string | undefined,
+	ipAddress: string | undefined,
+	env?: LockoutEnv
+): Promise<LoginAttemptReservation> {
+	const store = getLockoutStore(env);
+	const lockedOut: LockoutScope[] = [];
+
+	try {
+		for (const [scope, key] of keysFor(username, ipAddress)) {
+			const lockedUntil = await store.getLockedUntil(key);
+			if (lockedUntil) {
+				return { allowed: false, scope, retryAfter: secondsUntil(lockedUntil) };
+			}
+
+			const attempts = await store.increment(key, FAILURE_WINDOW);
+			if (attempts > LOCKOUT_THRESHOLDS[scope]) {
+				// A concurrent attempt reached the threshold first
+				await store.lock(key, LOCKOUT_DURATION);
+				return { allowed: false, scope, retryAfter: LOCKOUT_DURATION / 1000 };
+			}
+
+			const delay = getFailureDelay(attempts);
+			if (delay > 0 && !(await store.acquire(key, delay))) {
+				return { allowed: false, scope, retryAfter: secondsUntil(Date.now() + delay) };
+			}
+
+			// The last attempt allowed; a successful login lifts the username lockout again
+			if (attempts === LOCKOUT_THRESHOLDS[scope]) {
+				await store.lock(key, LOCKOUT_DURATION);
+				lockedOut.push(scope);
+			}
+		}
+	} catch (error) {
+		console.error('Login lockout check failed:', error);
+	}
+
+	return { allowed: true, lockedOut };
+}
+
+/**
+ * Reset the username's counter and lock once a login has fully succeeded,
+ * including any second factor
+ *
+ * The IP counter is only refunded the successful attempt, so that one valid
+ * account cannot be used to reset the limit while guessing passwords for others.
+ */
+export async function recordLoginSuccess(username: string, ipAddress: string | undefined, env?: LockoutEnv): Promise<void> {
+	const store = getLockoutStore(env);
+	try {
+		for (const [scope, key] of keysFor(username, ipAddress)) {
+			await (scope === 'username' ? store.clear(key) : store.decrement(key));
+		}
+	} catch (error) {
+		console.error('Login lockout reset failed:', error);
+	}
+}
+
+/**
+ * Lift a lockout (admin action)
+ */
+export async function clearLockout(target: { username?: string; ipAddress?: string }, env?: LockoutEnv): Promise<void> {
+	const store = getLockoutStore(env);
+	for (const [, key] of keysFor(target.username, target.ipAddress)) {
+		await store.clear(key);
+	}
+}
@@ -0,0 +1,528 @@
+/**
+ * OAuth2 / OpenID Connect provider login
+ *
+ * Implements the authorization code flow with PKCE (RFC 7636), state and
+ * nonce validation. Providers with an `issuer` are treated as OIDC: their
+ * endpoints are discovered from /.well-known/openid-configuration and the ID
+ * token is verified against the issuer's JWKS. Plain OAuth2 providers (e.g.
+ * GitHub) are identified through their userinfo endpoint instead.
+ *
+ * Providers are configured through environment variables:
+ *
+ *   OAUTH_PROVIDERS=google,github
+ *   OAUTH_GOOGLE_CLIENT_ID=...
+ *   OAUTH_GOOGLE_CLIENT_SECRET=...
+ *
+ * Any provider can override or supply NAME, ISSUER, AUTHORIZATION_URL,
+ * TOKEN_URL, USERINFO_URL and SCOPES (space-separated) the same way.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { and, eq } from 'drizzle-orm';
+import { createRemoteJWKSet, jwtVerify, type JWTPayload } from 'jose';
+import { getDb } from '$lib/db';
+import { oauthAccounts, users } from '$lib/db/schema';
+import { registerExportSection } from '$lib/data-export';
+import { hashPassword } from '$lib/auth';
+import { trackedFetch } from '$lib/telemetry';
+
+/**
+ * Name of the cookie that carries state, nonce and PKCE verifier between start and callback
+ */
+export const OAUTH_FLOW_COOKIE = 'oauth_flow';
+
+/**
+ * Configuration of a single provider
+ */
+export interface OAuthProviderConfig {
+	id: string;
+	name: string;
+	clientId: string;
+	clientSecret?: string;
+	scopes: string[];
+	issuer?: string;
+	authorizationEndpoint?: string;
+	tokenEndpoint?: string;
+	userinfoEndpoint?: string;
+}
+
+/**
+ * Identity returned by a provider after a successful callback
+ */
+export interface OAuthProfile {
+	subject: string;
+	email?: string;
+	emailVerified?: boolean;
+	name?: string;
+	username?: string;
+}
+
+/**
+ * Data kept in the flow cookie between the start and callback requests
+ */
+export interface OAuthFlowState {
+	provider: string;
+	state: string;
+	nonce: string;
+	codeVerifier: string;
+	mode: 'login' | 'link';
+}
+
+/**
+ * Error raised when a provider callback cannot be completed
+ */
+export class OAuthError extends Error {
+	constructor(
+		public code: 'state_mismatch' | 'nonce_mismatch' | 'token_exchange_failed' | 'invalid_id_token' | 'userinfo_failed' | 'discovery_failed',
+		message: string
+	) {
+		super(message);
+		this.name = 'OAuthError';
+	}
+}
+
+/**
+ * Built-in defaults for well-known providers
+ */
+const PROVIDER_PRESETS: Record<string, Partial<OAuthProviderConfig>> = {
+	google: {
+		name: 'Google',
+		issuer: 'https://accounts.google.com',
+		scopes: ['openid', 'email', 'profile']
+	},
+	github: {
+		name: 'GitHub',
+		authorizationEndpoint: 'https://github.com/login/oauth/authorize',
+		tokenEndpoint: 'https://github.com/login/oauth/access_token',
+		userinfoEndpoint: 'https://api.github.com/user',
+		scopes: ['read:user', 'user:email']
+	}
+};
+
+type OAuthEnv = Record<string, string | undefined>;
+
+function readEnv(env: OAuthEnv | undefined, key: string): string | undefined {
+	return env?.[key] || (typeof process !== 'undefined' ? process.env[key] : undefined);
+}
+
+/**
+ * Get all providers configured in the environment
+ */
+export function getOAuthProviders(env?: OAuthEnv): OAuthProviderConfig[] {
+	const ids = (readEnv(env, 'OAUTH_PROVIDERS') || '')
+		.split(',')
+		.map((id) => id.trim().toLowerCase())
+		.filter(Boolean);
+
+	const providers: OAuthProviderConfig[] = [];
+
+	for (const id of ids) {
+		const prefix = `OAUTH_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+		const preset = PROVIDER_PRESETS[id] || {};
+		const clientId = readEnv(env, `${prefix}CLIENT_ID`);
+		const scopes = readEnv(env, `${prefix}SCOPES`);
+
+		const provider: OAuthProviderConfig = {
+			id,
+			name: readEnv(env, `${prefix}NAME`) || preset.name || id,
+			clientId: clientId || '',
+			clientSecret: readEnv(env, `${prefix}CLIENT_SECRET`),
+			scopes: scopes ? scopes.split(/\s+/).filter(Boolean) : preset.scopes || ['openid', 'email', 'profile'],
+			issuer: readEnv(env, `${prefix}ISSUER`) || preset.issuer,
+			authorizationEndpoint: readEnv(env, `${prefix}AUTHORIZATION_URL`) || preset.authorizationEndpoint,
+			tokenEndpoint: readEnv(env, `${prefix}TOKEN_URL`) || preset.tokenEndpoint,
+			userinfoEndpoint: readEnv(env, `${prefix}USERINFO_URL`) || preset.userinfoEndpoint
+		};
+
+		if (!clientId) {
+			console.warn(`[OAuth] Provider "${id}" is missing ${prefix}CLIENT_ID and will be ignored`);
+			continue;
+		}
+		if (!provider.issuer && (!provider.authorizationEndpoint || !provider.tokenEndpoint)) {
+			console.warn(`[OAuth] Provider "${id}" needs an ISSUER or AUTHORIZATION_URL and TOKEN_URL and will be ignored`);
+			continue;
+		}
+
+		providers.push(provider);
+	}
+
+	return providers;
+}
+
+/**
+ * Get a single configured provider by ID
+ */
+export function getOAuthProvider(id: string, env?: OAuthEnv): OAuthProviderConfig | undefined {
+	return getOAuthProviders(env).find((provider) => provider.id === id);
+}
+
+/**
+ * Build the callback URL registered with the provider
+ *
+ * OAUTH_REDIRECT_BASE_URL should be set when the app is served behind a proxy
+ * that changes the origin the server sees.
+ */
+export function getOAuthRedirectUri(url: URL, providerId: string, env?: OAuthEnv): string {
+	const base = readEnv(env, 'OAUTH_REDIRECT_BASE_URL') || url.origin;
+	return `${base.replace(/\/$/, '')}/api/auth/oauth/${providerId}/callback`;
+}
+
+function base64url(bytes: Buffer): string {
+	return bytes.toString('base64url');
+}
+
+/**
+ * Generate a PKCE code verifier
+ */
+export function generateCodeVerifier(): string {
+	return base64url(randomBytes(32));
+}
+
+/**
+ * Derive the S256 PKCE code challenge for a verifier
+ */
+export function deriveCodeChallenge(codeVerifier: string): string {
+	return base64url(createHash('sha256').update(codeVerifier).digest());
+}
+
+interface ResolvedEndpoints {
+	authorizationEndpoint: string;
+	tokenEndpoint: string;
+	userinfoEndpoint?: string;
+	jwksUri?: string;
+	issuer?: string;
+}
+
+/**
+ * Cache of OIDC discovery documents by issuer
+ */
+const discoveryCache = new Map<string, ResolvedEndpoints>();
+
+/**
+ * Cache of remote JWK sets by URI (jose caches the keys themselves)
+ */
+const jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+/**
+ * Reset the discovery and JWKS caches (primarily for testing)
+ */
+export function resetOAuthCaches(): void {
+	discoveryCache.clear();
+	jwksCache.clear();
+}
+
+/**
+ * Resolve the endpoints of a provider, using OIDC discovery when an issuer is configured
+ */
+export async function resolveEndpoints(provider: OAuthProviderConfig): Promise<ResolvedEndpoints> {
+	if (!provider.issuer) {
+		return {
+			authorizationEndpoint: provider.authorizationEndpoint!,
+			tokenEndpoint: provider.tokenEndpoint!,
+			userinfoEndpoint: provider.userinfoEndpoint
+		};
+	}
+
+	let discovered = discoveryCache.get(provider.issuer);
+	if (!discovered) {
+		const response = await trackedFetch(`${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+		if (!response.ok) {
+			throw new OAuthError('discovery_failed', `OIDC discovery failed with status ${response.status}`);
+		}
+		const document = await response.json();
+		discovered = {
+			authorizationEndpoint: document.authorization_endpoint,
+			tokenEndpoint: document.token_endpoint,
+			userinfoEndpoint: document.userinfo_endpoint,
+			jwksUri: document.jwks_uri,
+			issuer: document.issuer
+		};
+		discoveryCache.set(provider.issuer, discovered);
+	}
+
+	// Explicitly configured endpoints take precedence over discovered ones
+	return {
+		...discovered,
+		authorizationEndpoint: provider.authorizationEndpoint || discovered.authorizationEndpoint,
+		tokenEndpoint: provider.tokenEndpoint || discovered.tokenEndpoint,
+		userinfoEndpoint: provider.userinfoEndpoint || discovered.userinfoEndpoint
+	};
+}
+
+/**
+ * Start an authorization request
+ *
+ * @returns The URL to redirect the browser to and the flow state to keep until the callback
+ */
+export async function createAuthorizationRequest(
+	provider: OAuthProviderConfig,
+	redirectUri: string,
+	mode: OAuthFlowState['mode'] = 'login'
+): Promise<{ url: string; flow: OAuthFlowState }> {
+	const endpoints = await resolveEndpoints(provider);
+	const flow: OAuthFlowState = {
+		provider: provider.id,
+		state: base64url(randomBytes(16)),
+		nonce: base64url(randomBytes(16)),
+		codeVerifier: generateCodeVerifier(),
+		mode
+	};
+
+	const url = new URL(endpoints.authorizationEndpoint);
+	url.searchParams.set('response_type', 'code');
+	url.searchParams.set('client_id', provider.clientId);
+	url.searchParams.set('redirect_uri', redirectUri);
+	url.searchParams.set('scope', provider.scopes.join(' '));
+	url.searchParams.set('state', flow.state);
+	url.searchParams.set('code_challenge', deriveCodeChallenge(flow.codeVerifier));
+	url.searchParams.set('code_challenge_method', 'S256');
+	if (provider.issuer) {
+		url.searchParams.set('nonce', flow.nonce);
+	}
+
+	return { url: url.toString(), flow };
+}
+
+function getJwks(jwksUri: string) {
+	let jwks = jwksCache.get(jwksUri);
+	if (!jwks) {
+		jwks = createRemoteJWKSet(new URL(jwksUri));
+		jwksCache.set(jwksUri, jwks);
+	}
+	return jwks;
+}
+
+function profileFromClaims(claims: JWTPayload & Record<string, unknown>): OAuthProfile {
+	return {
+		subject: String(claims.sub),
+		email: typeof claims.email === 'string' ? claims.email : undefined,
+		emailVerified: claims.email_verified === true,
+		name: typeof claims.name === 'string' ? claims.name : undefined,
+		username: typeof claims.preferred_username === 'string' ? claims.preferred_username : undefined
+	};
+}
+
+/**
+ * Complete the callback: validate state, exchange the code and identify the user
+ *
+ * @param params - The `code` and `state` query parameters of the callback request
+ * @param flow - The flow state stored when the request was started
+ */
+export async function completeAuthorization(
+	provider: OAuthProviderConfig,
+	params: { code: string; state: string },
+	flow: OAuthFlowState,
+	redirectUri: string
+): Promise<OAuthProfile> {
+	if (!params.state || params.state !== flow.state || flow.provider !== provider.id) {
+		throw new OAuthError('state_mismatch', 'OAuth state does not match');
+	}
+
+	const endpoints = await resolveEndpoints(provider);
+
+	const body = new URLSearchParams({
+		grant_type: 'authorization_code',
+		code: params.code,
+		redirect_uri: redirectUri,
+		client_id: provider.clientId,
+		code_verifier: flow.codeVerifier
+	});
+	if (provider.clientSecret) {
+		body.set('client_secret', provider.clientSecret);
+	}
+
+	const tokenResponse = await trackedFetch(endpoints.tokenEndpoint, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/x-www-form-urlencoded',
+			Accept: 'application/json'
+		},
+		body
+	});
+	const tokens = await tokenResponse.json().catch(() => ({}));
+
+	if (!tokenResponse.ok || tokens.error || !tokens.access_token) {
+		throw new OAuthError('token_exchange_failed', `Token exchange failed: ${tokens.error || tokenResponse.status}`);
+	}
+
+	if (provider.issuer) {
+		if (!tokens.id_token || !endpoints.jwksUri) {
+			throw new OAuthError('invalid_id_token', 'OIDC provider did not return an ID token');
+		}
+
+		let claims: JWTPayload & Record<string, unknown>;
+		try {
+			({ payload: claims } = await jwtVerify(tokens.id_token, getJwks(endpoints.jwksUri), {
+				issuer: endpoints.issuer || provider.issuer,
+				audience: provider.clientId
+			}));
+		} catch (error) {
+			throw new OAuthError('invalid_id_token', `ID token verification failed: ${error instanceof Error ? error.message : String(error)}`);
+		}
+
+		if (claims.nonce !== flow.nonce) {
+			throw new OAuthError('nonce_mismatch', 'ID token nonce does not match');
+		}
+
+		return profileFromClaims(claims);
+	}
+
+	if (!endpoints.userinfoEndpoint) {
+		throw new OAuthError('userinfo_failed', 'Provider has no userinfo endpoint');
+	}
+
+	const userinfoResponse = await trackedFetch(endpoints.userinfoEndpoint, {
+		headers: {
+			Authorization: `Bearer ${tokens.access_token}`,
+			Accept: 'application/json',
+			'User-Agent': 'svelte-bun'
+		}
+	});
+	if (!userinfoResponse.ok) {
+		throw new OAuthError('userinfo_failed', `Userinfo request failed with status ${userinfoResponse.status}`);
+	}
+	const userinfo = await userinfoResponse.json();
+
+	// Plain OAuth2 APIs (GitHub) use `id`/`login` instead of the OIDC claim names
+	return {
+		subject: String(userinfo.sub ?? userinfo.id),
+		email: typeof userinfo.email === 'string' ? userinfo.email : undefined,
+		emailVerified: userinfo.email_verified === true,
+		name: typeof userinfo.name === 'string' ? userinfo.name : undefined,
+		username: userinfo.preferred_username || userinfo.login
+	};
+}
+
+/**
+ * Derive a username candidate from a provider profile
+ */
+export function suggestUsername(provider: string, profile: OAuthProfile): string {
+	const raw = profile.username || profile.email?.split('@')[0] || profile.name || '';
+	const cleaned = raw.toLowerCase().replace(/[^a-z0-9_.-]/g, '').slice(0, 32);
+	return cleaned.length >= 3 ? cleaned : `${provider}_user`;
+}
+
+/**
+ * Find the local account linked to a provider identity
+ */
+export async function findOAuthAccount(provider: string, subject: string, env?: { DATABASE_URL?: string }) {
+	const db = getDb(env);
+	const [account] = await db
+		.select()
+		.from(oauthAccounts)
+		.where(and(eq(oauthAccounts.provider, provider), eq(oauthAccounts.providerUserId, subject)))
+		.limit(1);
+	return account;
+}
+
+/**
+ * List the provider accounts linked to a user
+ */
+export async function listOAuthAccounts(userId: number, env?: { DATABASE_URL?: string }) {
+	const db = getDb(env);
+	return db.select().from(oauthAccounts).where(eq(oauthAccounts.userId, userId));
+}
+
+/**
+ * Link a provider identity to a local user
+ */
+export async function linkOAuthAccount(
+	userId: number,
+	provider: string,
+	profile: OAuthProfile,
+	env?: { DATABASE_URL?: string }
+): Promise<void> {
+	const db = getDb(env);
+	await db.insert(oauthAccounts).values({
+		userId,
+		provider,
+		providerUserId: profile.subject,
+		email: profile.email || null
+	});
+}
+
+/**
+ * Remove the link between a user and a provider
+ *
+ * @returns Whether a link was removed
+ */
+export async function unlinkOAuthAccount(userId: number, provider: string, env?: { DATABASE_URL?: string }): Promise<boolean> {
+	const db = getDb(env);
+	const deleted = await db
+		.delete(oauthAccounts)
+		.where(and(eq(oauthAccounts.userId, userId), eq(oauthAccounts.provider, provider)))
+		.returning();
+	return deleted.length > 0;
+}
+
+/**
+ * Create a new local user for a provider identity and link it
+ *
+ * The user and the link are created in one transaction, so a failed link never
+ * leaves an orphaned account. If a concurrent sign-in with the same identity
+ * linked a user first, that user is returned instead.
+ *
+ * The user gets a random password; one can be set later through password reset.
+ *
+ * @returns The user's ID, and whether the user was created by this call
+ */
+export async function createUserFromOAuthProfile(
+	provider: string,
+	profile: OAuthProfile,
+	env?: { DATABASE_URL?: string }
+): Promise<{ userId: number; created: boolean }> {
+	const db = getDb(env);
+	const base = suggestUsername(provider, profile);
+	// A random password nobody knows; hasPassword tells re-authentication to accept other proof
+	const hashedPassword = await hashPassword(randomBytes(32).toString('hex'), env);
+
+	for (let attempt = 0; attempt < 5; attempt++) {
+		const username = attempt === 0 ? base : `${base}_${randomBytes(2).toString('hex')}`;
+		try {
+			const userId = await db.transaction(async (tx) => {
+				const [user] = await tx.insert(users).values({ username, password: hashedPassword, hasPassword: false }).returning();
+				await tx.insert(oauthAccounts).values({
+					userId: user.id,
+					provider,
+					providerUserId: profile.subject,
+					email: profile.email || null
+				});
+				return user.id;
+			});
+			return { userId, created: true };
+		} catch (error: any) {
+			if (error?.code !== '23505') {
+				throw error;
+			}
+
+			// postgres-js reports the violated constraint as constraint_name, the Neon driver as constraint
+			const constraint = error?.constraint_name || error?.constraint;
+			if (constraint === 'oauth_accounts_provider_user_unique') {
+				const account = await findOAuthAccount(provider, profile.subject, env);
+				if (account) {
+					return { userId: account.userId, created: false };
+				}
+				throw error;
+			}
+			// Username taken - retry with a random suffix
+		}
+	}
+
+	throw new Error('Could not find an available username');
+}
+
+registerExportSection({
+	name: 'oauth_accounts',
+	description: 'Linked sign-in providers',
+	async collect(userId, env) {
+		return getDb(env)
+			.select({
+				provider: oauthAccounts.provider,
+				providerUserId: oauthAccounts.providerUserId,
+				email: oauthAccounts.email,
+				createdAt: oauthAccounts.createdAt
+			})
+			.from(oauthAccounts)
+			.where(eq(oauthAccounts.userId, userId));
+	}
+});
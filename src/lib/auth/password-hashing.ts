@@ -0,0 +1,276 @@
+/**
+ * Password hashing algorithms
+ *
+ * Every stored hash carries a prefix identifying its algorithm and parameters,
+ * so several algorithms can coexist in the database: new hashes always use the
+ * current hasher, older ones stay verifiable and are upgraded on the next
+ * successful login (see `verifyPassword` in `$lib/auth`).
+ *
+ * - bcrypt: `$2a$<cost>$...` (bcryptjs)
+ * - scrypt: `$scrypt$ln=<log2 N>,r=<r>,p=<p>$<salt>$<hash>` (node:crypto, also
+ *   available on Workers with nodejs_compat; WebCrypto has no scrypt)
+ * - PBKDF2: `$pbkdf2-sha256$i=<iterations>$<salt>$<hash>` (WebCrypto)
+ *
+ * Salts and hashes are unpadded base64, as in the PHC string format.
+ */
+
+import bcrypt from 'bcryptjs';
+import { scrypt, timingSafeEqual } from 'node:crypto';
+
+export interface PasswordHasher {
+	/** Algorithm name, as used in PASSWORD_HASH_ALGORITHM */
+	id: string;
+	hash(password: string): Promise<string>;
+	verify(password: string, hash: string): Promise<boolean>;
+	/** Whether a stored hash was produced by this algorithm */
+	handles(hash: string): boolean;
+	/** Whether a hash produced by this algorithm uses outdated parameters */
+	needsRehash(hash: string): boolean;
+}
+
+const DEFAULT_BCRYPT_COST = 10;
+const DEFAULT_SCRYPT_LOG_N = 15;
+const DEFAULT_PBKDF2_ITERATIONS = 600_000;
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+function toBase64(bytes: Uint8Array): string {
+	return btoa(String.fromCharCode(...bytes)).replace(/=+$/, '');
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+	return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+function randomSalt(): Uint8Array<ArrayBuffer> {
+	return crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+}
+
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+	if (a.length !== b.length) {
+		return false;
+	}
+	let difference = 0;
+	for (let i = 0; i < a.length; i++) {
+		difference |= a[i] ^ b[i];
+	}
+	return difference === 0;
+}
+
+/**
+ * Split a `$id$params$salt$hash` string into its parts
+ */
+function parseHash(hash: string, id: string): { params: Map<string, number>; salt: Uint8Array<ArrayBuffer>; key: Uint8Array<ArrayBuffer> } | null {
+	const parts = hash.split('$');
+	if (parts.length !== 5 || parts[0] !== '' || parts[1] !== id) {
+		return null;
+	}
+
+	try {
+		const params = new Map(
+			parts[2].split(',').map((pair) => {
+				const [name, value] = pair.split('=');
+				return [name, Number.parseInt(value, 10)] as const;
+			})
+		);
+		return { params, salt: fromBase64(parts[3]), key: fromBase64(parts[4]) };
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * bcrypt with a configurable cost factor
+ */
+export function createBcryptHasher(cost = DEFAULT_BCRYPT_COST): PasswordHasher {
+	return {
+		id: 'bcrypt',
+		hash: (password) => bcrypt.hash(password, cost),
+		verify: (password, hash) => bcrypt.compare(password, hash),
+		handles: (hash) => /^\$2[aby]\$\d{2}\$/.test(hash),
+		needsRehash: (hash) => bcrypt.getRounds(hash) !== cost
+	};
+}
+
+/**
+ * scrypt with N = 2^logN, block size r and parallelization p
+ */
+export function createScryptHasher({ logN = DEFAULT_SCRYPT_LOG_N, r = 8, p = 1 } = {}): PasswordHasher {
+	const derive = (password: string, salt: Uint8Array, params: { logN: number; r: number; p: number }) =>
+		new Promise<Uint8Array>((resolve, reject) => {
+			const N = 2 ** params.logN;
+			// Node rejects the call unless maxmem covers the 128 * N * r bytes scrypt needs
+			const maxmem = 128 * N * params.r * 2;
+			scrypt(password, salt, KEY_LENGTH, { N, r: params.r, p: params.p, maxmem }, (error, key) =>
+				error ? reject(error) : resolve(new Uint8Array(key))
+			);
+		});
+
+	return {
+		id: 'scrypt',
+		async hash(password) {
+			const salt = randomSalt();
+			const key = await derive(password, salt, { logN, r, p });
+			return `$scrypt$ln=${logN},r=${r},p=${p}$${toBase64(salt)}$${toBase64(key)}`;
+		},
+		async verify(password, hash) {
+			const parsed = parseHash(hash, 'scrypt');
+			if (!parsed) {
+				return false;
+			}
+			const params = { logN: parsed.params.get('ln') ?? 0, r: parsed.params.get('r') ?? 0, p: parsed.params.get('p') ?? 0 };
+			const key = await derive(password, parsed.salt, params);
+			return key.length === parsed.key.length && timingSafeEqual(key, parsed.key);
+		},
+		handles: (hash) => hash.startsWith('$scrypt$'),
+		needsRehash(hash) {
+			const parsed = parseHash(hash, 'scrypt');
+			return !parsed || parsed.params.get('ln') !== logN || parsed.params.get('r') !== r || parsed.params.get('p') !== p;
+		}
+	};
+}
+
+/**
+ * PBKDF2-HMAC-SHA256 through WebCrypto
+ */
+export function createPbkdf2Hasher({ iterations = DEFAULT_PBKDF2_ITERATIONS } = {}): PasswordHasher {
+	async function derive(password: string, salt: Uint8Array<ArrayBuffer>, rounds: number): Promise<Uint8Array> {
+		const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, [
+			'deriveBits'
+		]);
+		const bits = await crypto.subtle.deriveBits(
+			{ name: 'PBKDF2', hash: 'SHA-256', salt, iterations: rounds },
+			material,
+			KEY_LENGTH * 8
+		);
+		return new Uint8Array(bits);
+	}
+
+	return {
+		id: 'pbkdf2',
+		async hash(password) {
+			const salt = randomSalt();
+			const key = await derive(password, salt, iterations);
+			return `$pbkdf2-sha256$i=${iterations}$${toBase64(salt)}$${toBase64(key)}`;
+		},
+		async verify(password, hash) {
+			const parsed = parseHash(hash, 'pbkdf2-sha256');
+			const rounds = parsed?.params.get('i');
+			if (!parsed || !rounds) {
+				return false;
+			}
+			return constantTimeEqual(await derive(password, parsed.salt, rounds), parsed.key);
+		},
+		handles: (hash) => hash.startsWith('$pbkdf2-sha256$'),
+		needsRehash(hash) {
+			return parseHash(hash, 'pbkdf2-sha256')?.params.get('i') !== iterations;
+		}
+	};
+}
+
+/**
+ * Instant, insecure hasher for tests: stores the password in plain text
+ *
+ * Never selected from the environment; tests opt in with `setPasswordHasher`.
+ */
+export function createTestHasher(): PasswordHasher {
+	return {
+		id: 'test',
+		async hash(password) {
+			// Random salt keeps hashes of the same password distinct, like a real hasher
+			return `$test$${toBase64(randomSalt())}$${password}`;
+		},
+		async verify(password, hash) {
+			const parts = hash.split('$');
+			return parts.length >= 4 && parts[1] === 'test' && parts.slice(3).join('$') === password;
+		},
+		handles: (hash) => hash.startsWith('$test$'),
+		needsRehash: () => false
+	};
+}
+
+type PasswordHashingEnv = {
+	PASSWORD_HASH_ALGORITHM?: string;
+	PASSWORD_BCRYPT_COST?: string;
+	PASSWORD_SCRYPT_LOG_N?: string;
+	PASSWORD_PBKDF2_ITERATIONS?: string;
+};
+
+function readInteger(value: string | undefined, fallback: number, min: number, max: number): number {
+	const parsed = Number.parseInt(value || '', 10);
+	return Number.isFinite(parsed) ? Math.min(Math.max(parsed, min), max) : fallback;
+}
+
+/**
+ * Hashers known to the application: the current one produces new hashes, all of them verify
+ */
+export interface PasswordHasherRegistry {
+	current: PasswordHasher;
+	hashers: PasswordHasher[];
+}
+
+/**
+ * Build the registry from the environment
+ *
+ * PASSWORD_HASH_ALGORITHM selects the current algorithm (bcrypt by default);
+ * the others remain registered so existing hashes keep verifying.
+ */
+export function createPasswordHasherRegistry(env?: PasswordHashingEnv): PasswordHasherRegistry {
+	const read = (key: keyof PasswordHashingEnv) => env?.[key] || (typeof process !== 'undefined' ? process.env[key] : undefined);
+
+	const hashers = [
+		createBcryptHasher(readInteger(read('PASSWORD_BCRYPT_COST'), DEFAULT_BCRYPT_COST, 4, 31)),
+		createScryptHasher({ logN: readInteger(read('PASSWORD_SCRYPT_LOG_N'), DEFAULT_SCRYPT_LOG_N, 10, 20) }),
+		createPbkdf2Hasher({
+			iterations: readInteger(read('PASSWORD_PBKDF2_ITERATIONS'), DEFAULT_PBKDF2_ITERATIONS, 1000, 10_000_000)
+		})
+	];
+
+	const algorithm = (read('PASSWORD_HASH_ALGORITHM') || 'bcrypt').toLowerCase();
+	const current = hashers.find((hasher) => hasher.id === algorithm);
+	if (!current) {
+		console.warn(`Unknown PASSWORD_HASH_ALGORITHM "${algorithm}", using bcrypt`);
+	}
+
+	return { current: current || hashers[0], hashers };
+}
+
+/**
+ * Singleton instance of the hasher registry
+ */
+let registryInstance: PasswordHasherRegistry | null = null;
+
+/**
+ * Get the hasher registry (singleton)
+ */
+export function getPasswordHasherRegistry(env?: PasswordHashingEnv): PasswordHasherRegistry {
+	if (!registryInstance) {
+		registryInstance = createPasswordHasherRegistry(env);
+	}
+	return registryInstance;
+}
+
+/**
+ * Make a hasher the current one, e.g. `createTestHasher()` in tests
+ */
+export function setPasswordHasher(hasher: PasswordHasher, env?: PasswordHashingEnv): void {
+	const registry = getPasswordHasherRegistry(env);
+	registryInstance = {
+		current: hasher,
+		hashers: [hasher, ...registry.hashers.filter((existing) => existing.id !== hasher.id)]
+	};
+}
+
+/**
+ * Reset the registry singleton (primarily for testing)
+ */
+export function resetPasswordHasherRegistry(): void {
+	registryInstance = null;
+}
+
+/**
+ * Find the hasher that produced a stored hash
+ */
+export function findHasher(hash: string, env?: PasswordHashingEnv): PasswordHasher | undefined {
+	return getPasswordHasherRegistry(env).hashers.find((hasher) => hasher.handles(hash));
+}
@@ -0,0 +1,142 @@
+/**
+ * Password policy rules
+ *
+ * This module has no server-only dependencies so the register page can use it
+ * for its live strength meter. The breached-password lookup is server-side
+ * (see `validatePassword` in `$lib/auth`).
+ */
+
+/**
+ * Requirements a new password has to meet
+ */
+export interface PasswordPolicy {
+	minLength: number;
+	maxLength: number;
+	/** How many of lowercase, uppercase, digits and symbols must appear */
+	minCharacterClasses: number;
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+	minLength: 8,
+	maxLength: 128,
+	minCharacterClasses: 2
+};
+
+export type PasswordRule = 'min_length' | 'max_length' | 'character_classes' | 'username_similarity' | 'breached';
+
+/**
+ * A rule the password does not satisfy
+ */
+export interface PasswordRuleFailure {
+	rule: PasswordRule;
+	message: string;
+}
+
+type PasswordPolicyEnv = {
+	PASSWORD_MIN_LENGTH?: string;
+	PASSWORD_MIN_CHARACTER_CLASSES?: string;
+};
+
+function readInteger(value: string | undefined, fallback: number, min: number, max: number): number {
+	const parsed = Number.parseInt(value || '', 10);
+	return Number.isFinite(parsed) ? Math.min(Math.max(parsed, min), max) : fallback;
+}
+
+/**
+ * Read the policy from the environment
+ */
+export function getPasswordPolicy(env?: PasswordPolicyEnv): PasswordPolicy {
+	const read = (key: keyof PasswordPolicyEnv) => env?.[key] || (typeof process !== 'undefined' ? process.env[key] : undefined);
+
+	return {
+		...DEFAULT_PASSWORD_POLICY,
+		minLength: readInteger(read('PASSWORD_MIN_LENGTH'), DEFAULT_PASSWORD_POLICY.minLength, 1, DEFAULT_PASSWORD_POLICY.maxLength),
+		minCharacterClasses: readInteger(read('PASSWORD_MIN_CHARACTER_CLASSES'), DEFAULT_PASSWORD_POLICY.minCharacterClasses, 1, 4)
+	};
+}
+
+/**
+ * Count the character classes (lowercase, uppercase, digits, symbols) in a password
+ */
+export function countCharacterClasses(password: string): number {
+	return [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter((pattern) => pattern.test(password)).length;
+}
+
+function normalizeForComparison(value: string): string {
+	return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Check whether a password is (or contains) the username, forwards or backwards
+ */
+export function isSimilarToUsername(password: string, username: string): boolean {
+	const name = normalizeForComparison(username);
+	const normalized = normalizeForComparison(password);
+
+	if (name.length < 3 || normalized.length === 0) {
+		return false;
+	}
+
+	const reversed = [...name].reverse().join('');
+	return normalized.includes(name) || normalized.includes(reversed) || name.includes(normalized);
+}
+
+/**
+ * Check a password against the policy's local rules
+ *
+ * @returns The rules the password fails, empty if it passes
+ */
+export function checkPasswordRules(
+	password: string,
+	policy: PasswordPolicy,
+	context: { username?: string } = {}
+): PasswordRuleFailure[] {
+	const failures: PasswordRuleFailure[] = [];
+
+	if (password.length < policy.minLength) {
+		failures.push({ rule: 'min_length', message: `Password must be at least ${policy.minLength} characters` });
+	}
+
+	if (password.length > policy.maxLength) {
+		failures.push({ rule: 'max_length', message: `Password must be at most ${policy.maxLength} characters` });
+	}
+
+	if (countCharacterClasses(password) < policy.minCharacterClasses) {
+		failures.push({
+			rule: 'character_classes',
+			message: `Password must contain at least ${policy.minCharacterClasses} of: lowercase letters, uppercase letters, digits, symbols`
+		});
+	}
+
+	if (context.username && isSimilarToUsername(password, context.username)) {
+		failures.push({ rule: 'username_similarity', message: 'Password must not contain your username' });
+	}
+
+	return failures;
+}
+
+export const PASSWORD_STRENGTH_LABELS = ['Very weak', 'Weak', 'Fair', 'Strong', 'Very strong'] as const;
+
+/**
+ * Rough strength estimate for the strength meter, from 0 (very weak) to 4 (very strong)
+ *
+ * Rewards length and variety and penalizes repeated characters and simple
+ * sequences. This is guidance for the user, not a policy rule.
+ */
+export function estimatePasswordStrength(password: string): number {
+	if (!password) {
+		return 0;
+	}
+
+	let score = 0;
+	if (password.length >= 8) score++;
+	if (password.length >= 12) score++;
+	if (password.length >= 16) score++;
+	score += Math.max(countCharacterClasses(password) - 1, 0);
+
+	// "aaaa" or "1234"/"abcd" runs make a password much easier to guess
+	if (/(.)\1{2,}/.test(password)) score--;
+	if (/(?:0123|1234|2345|3456|4567|5678|6789|abcd|bcde|cdef|qwer|asdf)/i.test(password)) score--;
+
+	return Math.min(Math.max(score - 1, 0), 4);
+}
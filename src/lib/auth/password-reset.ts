@@ -0,0 +1,113 @@
+import { randomBytes } from 'node:crypto';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { getDb } from '$lib/db';
+import { passwordResetTokens, sessions, users } from '$lib/db/schema';
+import { registerExportSection } from '$lib/data-export';
+import { hashPassword, hashToken, type PasswordHashingEnv } from '$lib/auth';
+
+const PASSWORD_RESET_TOKEN_DURATION = 60 * 60 * 1000; // 1 hour in milliseconds
+
+/**
+ * Issue a new password reset token for a user
+ *
+ * Any previously issued, still unused tokens for the user are discarded so
+ * that only the most recent link works. Only the token digest is stored.
+ *
+ * @returns The raw token to deliver to the user
+ */
+export async function createPasswordResetToken(userId: number, env?: { DATABASE_URL?: string }): Promise<string> {
+	const db = getDb(env);
+	const token = randomBytes(32).toString('hex');
+	const expiresAt = new Date(Date.now() + PASSWORD_RESET_TOKEN_DURATION);
+
+	await db
+		.delete(passwordResetTokens)
+		.where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+
+	await db.insert(passwordResetTokens).values({
+		userId,
+		tokenHash: hashToken(token),
+		expiresAt
+	});
+
+	return token;
+}
+
+/**
+ * Look up the user a password reset token was issued to, without consuming it
+ *
+ * @returns The user ID, or null if the token is invalid, used or expired
+ */
+export async function getPasswordResetTokenUserId(token: string, env?: { DATABASE_URL?: string }): Promise<number | null> {
+	const db = getDb(env);
+	const [resetToken] = await db
+		.select()
+		.from(passwordResetTokens)
+		.where(
+			and(
+				eq(passwordResetTokens.tokenHash, hashToken(token)),
+				isNull(passwordResetTokens.usedAt),
+				gt(passwordResetTokens.expiresAt, new Date())
+			)
+		)
+		.limit(1);
+
+	return resetToken?.userId ?? null;
+}
+
+/**
+ * Consume a password reset token and set a new password
+ *
+ * The token is marked as used in the same statement that checks it, so it
+ * can only be redeemed once. On success all existing sessions of the user
+ * are revoked.
+ *
+ * @returns The user ID whose password was reset, or null if the token is invalid, used or expired
+ */
+export async function resetPassword(
+	token: string,
+	newPassword: string,
+	env?: PasswordHashingEnv
+): Promise<number | null> {
+	const db = getDb(env);
+	const hashedPassword = await hashPassword(newPassword, env);
+
+	return db.transaction(async (tx) => {
+		const now = new Date();
+		const [resetToken] = await tx
+			.update(passwordResetTokens)
+			.set({ usedAt: now })
+			.where(
+				and(
+					eq(passwordResetTokens.tokenHash, hashToken(token)),
+					isNull(passwordResetTokens.usedAt),
+					gt(passwordResetTokens.expiresAt, now)
+				)
+			)
+			.returning();
+
+		if (!resetToken) {
+			return null;
+		}
+
+		await tx.update(users).set({ password: hashedPassword, hasPassword: true }).where(eq(users.id, resetToken.userId));
+		await tx.delete(sessions).where(eq(sessions.userId, resetToken.userId));
+
+		return resetToken.userId;
+	});
+}
+
+registerExportSection({
+	name: 'password_resets',
+	description: 'Password reset requests',
+	async collect(userId, env) {
+		return getDb(env)
+			.select({
+				createdAt: passwordResetTokens.createdAt,
+				expiresAt: passwordResetTokens.expiresAt,
+				usedAt: passwordResetTokens.usedAt
+			})
+			.from(passwordResetTokens)
+			.where(eq(passwordResetTokens.userId, userId));
+	}
+});
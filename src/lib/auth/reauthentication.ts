@@ -0,0 +1,120 @@
+/**
+ * Re-authentication for sensitive account changes
+ *
+ * Changing the password or email address and deleting the account require
+ * proof that the owner is present, not just a session. Accounts with a
+ * password must give it. Accounts without a usable one (created through an
+ * OAuth provider, see `users.hasPassword`) give a 2FA code instead, or sign in
+ * again and act within REAUTHENTICATION_WINDOW of it. A fresh sign-in does not
+ * count while an admin impersonates the user or for API token requests.
+ *
+ * Passwords and codes count against the login lockout (see $lib/auth/lockout),
+ * so a session cannot be used to guess them without limit.
+ */
+
+import { json } from '@sveltejs/kit';
+import { verifyPassword } from '$lib/auth';
+import { recordLoginSuccess, reserveLoginAttempt, type LockoutScope } from '$lib/auth/lockout';
+import { verifySecondFactor } from '$lib/auth/two-factor';
+
+export const REAUTHENTICATION_WINDOW = 10 * 60 * 1000; // 10 minutes in milliseconds
+
+export interface ReauthenticationProof {
+	password?: unknown;
+	code?: unknown;
+	recoveryCode?: unknown;
+}
+
+/**
+ * 'invalid' when a password or code was given but is wrong, 'required' when the
+ * account's proof is missing, 'locked' while the lockout refuses further attempts
+ */
+export type ReauthenticationResult =
+	| { status: 'verified' }
+	| { status: 'invalid' }
+	| { status: 'required' }
+	| { status: 'locked'; scope: LockoutScope; retryAfter: number };
+
+type ReauthenticationEnv = {
+	DATABASE_URL?: string;
+	UPSTASH_REDIS_REST_URL?: string;
+	UPSTASH_REDIS_REST_TOKEN?: string;
+	ENVIRONMENT?: string;
+	CF_PAGES_BRANCH?: string;
+};
+
+/**
+ * Whether the request's session was signed in recently enough to act without a password
+ */
+export function isRecentlyAuthenticated(
+	locals: Pick<App.Locals, 'authenticatedAt' | 'impersonatorId' | 'apiToken'>,
+	now = Date.now()
+): boolean {
+	if (!locals.authenticatedAt || locals.impersonatorId || locals.apiToken) {
+		return false;
+	}
+	return now - locals.authenticatedAt.getTime() < REAUTHENTICATION_WINDOW;
+}
+
+function nonEmptyString(value: unknown): string | undefined {
+	return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Check the proof of presence for a sensitive change
+ */
+export async function verifyReauthentication(
+	user: { id: number; username: string; password: string; hasPassword: boolean },
+	proof: ReauthenticationProof,
+	locals: Pick<App.Locals, 'authenticatedAt' | 'impersonatorId' | 'apiToken'>,
+	ipAddress: string | undefined,
+	env?: ReauthenticationEnv
+): Promise<ReauthenticationResult> {
+	const password = user.hasPassword ? nonEmptyString(proof.password) : undefined;
+	const code = user.hasPassword ? undefined : nonEmptyString(proof.code);
+	const recoveryCode = user.hasPassword ? undefined : nonEmptyString(proof.recoveryCode);
+
+	if (!password && !code && !recoveryCode) {
+		return { status: !user.hasPassword && isRecentlyAuthenticated(locals) ? 'verified' : 'required' };
+	}
+
+	const reservation = await reserveLoginAttempt(user.username, ipAddress, env);
+	if (!reservation.allowed) {
+		return { status: 'locked', scope: reservation.scope, retryAfter: reservation.retryAfter };
+	}
+
+	const valid = password
+		? await verifyPassword(password, user.password)
+		: (await verifySecondFactor(user.id, { code, recoveryCode }, env)).valid;
+
+	if (valid) {
+		await recordLoginSuccess(user.username, ipAddress, env);
+	}
+	return { status: valid ? 'verified' : 'invalid' };
+}
+
+/**
+ * The error response for a re-authentication that did not verify
+ */
+export function reauthenticationErrorResponse(
+	result: Exclude<ReauthenticationResult, { status: 'verified' }>,
+	user: { hasPassword: boolean }
+): Response {
+	switch (result.status) {
+		case 'locked':
+			return json(
+				{ error: 'Too many failed attempts. Please try again later.', retryAfter: result.retryAfter },
+				{ status: 429, headers: { 'Retry-After': String(result.retryAfter) } }
+			);
+		case 'required':
+			return json(
+				{
+					error: user.hasPassword ? 'Enter your current password' : 'Enter a 2FA code, or sign in again',
+					reauthenticationRequired: true
+				},
+				{ status: 400 }
+			);
+		case 'invalid':
+			return json({ error: user.hasPassword ? 'Invalid password' : 'Invalid 2FA code' }, { status: 400 });
+	}
+}
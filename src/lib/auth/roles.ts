@@ -0,0 +1,152 @@
+/**
+ * Role-based access control
+ *
+ * Every authenticated user has the implicit 'user' role; further roles are
+ * granted through the user_roles table. `hooks.server.ts` loads them into
+ * `locals.roles`, and `+server.ts` handlers guard themselves with `requireRole`.
+ *
+ * The first admin is bootstrapped from INITIAL_ADMIN_USERNAME: while no admin
+ * exists, that user is promoted when the operator runs migrations with
+ * MIGRATION_SECRET, after the account has been registered. Registering the name
+ * alone never promotes anyone, since anybody could claim it first. Later admins
+ * are granted through `/api/admin/roles`.
+ */
+
+import { json } from '@sveltejs/kit';
+import { and, eq } from 'drizzle-orm';
+import { getDb } from '$lib/db';
+import { userRoles, users } from '$lib/db/schema';
+import { registerExportSection } from '$lib/data-export';
+
+export const ROLES = ['user', 'admin'] as const;
+export type Role = (typeof ROLES)[number];
+
+/**
+ * Roles that can be granted (everyone has 'user')
+ */
+export const GRANTABLE_ROLES: Role[] = ['admin'];
+
+type RolesEnv = {
+	DATABASE_URL?: string;
+	INITIAL_ADMIN_USERNAME?: string;
+};
+
+export function isGrantableRole(role: unknown): role is Role {
+	return (GRANTABLE_ROLES as unknown[]).includes(role);
+}
+
+/**
+ * Get a user's roles, including the implicit 'user' role
+ */
+export async function getUserRoles(userId: number, env?: RolesEnv): Promise<Role[]> {
+	const db = getDb(env);
+	const rows = await db.select({ role: userRoles.role }).from(userRoles).where(eq(userRoles.userId, userId));
+	return ['user', ...rows.map((row) => row.role).filter(isGrantableRole)];
+}
+
+/**
+ * Check whether any user holds a role
+ */
+export async function hasAnyUserWithRole(role: Role, env?: RolesEnv): Promise<boolean> {
+	const db = getDb(env);
+	const [row] = await db.select({ userId: userRoles.userId }).from(userRoles).where(eq(userRoles.role, role)).limit(1);
+	return !!row;
+}
+
+/**
+ * Get the IDs of all users holding a role
+ */
+export async function getUserIdsWithRole(role: Role, env?: RolesEnv): Promise<number[]> {
+	const db = getDb(env);
+	const rows = await db.select({ userId: userRoles.userId }).from(userRoles).where(eq(userRoles.role, role));
+	return rows.map((row) => row.userId);
+}
+
+/**
+ * Grant a role; granting a role the user already has is a no-op
+ */
+export async function grantRole(
+	userId: number,
+	role: Role,
+	grantedBy: number | null,
+	env?: RolesEnv
+): Promise<void> {
+	const db = getDb(env);
+	await db.insert(userRoles).values({ userId, role, grantedBy }).onConflictDoNothing();
+}
+
+/**
+ * Revoke a role
+ *
+ * @returns Whether the user had the role
+ */
+export async function revokeRole(userId: number, role: Role, env?: RolesEnv): Promise<boolean> {
+	const db = getDb(env);
+	const deleted = await db
+		.delete(userRoles)
+		.where(and(eq(userRoles.userId, userId), eq(userRoles.role, role)))
+		.returning();
+	return deleted.length > 0;
+}
+
+/**
+ * Promote the user named by INITIAL_ADMIN_USERNAME while there is no admin yet
+ *
+ * Only called from the MIGRATION_SECRET path of `/api/admin/migrate`, so that the
+ * operator confirms the account; never from registration or per request.
+ *
+ * @returns Whether the user was promoted
+ */
+export async function bootstrapAdmin(env?: RolesEnv): Promise<boolean> {
+	const initialAdmin = env?.INITIAL_ADMIN_USERNAME || (typeof process !== 'undefined' ? process.env.INITIAL_ADMIN_USERNAME : undefined);
+	if (!initialAdmin) {
+		return false;
+	}
+
+	const db = getDb(env);
+	const [user] = await db.select({ id: users.id }).from(users).where(eq(users.username, initialAdmin)).limit(1);
+
+	if (!user || (await hasAnyUserWithRole('admin', env))) {
+		return false;
+	}
+
+	await grantRole(user.id, 'admin', null, env);
+	return true;
+}
+
+/**
+ * Check whether the current request's user has a role
+ */
+export function hasRole(locals: App.Locals, role: Role): boolean {
+	return !!locals.userId && !!locals.roles?.includes(role);
+}
+
+/**
+ * Guard for `+server.ts` handlers
+ *
+ * @returns An error response to return as-is, or null if the user has the role
+ *
+ * @example
+ * const denied = requireRole(locals, 'admin');
+ * if (denied) return denied;
+ */
+export function requireRole(locals: App.Locals, role: Role): Response | null {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+	if (!hasRole(locals, role)) {
+		return json({ error: 'Forbidden' }, { status: 403 });
+	}
+	return null;
+}
+
+registerExportSection({
+	name: 'roles',
+	description: 'Roles granted to your account',
+	async collect(userId, env) {
+		return getDb(env)
+			.select({ role: userRoles.role, grantedAt: userRoles.grantedAt })
+			.from(userRoles)
+			.where(eq(userRoles.userId, userId));
+	}
+});
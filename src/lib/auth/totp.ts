@@ -0,0 +1,146 @@
+/**
+ * RFC 6238 time-based one-time passwords (TOTP)
+ *
+ * Implements the HOTP/TOTP algorithms used by authenticator apps, plus the
+ * base32 encoding and otpauth:// provisioning URI they expect.
+ */
+
+import { createHmac, randomBytes } from 'node:crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+
+/**
+ * Encode bytes as RFC 4648 base32 without padding
+ */
+export function base32Encode(bytes: Uint8Array): string {
+	let bits = 0;
+	let value = 0;
+	let output = '';
+
+	for (const byte of bytes) {
+		value = (value << 8) | byte;
+		bits += 8;
+		while (bits >= 5) {
+			output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+			bits -= 5;
+		}
+	}
+
+	if (bits > 0) {
+		output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+	}
+
+	return output;
+}
+
+/**
+ * Decode an RFC 4648 base32 string (case-insensitive, padding and spaces ignored)
+ */
+export function base32Decode(input: string): Uint8Array {
+	const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+	const bytes: number[] = [];
+	let bits = 0;
+	let value = 0;
+
+	for (const char of cleaned) {
+		const index = BASE32_ALPHABET.indexOf(char);
+		if (index === -1) {
+			throw new Error(`Invalid base32 character: ${char}`);
+		}
+		value = (value << 5) | index;
+		bits += 5;
+		if (bits >= 8) {
+			bytes.push((value >>> (bits - 8)) & 0xff);
+			bits -= 8;
+		}
+	}
+
+	return new Uint8Array(bytes);
+}
+
+/**
+ * Generate a new random TOTP secret (160 bits, base32 encoded)
+ */
+export function generateTotpSecret(): string {
+	return base32Encode(randomBytes(20));
+}
+
+/**
+ * Compute an RFC 4226 HOTP value for a counter
+ */
+export function generateHotp(secret: Uint8Array, counter: number, digits: number = TOTP_DIGITS): string {
+	const counterBytes = Buffer.alloc(8);
+	counterBytes.writeBigUInt64BE(BigInt(counter));
+
+	const hmac = createHmac('sha1', secret).update(counterBytes).digest();
+	const offset = hmac[hmac.length - 1] & 0x0f;
+	const binary =
+		((hmac[offset] & 0x7f) << 24) |
+		(hmac[offset + 1] << 16) |
+		(hmac[offset + 2] << 8) |
+		hmac[offset + 3];
+
+	return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+/**
+ * Get the TOTP time step for a timestamp
+ */
+export function getTimeStep(timestampMs: number = Date.now()): number {
+	return Math.floor(timestampMs / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * Compute the TOTP code for a base32 secret at a given time
+ */
+export function generateTotp(secret: string, timestampMs: number = Date.now(), digits: number = TOTP_DIGITS): string {
+	return generateHotp(base32Decode(secret), getTimeStep(timestampMs), digits);
+}
+
+/**
+ * Verify a TOTP code, allowing for clock drift of `window` steps in either direction
+ *
+ * @returns The matching time step (to be stored for replay protection), or null if the code is invalid
+ */
+export function verifyTotp(
+	secret: string,
+	code: string,
+	options: { timestampMs?: number; window?: number; digits?: number } = {}
+): number | null {
+	const { timestampMs = Date.now(), window = 1, digits = TOTP_DIGITS } = options;
+	const normalized = code.replace(/\s/g, '');
+
+	if (!new RegExp(`^\\d{${digits}}$`).test(normalized)) {
+		return null;
+	}
+
+	const key = base32Decode(secret);
+	const currentStep = getTimeStep(timestampMs);
+
+	for (let offset = -window; offset <= window; offset++) {
+		const step = currentStep + offset;
+		if (step >= 0 && generateHotp(key, step, digits) === normalized) {
+			return step;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Build the otpauth:// URI that authenticator apps scan from a QR code
+ */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+	const label = encodeURIComponent(`${issuer}:${accountName}`);
+	const params = new URLSearchParams({
+		secret,
+		issuer,
+		algorithm: 'SHA1',
+		digits: String(TOTP_DIGITS),
+		period: String(TOTP_PERIOD_SECONDS)
+	});
+	return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,282 @@
+import { randomBytes } from 'node:crypto';
+import type { Cookies } from '@sveltejs/kit';
+import { and, eq, gt, isNull, lt, or, sql } from 'drizzle-orm';
+import { getDb } from '$lib/db';
+import { recoveryCodes, twoFactorChallenges, users } from '$lib/db/schema';
+import { hashToken } from '$lib/auth';
+import { base32Encode, buildOtpauthUri, generateTotpSecret, verifyTotp } from '$lib/auth/totp';
+
+const TOTP_ISSUER = 'svelte-bun';
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_DURATION = 5 * 60 * 1000; // 5 minutes in milliseconds
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+/**
+ * Name of the cookie that carries a pending 2FA login challenge to the login endpoint
+ */
+export const TWO_FACTOR_CHALLENGE_COOKIE = 'two_factor_challenge';
+
+/**
+ * Generate a human-friendly recovery code, e.g. "K3J7P-2XQ7M"
+ */
+export function generateRecoveryCode(): string {
+	const code = base32Encode(randomBytes(7)).slice(0, 10);
+	return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+/**
+ * Normalize a recovery code as typed by the user before hashing
+ */
+export function normalizeRecoveryCode(code: string): string {
+	return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Get the 2FA status for a user
+ */
+export async function getTwoFactorStatus(userId: number, env?: { DATABASE_URL?: string }) {
+	const db = getDb(env);
+	const [user] = await db
+		.select({ totpEnabledAt: users.totpEnabledAt })
+		.from(users)
+		.where(eq(users.id, userId))
+		.limit(1);
+
+	const remaining = await db
+		.select({ id: recoveryCodes.id })
+		.from(recoveryCodes)
+		.where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+
+	return {
+		enabled: !!user?.totpEnabledAt,
+		recoveryCodesRemaining: user?.totpEnabledAt ? remaining.length : 0
+	};
+}
+
+/**
+ * Start TOTP enrollment by storing a new, not yet enabled secret
+ *
+ * @returns The secret and the otpauth:// URI to render as a QR code
+ */
+export async function beginTotpEnrollment(
+	userId: number,
+	accountName: string,
+	env?: { DATABASE_URL?: string }
+): Promise<{ secret: string; uri: string } | null> {
+	const db = getDb(env);
+	const secret = generateTotpSecret();
+
+	const [updated] = await db
+		.update(users)
+		.set({ totpSecret: secret, totpLastUsedStep: null })
+		.where(and(eq(users.id, userId), isNull(users.totpEnabledAt)))
+		.returning();
+
+	if (!updated) {
+		// Already enabled - must be disabled before re-enrolling
+		return null;
+	}
+
+	return { secret, uri: buildOtpauthUri(secret, accountName, TOTP_ISSUER) };
+}
+
+/**
+ * Confirm enrollment with a code from the authenticator app and enable 2FA
+ *
+ * @returns Freshly generated recovery codes (shown to the user once), or null if the code is wrong
+ */
+export async function enableTotp(userId: number, code: string, env?: { DATABASE_URL?: string }): Promise<string[] | null> {
+	const db = getDb(env);
+	const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+
+	if (!user?.totpSecret || user.totpEnabledAt) {
+		return null;
+	}
+
+	const step = verifyTotp(user.totpSecret, code);
+	if (step === null) {
+		return null;
+	}
+
+	const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => generateRecoveryCode());
+
+	await db.transaction(async (tx) => {
+		await tx
+			.update(users)
+			.set({ totpEnabledAt: new Date(), totpLastUsedStep: step })
+			.where(eq(users.id, userId));
+		await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+		await tx.insert(recoveryCodes).values(
+			codes.map((recoveryCode) => ({ userId, codeHash: hashToken(normalizeRecoveryCode(recoveryCode)) }))
+		);
+	});
+
+	return codes;
+}
+
+/**
+ * Turn off 2FA and discard the secret and recovery codes
+ */
+export async function disableTotp(userId: number, env?: { DATABASE_URL?: string }): Promise<void> {
+	const db = getDb(env);
+	await db.transaction(async (tx) => {
+		await tx
+			.update(users)
+			.set({ totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null })
+			.where(eq(users.id, userId));
+		await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+	});
+}
+
+/**
+ * Verify a second factor for a user with 2FA enabled
+ *
+ * Accepts either a current TOTP code (each time step can be used only once)
+ * or an unused recovery code (consumed on success).
+ */
+export async function verifySecondFactor(
+	userId: number,
+	factor: { code?: string; recoveryCode?: string },
+	env?: { DATABASE_URL?: string }
+): Promise<{ valid: boolean; method: 'totp' | 'recovery_code' }> {
+	const db = getDb(env);
+
+	if (factor.recoveryCode) {
+		const [used] = await db
+			.update(recoveryCodes)
+			.set({ usedAt: new Date() })
+			.where(
+				and(
+					eq(recoveryCodes.userId, userId),
+					eq(recoveryCodes.codeHash, hashToken(normalizeRecoveryCode(factor.recoveryCode))),
+					isNull(recoveryCodes.usedAt)
+				)
+			)
+			.returning();
+		return { valid: !!used, method: 'recovery_code' };
+	}
+
+	const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+	if (!user?.totpSecret || !user.totpEnabledAt || !factor.code) {
+		return { valid: false, method: 'totp' };
+	}
+
+	const step = verifyTotp(user.totpSecret, factor.code);
+	if (step === null) {
+		return { valid: false, method: 'totp' };
+	}
+
+	// Claim the time step only if no request has used it (or a later one) yet, so
+	// concurrent requests with the same code cannot both succeed
+	const [claimed] = await db
+		.update(users)
+		.set({ totpLastUsedStep: step })
+		.where(and(eq(users.id, userId), or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step))))
+		.returning();
+
+	return { valid: !!claimed, method: 'totp' };
+}
+
+/**
+ * Create a pending 2FA login challenge after a successful password check
+ *
+ * @returns The raw challenge token to hand to the client
+ */
+export async function createTwoFactorChallenge(userId: number, env?: { DATABASE_URL?: string }): Promise<string> {
+	const db = getDb(env);
+	const token = randomBytes(32).toString('hex');
+
+	await db.insert(twoFactorChallenges).values({
+		id: hashToken(token),
+		userId,
+		expiresAt: new Date(Date.now() + CHALLENGE_DURATION)
+	});
+
+	return token;
+}
+
+/**
+ * Hand a challenge to the browser; the cookie is HttpOnly and only sent to the
+ * login endpoint, so the token never appears in URLs or page scripts
+ */
+export function setTwoFactorChallengeCookie(cookies: Cookies, token: string): void {
+	cookies.set(TWO_FACTOR_CHALLENGE_COOKIE, token, {
+		path: '/api/auth/login',
+		httpOnly: true,
+		sameSite: 'strict',
+		maxAge: CHALLENGE_DURATION / 1000
+	});
+}
+
+export function clearTwoFactorChallengeCookie(cookies: Cookies): void {
+	cookies.delete(TWO_FACTOR_CHALLENGE_COOKIE, { path: '/api/auth/login' });
+}
+
+/**
+ * The username a pending 2FA login challenge was issued for, so that attempts
+ * to answer it count against the login lockout
+ */
+export async function getTwoFactorChallengeUsername(token: string, env?: { DATABASE_URL?: string }): Promise<string | null> {
+	const db = getDb(env);
+	const [challenge] = await db
+		.select({ username: users.username })
+		.from(twoFactorChallenges)
+		.innerJoin(users, eq(users.id, twoFactorChallenges.userId))
+		.where(and(eq(twoFactorChallenges.id, hashToken(token)), gt(twoFactorChallenges.expiresAt, new Date())))
+		.limit(1);
+
+	return challenge?.username ?? null;
+}
+
+/**
+ * Answer a pending 2FA login challenge
+ *
+ * The challenge is deleted on success and after too many failed attempts.
+ *
+ * @returns The user ID on success, or null with the reason for failure
+ */
+export async function completeTwoFactorChallenge(
+	token: string,
+	factor: { code?: string; recoveryCode?: string },
+	env?: { DATABASE_URL?: string }
+): Promise<{ userId: number | null; method?: 'totp' | 'recovery_code'; reason?: 'invalid_challenge' | 'invalid_code' }> {
+	const db = getDb(env);
+	const challengeId = hashToken(token);
+
+	const [challenge] = await db
+		.select()
+		.from(twoFactorChallenges)
+		.where(and(eq(twoFactorChallenges.id, challengeId), gt(twoFactorChallenges.expiresAt, new Date())))
+		.limit(1);
+
+	if (!challenge) {
+		return { userId: null, reason: 'invalid_challenge' };
+	}
+
+	const result = await verifySecondFactor(challenge.userId, factor, env);
+
+	if (!result.valid) {
+		// Increment in the database so that parallel guesses are all counted
+		const [counted] = await db
+			.update(twoFactorChallenges)
+			.set({ attempts: sql`${twoFactorChallenges.attempts} + 1` })
+			.where(eq(twoFactorChallenges.id, challengeId))
+			.returning();
+
+		if (counted && counted.attempts >= MAX_CHALLENGE_ATTEMPTS) {
+			await db.delete(twoFactorChallenges).where(eq(twoFactorChallenges.id, challengeId));
+		}
+		return { userId: null, method: result.method, reason: 'invalid_code' };
+	}
+
+	// Only the request that deletes the challenge completes it
+	const [completed] = await db
+		.delete(twoFactorChallenges)
+		.where(and(eq(twoFactorChallenges.id, challengeId), lt(twoFactorChallenges.attempts, MAX_CHALLENGE_ATTEMPTS)))
+		.returning();
+
+	if (!completed) {
+		return { userId: null, method: result.method, reason: 'invalid_challenge' };
+	}
+	return { userId: completed.userId, method: result.method };
+}
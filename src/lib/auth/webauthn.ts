@@ -0,0 +1,335 @@
+/**
+ * WebAuthn passkey registration and authentication
+ *
+ * Ceremony verification is delegated to @simplewebauthn/server. The verify*
+ * functions below are pure (no database access) so they can be tested with
+ * recorded authenticator responses; persistence lives in the functions at the
+ * bottom of this module.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { and, eq, gt } from 'drizzle-orm';
+import {
+	generateAuthenticationOptions,
+	generateRegistrationOptions,
+	verifyAuthenticationResponse,
+	verifyRegistrationResponse,
+	type AuthenticationResponseJSON,
+	type AuthenticatorTransport,
+	type RegistrationResponseJSON
+} from '@simplewebauthn/server';
+import { isoBase64URL, parseAuthenticatorData } from '@simplewebauthn/server/helpers';
+import { getDb } from '$lib/db';
+import { webauthnChallenges, webauthnCredentials } from '$lib/db/schema';
+import { registerExportSection } from '$lib/data-export';
+import { hashToken } from '$lib/auth';
+
+const CHALLENGE_DURATION = 5 * 60 * 1000; // 5 minutes in milliseconds
+
+/**
+ * Name of the cookie that references the pending ceremony challenge
+ */
+export const WEBAUTHN_CHALLENGE_COOKIE = 'webauthn_challenge';
+
+/**
+ * Relying party the ceremonies are bound to
+ */
+export interface RelyingParty {
+	id: string;
+	name: string;
+	origin: string;
+}
+
+/**
+ * A stored passkey, as needed for verification
+ */
+export interface StoredPasskey {
+	id: string;
+	publicKey: string;
+	counter: number;
+	transports: string | null;
+}
+
+/**
+ * Resolve the relying party from configuration, defaulting to the request URL
+ *
+ * WEBAUTHN_RP_ID and WEBAUTHN_ORIGIN should be set when the app is served
+ * behind a proxy that changes the host the server sees.
+ */
+export function getRelyingParty(
+	url: URL,
+	env?: { WEBAUTHN_RP_ID?: string; WEBAUTHN_RP_NAME?: string; WEBAUTHN_ORIGIN?: string }
+): RelyingParty {
+	return {
+		id: env?.WEBAUTHN_RP_ID || url.hostname,
+		name: env?.WEBAUTHN_RP_NAME || 'svelte-bun',
+		origin: env?.WEBAUTHN_ORIGIN || url.origin
+	};
+}
+
+/**
+ * Check the signature counter reported by an authenticator against the stored value
+ *
+ * Authenticators that don't implement a counter always report 0. Otherwise the
+ * counter must strictly increase; a regression indicates a cloned authenticator.
+ */
+export function isSignatureCounterValid(storedCounter: number, newCounter: number): boolean {
+	if (storedCounter === 0 && newCounter === 0) {
+		return true;
+	}
+	return newCounter > storedCounter;
+}
+
+function parseTransports(transports: string | null): AuthenticatorTransport[] | undefined {
+	return transports ? (transports.split(',') as AuthenticatorTransport[]) : undefined;
+}
+
+/**
+ * Build the options for navigator.credentials.create()
+ */
+export async function buildRegistrationOptions(
+	rp: RelyingParty,
+	user: { id: number; username: string },
+	existing: StoredPasskey[]
+) {
+	return generateRegistrationOptions({
+		rpName: rp.name,
+		rpID: rp.id,
+		userName: user.username,
+		userID: new TextEncoder().encode(String(user.id)),
+		attestationType: 'none',
+		excludeCredentials: existing.map((passkey) => ({
+			id: passkey.id,
+			transports: parseTransports(passkey.transports)
+		})),
+		authenticatorSelection: {
+			residentKey: 'required',
+			userVerification: 'required'
+		}
+	});
+}
+
+/**
+ * Build the options for navigator.credentials.get()
+ *
+ * No credentials are listed, so the browser offers any discoverable passkey for this site.
+ */
+export async function buildAuthenticationOptions(rp: RelyingParty) {
+	return generateAuthenticationOptions({
+		rpID: rp.id,
+		userVerification: 'required'
+	});
+}
+
+/**
+ * Verify a registration (attestation) response
+ */
+export async function verifyPasskeyRegistration(
+	response: RegistrationResponseJSON,
+	expectedChallenge: string,
+	rp: RelyingParty
+): Promise<
+	| { verified: true; passkey: StoredPasskey & { deviceType: string; backedUp: boolean } }
+	| { verified: false; reason: string }
+> {
+	try {
+		const result = await verifyRegistrationResponse({
+			response,
+			expectedChallenge,
+			expectedOrigin: rp.origin,
+			expectedRPID: rp.id
+		});
+
+		if (!result.verified) {
+			return { verified: false, reason: 'Registration could not be verified' };
+		}
+
+		const { credential, credentialDeviceType, credentialBackedUp } = result.registrationInfo;
+		return {
+			verified: true,
+			passkey: {
+				id: credential.id,
+				publicKey: isoBase64URL.fromBuffer(credential.publicKey),
+				counter: credential.counter,
+				transports: credential.transports?.join(',') || null,
+				deviceType: credentialDeviceType,
+				backedUp: credentialBackedUp
+			}
+		};
+	} catch (error) {
+		return { verified: false, reason: error instanceof Error ? error.message : String(error) };
+	}
+}
+
+/**
+ * Verify an authentication (assertion) response against a stored passkey
+ *
+ * @returns The new signature counter to store on success
+ */
+export async function verifyPasskeyAuthentication(
+	response: AuthenticationResponseJSON,
+	expectedChallenge: string,
+	rp: RelyingParty,
+	passkey: StoredPasskey
+): Promise<{ verified: true; newCounter: number } | { verified: false; reason: string }> {
+	if (response.id !== passkey.id) {
+		return { verified: false, reason: 'Credential ID mismatch' };
+	}
+
+	try {
+		// Check the counter explicitly so a cloned authenticator is reported as such
+		const { counter } = parseAuthenticatorData(isoBase64URL.toBuffer(response.response.authenticatorData));
+		if (!isSignatureCounterValid(passkey.counter, counter)) {
+			return { verified: false, reason: 'Signature counter regression' };
+		}
+
+		const result = await verifyAuthenticationResponse({
+			response,
+			expectedChallenge,
+			expectedOrigin: rp.origin,
+			expectedRPID: rp.id,
+			credential: {
+				id: passkey.id,
+				publicKey: isoBase64URL.toBuffer(passkey.publicKey),
+				counter: passkey.counter,
+				transports: parseTransports(passkey.transports)
+			}
+		});
+
+		if (!result.verified) {
+			return { verified: false, reason: 'Signature could not be verified' };
+		}
+
+		return { verified: true, newCounter: result.authenticationInfo.newCounter };
+	} catch (error) {
+		return { verified: false, reason: error instanceof Error ? error.message : String(error) };
+	}
+}
+
+/**
+ * Store a ceremony challenge
+ *
+ * @returns The raw token to place in the challenge cookie
+ */
+export async function createWebAuthnChallenge(
+	challenge: string,
+	userId: number | null,
+	env?: { DATABASE_URL?: string }
+): Promise<string> {
+	const db = getDb(env);
+	const token = randomBytes(32).toString('hex');
+
+	await db.insert(webauthnChallenges).values({
+		id: hashToken(token),
+		challenge,
+		userId,
+		expiresAt: new Date(Date.now() + CHALLENGE_DURATION)
+	});
+
+	return token;
+}
+
+/**
+ * Look up and delete a ceremony challenge so that it can only be answered once
+ */
+export async function consumeWebAuthnChallenge(
+	token: string,
+	env?: { DATABASE_URL?: string }
+): Promise<{ challenge: string; userId: number | null } | null> {
+	const db = getDb(env);
+	const [row] = await db
+		.delete(webauthnChallenges)
+		.where(and(eq(webauthnChallenges.id, hashToken(token)), gt(webauthnChallenges.expiresAt, new Date())))
+		.returning();
+
+	return row ? { challenge: row.challenge, userId: row.userId } : null;
+}
+
+/**
+ * List the passkeys registered by a user
+ */
+export async function listPasskeys(userId: number, env?: { DATABASE_URL?: string }) {
+	const db = getDb(env);
+	return db.select().from(webauthnCredentials).where(eq(webauthnCredentials.userId, userId));
+}
+
+/**
+ * Find a passkey by credential ID
+ */
+export async function getPasskey(credentialId: string, env?: { DATABASE_URL?: string }) {
+	const db = getDb(env);
+	const [passkey] = await db
+		.select()
+		.from(webauthnCredentials)
+		.where(eq(webauthnCredentials.id, credentialId))
+		.limit(1);
+	return passkey;
+}
+
+/**
+ * Store a newly registered passkey
+ */
+export async function savePasskey(
+	userId: number,
+	passkey: StoredPasskey & { deviceType: string; backedUp: boolean },
+	name: string | undefined,
+	env?: { DATABASE_URL?: string }
+): Promise<void> {
+	const db = getDb(env);
+	await db.insert(webauthnCredentials).values({
+		id: passkey.id,
+		userId,
+		publicKey: passkey.publicKey,
+		counter: passkey.counter,
+		transports: passkey.transports,
+		deviceType: passkey.deviceType,
+		backedUp: passkey.backedUp,
+		name: name || null
+	});
+}
+
+/**
+ * Record a successful authentication with a passkey
+ */
+export async function updatePasskeyCounter(
+	credentialId: string,
+	counter: number,
+	env?: { DATABASE_URL?: string }
+): Promise<void> {
+	const db = getDb(env);
+	await db
+		.update(webauthnCredentials)
+		.set({ counter, lastUsedAt: new Date() })
+		.where(eq(webauthnCredentials.id, credentialId));
+}
+
+/**
+ * Remove one of a user's passkeys
+ *
+ * @returns Whether a passkey was deleted
+ */
+export async function deletePasskey(userId: number, credentialId: string, env?: { DATABASE_URL?: string }): Promise<boolean> {
+	const db = getDb(env);
+	const deleted = await db
+		.delete(webauthnCredentials)
+		.where(and(eq(webauthnCredentials.userId, userId), eq(webauthnCredentials.id, credentialId)))
+		.returning();
+	return deleted.length > 0;
+}
+
+registerExportSection({
+	name: 'passkeys',
+	description: 'Registered passkeys',
+	async collect(userId, env) {
+		return getDb(env)
+			.select({
+				name: webauthnCredentials.name,
+				deviceType: webauthnCredentials.deviceType,
+				backedUp: webauthnCredentials.backedUp,
+				createdAt: webauthnCredentials.createdAt,
+				lastUsedAt: webauthnCredentials.lastUsedAt
+			})
+			.from(webauthnCredentials)
+			.where(eq(webauthnCredentials.userId, userId));
+	}
+});
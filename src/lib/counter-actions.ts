@@ -0,0 +1,201 @@
+/**
+ * Counter actions and settings
+ *
+ * Request bodies are validated against zod schemas. Failures, and actions that
+ * would break a counter's bounds, become 422 responses listing each issue with
+ * the offending field, so clients can show them next to their inputs.
+ *
+ * Relative changes (increment, decrement, add) that pass a bound are clamped to
+ * it, or wrap around to the other bound when the counter's overflow is 'wrap'.
+ * `set` outside the bounds is rejected, and `reset` goes to 0, or the nearest
+ * bound if 0 is out of bounds. Counters without bounds stay within the range
+ * of a PostgreSQL integer.
+ */
+
+import { json } from '@sveltejs/kit';
+import { z } from 'zod';
+
+export const MIN_COUNTER_VALUE = -2147483648;
+export const MAX_COUNTER_VALUE = 2147483647;
+export const MAX_COUNTER_STEP = 1000000;
+export const MAX_COUNTER_NAME_LENGTH = 64;
+
+const counterValueSchema = z
+	.number()
+	.int()
+	.min(MIN_COUNTER_VALUE)
+	.max(MAX_COUNTER_VALUE);
+
+const counterStepSchema = z.number().int().min(1).max(MAX_COUNTER_STEP);
+
+export const counterNameSchema = z
+	.string({ error: 'name is required' })
+	.trim()
+	.min(1, { error: 'name is required' })
+	.max(MAX_COUNTER_NAME_LENGTH, { error: `name must be at most ${MAX_COUNTER_NAME_LENGTH} characters` });
+
+export const counterActionSchema = z.discriminatedUnion('action', [
+	z.object({ action: z.literal('increment') }),
+	z.object({ action: z.literal('decrement') }),
+	z.object({
+		action: z.literal('add'),
+		amount: z.number().int().min(-MAX_COUNTER_STEP).max(MAX_COUNTER_STEP)
+	}),
+	z.object({ action: z.literal('set'), value: counterValueSchema }),
+	z.object({ action: z.literal('reset') })
+], { error: 'action must be one of increment, decrement, add, set or reset' });
+
+export const counterOverflowSchema = z.enum(['clamp', 'wrap']);
+
+/**
+ * Changes to a counter's name and settings; omitted fields stay as they are
+ */
+export const counterSettingsSchema = z
+	.strictObject({
+		name: counterNameSchema.optional(),
+		step: counterStepSchema.optional(),
+		minValue: counterValueSchema.nullable().optional(),
+		maxValue: counterValueSchema.nullable().optional(),
+		overflow: counterOverflowSchema.optional()
+	})
+	.refine((settings) => Object.keys(settings).length > 0, { error: 'Nothing to update' });
+
+export type CounterActionRequest = z.infer<typeof counterActionSchema>;
+export type CounterAction = CounterActionRequest['action'];
+export type CounterOverflow = z.infer<typeof counterOverflowSchema>;
+export type CounterSettingsUpdate = z.infer<typeof counterSettingsSchema>;
+
+/**
+ * How a counter's value may change, as stored on the counter
+ */
+export interface CounterSettings {
+	step: number;
+	minValue: number | null;
+	maxValue: number | null;
+	overflow: CounterOverflow;
+}
+
+/**
+ * The settings of a new counter, matching the column defaults
+ */
+export const DEFAULT_COUNTER_SETTINGS: CounterSettings = { step: 1, minValue: null, maxValue: null, overflow: 'clamp' };
+
+export interface CounterValidationIssue {
+	/** The offending field, e.g. `amount`; empty for the body as a whole */
+	path: string;
+	code: string;
+	message: string;
+}
+
+export type CounterValidationResult<T> = { data: T } | { issues: CounterValidationIssue[] };
+
+function toValidationIssues(error: z.ZodError): CounterValidationIssue[] {
+	return error.issues.map((issue) => ({
+		path: issue.path.map(String).join('.'),
+		code: issue.code,
+		message: issue.message
+	}));
+}
+
+function parseWith<T>(schema: z.ZodType<T>, body: unknown): CounterValidationResult<T> {
+	const result = schema.safeParse(body);
+	return result.success ? { data: result.data } : { issues: toValidationIssues(result.error) };
+}
+
+/**
+ * Read a JSON request body; malformed JSON becomes an issue rather than an exception
+ */
+export async function readJsonBody(request: Request): Promise<CounterValidationResult<unknown>> {
+	try {
+		return { data: await request.json() };
+	} catch {
+		return { issues: [{ path: '', code: 'invalid_json', message: 'Request body must be valid JSON' }] };
+	}
+}
+
+export function parseCounterAction(body: unknown): CounterValidationResult<CounterActionRequest> {
+	return parseWith(counterActionSchema, body);
+}
+
+export function parseCounterSettings(body: unknown): CounterValidationResult<CounterSettingsUpdate> {
+	return parseWith(counterSettingsSchema, body);
+}
+
+/**
+ * The 422 response for a request that failed validation
+ */
+export function validationErrorResponse(issues: CounterValidationIssue[]): Response {
+	return json({ error: issues[0]?.message ?? 'Validation failed', issues }, { status: 422 });
+}
+
+/**
+ * The bounds a value must stay within; missing bounds are the integer range
+ */
+export function getCounterBounds(settings: CounterSettings): { min: number; max: number } {
+	return {
+		min: settings.minValue ?? MIN_COUNTER_VALUE,
+		max: settings.maxValue ?? MAX_COUNTER_VALUE
+	};
+}
+
+/**
+ * Check settings against each other and against the counter's current value
+ */
+export function validateCounterSettings(settings: CounterSettings, value: number): CounterValidationIssue[] {
+	const { min, max } = getCounterBounds(settings);
+
+	if (min > max) {
+		return [{ path: 'minValue', code: 'invalid_bounds', message: 'minValue must not be greater than maxValue' }];
+	}
+	if (settings.overflow === 'wrap' && (settings.minValue === null || settings.maxValue === null)) {
+		return [{ path: 'overflow', code: 'bounds_required', message: 'Wrapping around requires minValue and maxValue' }];
+	}
+	if (value < min || value > max) {
+		return [{
+			path: value < min ? 'minValue' : 'maxValue',
+			code: 'value_out_of_bounds',
+			message: `The current value ${value} is outside the bounds; set it within ${min} and ${max} first`
+		}];
+	}
+	return [];
+}
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.min(Math.max(value, min), max);
+}
+
+function wrap(value: number, min: number, max: number): number {
+	const range = max - min + 1;
+	return min + ((((value - min) % range) + range) % range);
+}
+
+/**
+ * Compute a counter's value after an action
+ *
+ * @returns The new value, or the issues if the action breaks the counter's bounds
+ */
+export function applyCounterAction(
+	value: number,
+	request: CounterActionRequest,
+	settings: CounterSettings
+): CounterValidationResult<number> {
+	const { min, max } = getCounterBounds(settings);
+
+	switch (request.action) {
+		case 'set':
+			if (request.value < min || request.value > max) {
+				return {
+					issues: [{ path: 'value', code: 'value_out_of_bounds', message: `value must be between ${min} and ${max}` }]
+				};
+			}
+			return { data: request.value };
+		case 'reset':
+			return { data: clamp(0, min, max) };
+		default: {
+			const delta =
+				request.action === 'add' ? request.amount : request.action === 'increment' ? settings.step : -settings.step;
+			const target = value + delta;
+			return { data: settings.overflow === 'wrap' ? wrap(target, min, max) : clamp(target, min, max) };
+		}
+	}
+}
@@ -0,0 +1,92 @@
+/**
+ * The handler behind POST /api/counter/undo and POST /api/counter/redo
+ *
+ * Undo and redo change a counter's value like any other action, so they share
+ * the rate limit of POST /api/counter.
+ */
+
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { wrapDatabaseQuery } from '$lib/telemetry';
+import { checkRateLimit, rateLimitExceededResponse } from '$lib/rate-limit';
+import { hasScope } from '$lib/auth/api-tokens';
+import {
+	applyUndo,
+	getCounterChangeContext,
+	getDefaultCounter,
+	getUndoState,
+	parseCounterId,
+	toCounterResponse,
+	type UndoDirection
+} from '$lib/counters';
+
+const UNDO_MESSAGES: Record<UndoDirection, { log: string; unavailable: string; failed: string }> = {
+	undo: { log: 'Undo counter error:', unavailable: 'Nothing to undo', failed: 'Undoing counter change failed' },
+	redo: { log: 'Redo counter error:', unavailable: 'Nothing to redo', failed: 'Redoing counter change failed' }
+};
+
+/**
+ * Create the POST handler that undoes or redoes the last change of a counter
+ *
+ * Body (optional): { counter: id }, defaults to the default counter.
+ */
+export function createUndoHandler(direction: UndoDirection): RequestHandler {
+	const messages = UNDO_MESSAGES[direction];
+
+	return async ({ request, locals, platform }) => {
+		if (!locals.userId) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		if (!hasScope(locals, 'counter:write')) {
+			return json({ error: 'Insufficient scope', requiredScope: 'counter:write' }, { status: 403 });
+		}
+
+		const userId = locals.userId;
+
+		const rateLimitResult = await checkRateLimit(userId, platform?.env);
+		if (!rateLimitResult.success) {
+			return rateLimitExceededResponse(rateLimitResult);
+		}
+
+		const telemetryContext = {
+			userId,
+			sessionId: locals.telemetryContext?.sessionId,
+			distinctId: locals.telemetryContext?.distinctId
+		};
+
+		try {
+			const body = await request.json().catch(() => ({}));
+			const counterId = body?.counter === undefined ? undefined : parseCounterId(String(body.counter));
+			if (counterId === null) {
+				return json({ error: 'counter must be a counter ID' }, { status: 400 });
+			}
+
+			const targetId = counterId ?? (await getDefaultCounter(userId, platform?.env)).id;
+			const result = await wrapDatabaseQuery(
+				() => applyUndo(userId, targetId, direction, getCounterChangeContext(userId, locals), platform?.env),
+				'counters',
+				'UPDATE',
+				telemetryContext,
+				platform?.env
+			);
+
+			if (result === 'not_found') {
+				return json({ error: 'Counter not found' }, { status: 404 });
+			}
+
+			const undo = await getUndoState(targetId, platform?.env);
+			if (result === 'unavailable') {
+				return json({ error: messages.unavailable, undo }, { status: 409 });
+			}
+
+			return json({ counter: toCounterResponse(result), undo });
+		} catch (error: any) {
+			console.error(messages.log, {
+				message: error?.message || String(error),
+				code: error?.code,
+				name: error?.name
+			});
+			return json({ error: messages.failed }, { status: 500 });
+		}
+	};
+}
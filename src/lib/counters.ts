@@ -0,0 +1,770 @@
+/**
+ * Named counters
+ *
+ * Users own any number of counters, shown in the order of their `position`.
+ * One of them is flagged as the user's default, which the original
+ * single-counter endpoint `/api/counter` still serves; it is created on first
+ * use. When the default is deleted, the oldest remaining counter takes over.
+ *
+ * Value changes are single statements that compute the new value within the
+ * counter's bounds in SQL (see $lib/counter-actions for the rules), so
+ * concurrent updates are never lost. A partial unique index allows one default
+ * counter per user, so concurrent first requests create a single one.
+ *
+ * Each value change appends a row to counter_events in the same transaction,
+ * recording who made it and in which request.
+ *
+ * Changes also go onto the counter's undo stack (counter_operations) and can be
+ * undone and redone within COUNTER_UNDO_WINDOW_SECONDS of the original change.
+ * A new change discards the redo stack, and new bounds discard the whole stack.
+ * Undo and redo lock the counter row as well.
+ *
+ * Every function is scoped to the owning user, so a counter ID from another
+ * account behaves as if it did not exist.
+ */
+
+import { and, asc, count, desc, eq, isNotNull, isNull, lt, max, or, sql, type SQL } from 'drizzle-orm';
+import { getDb } from '$lib/db';
+import { counterEvents, counterOperations, counters } from '$lib/db/schema';
+import { registerExportSection } from '$lib/data-export';
+import {
+	applyCounterAction,
+	counterNameSchema,
+	DEFAULT_COUNTER_SETTINGS,
+	MAX_COUNTER_VALUE,
+	MIN_COUNTER_VALUE,
+	validateCounterSettings,
+	type CounterAction,
+	type CounterActionRequest,
+	type CounterSettingsUpdate,
+	type CounterValidationIssue
+} from '$lib/counter-actions';
+
+export { MAX_COUNTER_NAME_LENGTH } from '$lib/counter-actions';
+
+export const DEFAULT_COUNTER_NAME = 'Default';
+export const MAX_COUNTERS_PER_USER = 50;
+export const DEFAULT_HISTORY_PAGE_SIZE = 20;
+export const MAX_HISTORY_PAGE_SIZE = 100;
+export const DEFAULT_UNDO_WINDOW_SECONDS = 300;
+export const MAX_UNDO_WINDOW_SECONDS = 86400;
+
+export type Counter = typeof counters.$inferSelect;
+export type CounterEvent = typeof counterEvents.$inferSelect;
+export type UndoDirection = 'undo' | 'redo';
+
+export interface UndoState {
+	canUndo: boolean;
+	canRedo: boolean;
+}
+
+/**
+ * Who made a change and in which request, recorded in the counter's history
+ */
+export interface CounterChangeContext {
+	/** The acting user: the owner, or the admin while impersonating */
+	actorUserId: number;
+	requestId?: string;
+}
+
+export interface CounterHistoryQuery {
+	/** Defaults to the user's default counter */
+	counterId?: number;
+	/** ID of the last event of the previous page */
+	cursor?: number;
+	limit: number;
+}
+
+type CountersEnv = { DATABASE_URL?: string; COUNTER_UNDO_WINDOW_SECONDS?: string };
+
+type Transaction = Parameters<Parameters<ReturnType<typeof getDb>['transaction']>[0]>[0];
+
+/**
+ * Validate a counter name from a request body
+ */
+export function parseCounterName(name: unknown): { name: string } | { error: string } {
+	const result = counterNameSchema.safeParse(name);
+	return result.success ? { name: result.data } : { error: result.error.issues[0].message };
+}
+
+/**
+ * Parse a counter ID route parameter
+ */
+export function parseCounterId(param: string): number | null {
+	return /^\d+$/.test(param) && Number(param) > 0 && Number(param) <= 2147483647 ? Number(param) : null;
+}
+
+/**
+ * The fields returned by the API
+ */
+export function toCounterResponse(counter: Counter) {
+	return {
+		id: counter.id,
+		name: counter.name,
+		value: counter.value,
+		step: counter.step,
+		minValue: counter.minValue,
+		maxValue: counter.maxValue,
+		overflow: counter.overflow,
+		position: counter.position,
+		createdAt: counter.createdAt,
+		updatedAt: counter.updatedAt
+	};
+}
+
+/**
+ * The change context of a request authenticated as `userId`
+ */
+export function getCounterChangeContext(userId: number, locals: App.Locals): CounterChangeContext {
+	return { actorUserId: locals.impersonatorId ?? userId, requestId: locals.requestId };
+}
+
+/**
+ * The history row for a change that produced `counter`
+ */
+function toCounterEventValues(
+	counter: Counter,
+	action: CounterAction | UndoDirection,
+	delta: number,
+	context: CounterChangeContext
+) {
+	return {
+		counterId: counter.id,
+		userId: context.actorUserId,
+		action,
+		delta,
+		oldValue: counter.value - delta,
+		newValue: counter.value,
+		requestId: context.requestId ?? null
+	};
+}
+
+/**
+ * How long after a change it can still be undone or redone; 0 disables undo
+ */
+export function getUndoWindowSeconds(env?: CountersEnv): number {
+	const value = env?.COUNTER_UNDO_WINDOW_SECONDS || (typeof process !== 'undefined' ? process.env.COUNTER_UNDO_WINDOW_SECONDS : undefined);
+	const parsed = Number.parseInt(value || '', 10);
+	return Number.isFinite(parsed) ? Math.min(Math.max(parsed, 0), MAX_UNDO_WINDOW_SECONDS) : DEFAULT_UNDO_WINDOW_SECONDS;
+}
+
+/**
+ * Whether a change made at `createdAt` is still within the undo window
+ */
+export function isWithinUndoWindow(createdAt: Date, windowSeconds: number, now = Date.now()): boolean {
+	return now - createdAt.getTime() < windowSeconds * 1000;
+}
+
+/**
+ * Put a change onto the counter's undo stack
+ *
+ * Clears the redo stack and drops operations that left the undo window.
+ */
+async function pushOperation(tx: Transaction, counterId: number, delta: number, env?: CountersEnv) {
+	const windowSeconds = getUndoWindowSeconds(env);
+	const now = new Date();
+
+	await tx
+		.delete(counterOperations)
+		.where(
+			and(
+				eq(counterOperations.counterId, counterId),
+				or(
+					isNotNull(counterOperations.undoneAt),
+					lt(counterOperations.createdAt, new Date(now.getTime() - windowSeconds * 1000))
+				)
+			)
+		);
+
+	if (windowSeconds > 0) {
+		await tx.insert(counterOperations).values({ counterId, delta, createdAt: now });
+	}
+}
+
+/**
+ * The operation undo or redo would apply next
+ *
+ * Undo takes the newest applied operation, redo the oldest undone one, which is
+ * the one undone last. Only that operation is considered: once it has left the
+ * window, older ones cannot be undone or redone without breaking the order.
+ */
+function selectNextOperation(db: Transaction | ReturnType<typeof getDb>, counterId: number, direction: UndoDirection) {
+	return db
+		.select()
+		.from(counterOperations)
+		.where(
+			and(
+				eq(counterOperations.counterId, counterId),
+				direction === 'undo' ? isNull(counterOperations.undoneAt) : isNotNull(counterOperations.undoneAt)
+			)
+		)
+		.orderBy(direction === 'undo' ? desc(counterOperations.id) : asc(counterOperations.id))
+		.limit(1);
+}
+
+/**
+ * Whether the counter has a change to undo or redo
+ *
+ * Not scoped to a user: check that the counter belongs to the user first.
+ */
+export async function getUndoState(counterId: number, env?: CountersEnv): Promise<UndoState> {
+	const db = getDb(env);
+	const windowSeconds = getUndoWindowSeconds(env);
+	const [[lastApplied], [lastUndone]] = await Promise.all([
+		selectNextOperation(db, counterId, 'undo'),
+		selectNextOperation(db, counterId, 'redo')
+	]);
+
+	return {
+		canUndo: !!lastApplied && isWithinUndoWindow(lastApplied.createdAt, windowSeconds),
+		canRedo: !!lastUndone && isWithinUndoWindow(lastUndone.createdAt, windowSeconds)
+	};
+}
+
+/**
+ * Undo the counter's last change, or redo the last undone one
+ *
+ * Applies the inverse (or original) delta and records it in the history as an
+ * 'undo' or 'redo' event.
+ *
+ * @returns The updated counter, 'not_found' if the user has no such counter,
+ *          or 'unavailable' if there is nothing to undo or redo within the window
+ */
+export async function applyUndo(
+	userId: number,
+	counterId: number,
+	direction: UndoDirection,
+	context: CounterChangeContext,
+	env?: CountersEnv
+): Promise<Counter | 'not_found' | 'unavailable'> {
+	const db = getDb(env);
+	const windowSeconds = getUndoWindowSeconds(env);
+
+	return db.transaction(async (tx) => {
+		const [owned] = await selectCounterForUpdate(tx, userId, counterId);
+
+		if (!owned) {
+			return 'not_found';
+		}
+
+		const [operation] = await selectNextOperation(tx, counterId, direction);
+		if (!operation || !isWithinUndoWindow(operation.createdAt, windowSeconds)) {
+			return 'unavailable';
+		}
+
+		const delta = direction === 'undo' ? -operation.delta : operation.delta;
+		await tx
+			.update(counterOperations)
+			.set({ undoneAt: direction === 'undo' ? new Date() : null })
+			.where(eq(counterOperations.id, operation.id));
+
+		const [updated] = await tx
+			.update(counters)
+			.set({ value: sql`${counters.value} + ${delta}`, updatedAt: new Date() })
+			.where(eq(counters.id, counterId))
+			.returning();
+
+		await tx.insert(counterEvents).values(toCounterEventValues(updated, direction, delta, context));
+		return updated;
+	});
+}
+
+/**
+ * List a user's counters in display order
+ */
+export async function listCounters(userId: number, env?: CountersEnv): Promise<Counter[]> {
+	const db = getDb(env);
+	return db
+		.select()
+		.from(counters)
+		.where(eq(counters.userId, userId))
+		.orderBy(asc(counters.position), asc(counters.id));
+}
+
+export async function getCounter(userId: number, counterId: number, env?: CountersEnv): Promise<Counter | undefined> {
+	const db = getDb(env);
+	const [counter] = await db
+		.select()
+		.from(counters)
+		.where(and(eq(counters.id, counterId), eq(counters.userId, userId)))
+		.limit(1);
+
+	return counter;
+}
+
+function selectDefaultCounter(userId: number, env?: CountersEnv) {
+	return getDb(env)
+		.select()
+		.from(counters)
+		.where(and(eq(counters.userId, userId), eq(counters.isDefault, true)))
+		.limit(1);
+}
+
+/**
+ * Get the user's default counter, creating it if the user has none
+ */
+export async function getDefaultCounter(userId: number, env?: CountersEnv): Promise<Counter> {
+	const [counter] = await selectDefaultCounter(userId, env);
+	if (counter) {
+		return counter;
+	}
+
+	// A concurrent request may create it first; the unique index keeps a single default
+	const db = getDb(env);
+	const [created] = await db
+		.insert(counters)
+		.values({ userId, name: DEFAULT_COUNTER_NAME, isDefault: true })
+		.onConflictDoNothing({ target: counters.userId, where: sql`${counters.isDefault}` })
+		.returning();
+
+	return created ?? (await selectDefaultCounter(userId, env))[0];
+}
+
+/**
+ * Apply an action to the user's default counter, creating it if needed
+ *
+ * A new default counter starts at 0 with the default settings and is inserted
+ * with the action already applied; otherwise the existing one is updated.
+ *
+ * @returns As updateCounterValue; undefined only if the default counter was deleted meanwhile
+ */
+export async function updateDefaultCounterValue(
+	userId: number,
+	request: CounterActionRequest,
+	context: CounterChangeContext,
+	env?: CountersEnv
+): Promise<Counter | { issues: CounterValidationIssue[] } | undefined> {
+	const db = getDb(env);
+	const initial = applyCounterAction(0, request, DEFAULT_COUNTER_SETTINGS);
+	if ('issues' in initial) {
+		return initial;
+	}
+
+	return db.transaction(async (tx) => {
+		// A concurrent request may create it first; the unique index keeps a single default
+		const [created] = await tx
+			.insert(counters)
+			.values({ userId, name: DEFAULT_COUNTER_NAME, isDefault: true, value: initial.data })
+			.onConflictDoNothing({ target: counters.userId, where: sql`${counters.isDefault}` })
+			.returning();
+
+		if (created) {
+			await recordValueChange(tx, created, request.action, created.value, context, env);
+			return created;
+		}
+
+		return applyActionInTransaction(
+			tx,
+			and(eq(counters.userId, userId), eq(counters.isDefault, true)),
+			request,
+			context,
+			env
+		);
+	});
+}
+
+/**
+ * Create a counter at the end of the user's list
+ *
+ * @returns The new counter, or null if the user already has MAX_COUNTERS_PER_USER counters
+ */
+export async function createCounter(userId: number, name: string, env?: CountersEnv): Promise<Counter | null> {
+	const db = getDb(env);
+
+	return db.transaction(async (tx) => {
+		const [existing] = await tx
+			.select({ total: count(), lastPosition: max(counters.position) })
+			.from(counters)
+			.where(eq(counters.userId, userId));
+
+		if (existing.total >= MAX_COUNTERS_PER_USER) {
+			return null;
+		}
+
+		const [created] = await tx
+			.insert(counters)
+			.values({
+				userId,
+				name,
+				position: existing.lastPosition === null ? 0 : existing.lastPosition + 1,
+				isDefault: existing.total === 0
+			})
+			.returning();
+
+		return created;
+	});
+}
+
+function selectCounterForUpdate(tx: Transaction, userId: number, counterId: number) {
+	return tx
+		.select()
+		.from(counters)
+		.where(and(eq(counters.id, counterId), eq(counters.userId, userId)))
+		.for('update');
+}
+
+/**
+ * Rename a counter or change its step, bounds and overflow
+ *
+ * Changing the bounds or overflow discards the undo stack, which could
+ * otherwise restore a value outside the new bounds.
+ *
+ * @returns The updated counter, the issues if the settings are inconsistent with
+ *          each other or the current value, or undefined if the user has no such counter
+ */
+export async function updateCounterSettings(
+	userId: number,
+	counterId: number,
+	update: CounterSettingsUpdate,
+	env?: CountersEnv
+): Promise<Counter | { issues: CounterValidationIssue[] } | undefined> {
+	const db = getDb(env);
+
+	return db.transaction(async (tx) => {
+		const [counter] = await selectCounterForUpdate(tx, userId, counterId);
+		if (!counter) {
+			return undefined;
+		}
+
+		const issues = validateCounterSettings({ ...counter, ...update }, counter.value);
+		if (issues.length > 0) {
+			return { issues };
+		}
+
+		const [updated] = await tx
+			.update(counters)
+			.set({ ...update, updatedAt: new Date() })
+			.where(eq(counters.id, counterId))
+			.returning();
+
+		if (update.minValue !== undefined || update.maxValue !== undefined || update.overflow !== undefined) {
+			await tx.delete(counterOperations).where(eq(counterOperations.counterId, counterId));
+		}
+		return updated;
+	});
+}
+
+/**
+ * Delete a counter; the user's last counter cannot be deleted
+ *
+ * Deleting the default counter makes the oldest remaining counter the default.
+ */
+export async function deleteCounter(
+	userId: number,
+	counterId: number,
+	env?: CountersEnv
+): Promise<'deleted' | 'not_found' | 'last_counter'> {
+	const db = getDb(env);
+
+	return db.transaction(async (tx) => {
+		const owned = await tx
+			.select({ id: counters.id, isDefault: counters.isDefault })
+			.from(counters)
+			.where(eq(counters.userId, userId))
+			.orderBy(asc(counters.id));
+
+		const counter = owned.find((candidate) => candidate.id === counterId);
+		if (!counter) {
+			return 'not_found';
+		}
+		if (owned.length === 1) {
+			return 'last_counter';
+		}
+
+		await tx.delete(counters).where(and(eq(counters.id, counterId), eq(counters.userId, userId)));
+
+		if (counter.isDefault) {
+			const successor = owned.find((candidate) => candidate.id !== counterId)!;
+			await tx.update(counters).set({ isDefault: true }).where(eq(counters.id, successor.id));
+		}
+		return 'deleted';
+	});
+}
+
+/**
+ * Check that a requested order lists each of the user's counters exactly once
+ */
+export function isCompleteOrder(counterIds: unknown, ownedIds: number[]): counterIds is number[] {
+	if (!Array.isArray(counterIds) || counterIds.length !== ownedIds.length) {
+		return false;
+	}
+	const requested = new Set(counterIds);
+	return requested.size === ownedIds.length && ownedIds.every((id) => requested.has(id));
+}
+
+/**
+ * Put the user's counters into the given order
+ *
+ * @param counterIds - All of the user's counter IDs, in the new order
+ * @returns The reordered counters, or null if the IDs do not match the user's counters
+ */
+export async function reorderCounters(userId: number, counterIds: unknown, env?: CountersEnv): Promise<Counter[] | null> {
+	const db = getDb(env);
+
+	const reordered = await db.transaction(async (tx) => {
+		const owned = await tx
+			.select({ id: counters.id })
+			.from(counters)
+			.where(eq(counters.userId, userId));
+
+		if (!isCompleteOrder(counterIds, owned.map((counter) => counter.id))) {
+			return false;
+		}
+
+		for (const [position, id] of counterIds.entries()) {
+			await tx
+				.update(counters)
+				.set({ position })
+				.where(and(eq(counters.id, id), eq(counters.userId, userId)));
+		}
+		return true;
+	});
+
+	return reordered ? listCounters(userId, env) : null;
+}
+
+/**
+ * Apply an action to a counter within its bounds
+ *
+ * An action that leaves the value unchanged, e.g. an increment at a clamped
+ * maximum, is not recorded in the history or the undo stack.
+ *
+ * @returns The updated counter, the issues if the action breaks the counter's
+ *          bounds, or undefined if the user has no such counter
+ */
+export async function updateCounterValue(
+	userId: number,
+	counterId: number,
+	request: CounterActionRequest,
+	context: CounterChangeContext,
+	env?: CountersEnv
+): Promise<Counter | { issues: CounterValidationIssue[] } | undefined> {
+	const db = getDb(env);
+
+	return db.transaction(async (tx) => {
+		return applyActionInTransaction(
+			tx,
+			and(eq(counters.id, counterId), eq(counters.userId, userId)),
+			request,
+			context,
+			env
+		);
+	});
+}
+
+/**
+ * The bounds of the counter row being updated, as SQL
+ */
+function counterBoundsSql(): { min: SQL; max: SQL } {
+	return {
+		min: sql`coalesce(${counters.minValue}, ${MIN_COUNTER_VALUE})::bigint`,
+		max: sql`coalesce(${counters.maxValue}, ${MAX_COUNTER_VALUE})::bigint`
+	};
+}
+
+/**
+ * A counter's value after an action, computed in SQL from the row being updated
+ *
+ * Follows the same rules as applyCounterAction. The arithmetic is done in
+ * bigint so that `value + delta` cannot overflow before it is clamped or wrapped.
+ */
+function counterValueSql(request: CounterActionRequest): SQL {
+	const { min, max } = counterBoundsSql();
+
+	switch (request.action) {
+		case 'set':
+			return sql`${request.value}`;
+		case 'reset':
+			return sql`least(greatest(0, ${min}), ${max})::integer`;
+		default: {
+			const delta =
+				request.action === 'add'
+					? sql`${request.amount}`
+					: request.action === 'increment'
+						? sql`${counters.step}`
+						: sql`-${counters.step}`;
+			const target = sql`(${counters.value}::bigint + ${delta})`;
+			const range = sql`(${max} - ${min} + 1)`;
+			return sql`(case when ${counters.overflow} = 'wrap'
+				then ${min} + (((${target} - ${min}) % ${range}) + ${range}) % ${range}
+				else least(greatest(${target}, ${min}), ${max})
+			end)::integer`;
+		}
+	}
+}
+
+/**
+ * Record a value change in the history and on the undo stack; unchanged values are not recorded
+ */
+async function recordValueChange(
+	tx: Transaction,
+	counter: Counter,
+	action: CounterAction,
+	delta: number,
+	context: CounterChangeContext,
+	env?: CountersEnv
+) {
+	if (delta === 0) {
+		return;
+	}
+	await tx.insert(counterEvents).values(toCounterEventValues(counter, action, delta, context));
+	await pushOperation(tx, counter.id, delta, env);
+}
+
+/**
+ * Apply an action to the counter matching `filter` in a single UPDATE
+ *
+ * The counter row is locked in a subquery of the same statement, which returns
+ * the value before the change for the history.
+ */
+async function applyActionInTransaction(
+	tx: Transaction,
+	filter: SQL | undefined,
+	request: CounterActionRequest,
+	context: CounterChangeContext,
+	env?: CountersEnv
+): Promise<Counter | { issues: CounterValidationIssue[] } | undefined> {
+	const previous = tx
+		.select({ id: counters.id, value: counters.value })
+		.from(counters)
+		.where(filter)
+		.for('update')
+		.as('previous');
+
+	// `set` outside the bounds leaves the counter as it is
+	const { min, max } = counterBoundsSql();
+	const inBounds = request.action === 'set' ? sql`${request.value} between ${min} and ${max}` : undefined;
+
+	const [row] = await tx
+		.update(counters)
+		.set({ value: counterValueSql(request), updatedAt: new Date() })
+		.from(previous)
+		.where(and(eq(counters.id, previous.id), inBounds))
+		.returning();
+
+	if (!row) {
+		if (request.action !== 'set') {
+			return undefined;
+		}
+		// Tell a missing counter apart from a value outside its bounds
+		const [counter] = await tx.select().from(counters).where(filter).limit(1);
+		if (!counter) {
+			return undefined;
+		}
+		const result = applyCounterAction(counter.value, request, counter);
+		return 'issues' in result ? result : counter;
+	}
+
+	const { previous: before, ...updated } = row;
+	await recordValueChange(tx, updated, request.action, updated.value - before.value, context, env);
+	return updated;
+}
+
+function parsePositiveInteger(value: string): number | null {
+	return /^\d+$/.test(value) && Number(value) > 0 ? Number(value) : null;
+}
+
+/**
+ * Read the counter and pagination from query parameters: counter, cursor and limit
+ */
+export function parseCounterHistoryQuery(params: URLSearchParams): { query: CounterHistoryQuery } | { error: string } {
+	const query: CounterHistoryQuery = { limit: DEFAULT_HISTORY_PAGE_SIZE };
+
+	const counter = params.get('counter');
+	if (counter !== null) {
+		const counterId = parseCounterId(counter);
+		if (counterId === null) return { error: 'counter must be a counter ID' };
+		query.counterId = counterId;
+	}
+
+	const cursor = params.get('cursor');
+	if (cursor !== null) {
+		const id = parsePositiveInteger(cursor);
+		if (id === null) return { error: 'Invalid cursor' };
+		query.cursor = id;
+	}
+
+	const limit = params.get('limit');
+	if (limit !== null) {
+		const value = parsePositiveInteger(limit);
+		if (value === null || value > MAX_HISTORY_PAGE_SIZE) {
+			return { error: `limit must be between 1 and ${MAX_HISTORY_PAGE_SIZE}` };
+		}
+		query.limit = value;
+	}
+
+	return { query };
+}
+
+/**
+ * List a counter's changes, newest first
+ *
+ * Not scoped to a user: check that the counter belongs to the user first.
+ *
+ * @returns A page of events and the cursor for the next page (null on the last page)
+ */
+export async function listCounterEvents(
+	counterId: number,
+	query: Pick<CounterHistoryQuery, 'cursor' | 'limit'>,
+	env?: CountersEnv
+): Promise<{ events: CounterEvent[]; nextCursor: string | null }> {
+	const db = getDb(env);
+	// One extra row tells whether there is a next page
+	const rows = await db
+		.select()
+		.from(counterEvents)
+		.where(
+			query.cursor !== undefined
+				? and(eq(counterEvents.counterId, counterId), lt(counterEvents.id, query.cursor))
+				: eq(counterEvents.counterId, counterId)
+		)
+		.orderBy(desc(counterEvents.id))
+		.limit(query.limit + 1);
+
+	const events = rows.slice(0, query.limit);
+	const nextCursor = rows.length > query.limit ? String(events[events.length - 1].id) : null;
+
+	return { events, nextCursor };
+}
+
+registerExportSection({
+	name: 'counters',
+	description: 'Your counters',
+	async collect(userId, env) {
+		return getDb(env)
+			.select({
+				id: counters.id,
+				name: counters.name,
+				position: counters.position,
+				value: counters.value,
+				step: counters.step,
+				minValue: counters.minValue,
+				maxValue: counters.maxValue,
+				overflow: counters.overflow,
+				createdAt: counters.createdAt,
+				updatedAt: counters.updatedAt
+			})
+			.from(counters)
+			.where(eq(counters.userId, userId));
+	}
+});
+
+registerExportSection({
+	name: 'counter_history',
+	description: 'Changes to your counters',
+	async collect(userId, env) {
+		return getDb(env)
+			.select({
+				counterId: counterEvents.counterId,
+				action: counterEvents.action,
+				delta: counterEvents.delta,
+				oldValue: counterEvents.oldValue,
+				newValue: counterEvents.newValue,
+				createdAt: counterEvents.createdAt
+			})
+			.from(counterEvents)
+			.innerJoin(counters, eq(counterEvents.counterId, counters.id))
+			.where(eq(counters.userId, userId))
+			.orderBy(counterEvents.id);
+	}
+});
@@ -0,0 +1,34 @@
+import { CSRF_COOKIE, CSRF_HEADER, isSafeMethod } from '$lib/csrf';
+
+function readCsrfCookie(): string | undefined {
+	const prefix = `${CSRF_COOKIE}=`;
+	return document.cookie
+		.split('; ')
+		.find((cookie) => cookie.startsWith(prefix))
+		?.slice(prefix.length);
+}
+
+/**
+ * Make `fetch` send the double-submit token on state-changing same-origin requests
+ *
+ * Installed once from `hooks.client.ts`, so pages don't have to pass the header
+ * themselves. Does nothing unless the server set the csrf_token cookie.
+ */
+export function installCsrfFetch(): void {
+	const originalFetch = window.fetch.bind(window);
+
+	window.fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
+		const token = readCsrfCookie();
+		if (!token) {
+			return originalFetch(input, init);
+		}
+
+		const request = new Request(input, init);
+		if (isSafeMethod(request.method) || new URL(request.url).origin !== window.location.origin) {
+			return originalFetch(input, init);
+		}
+
+		request.headers.set(CSRF_HEADER, token);
+		return originalFetch(request);
+	}) as typeof fetch;
+}
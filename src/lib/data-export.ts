@@ -0,0 +1,111 @@
+/**
+ * Personal data export (GDPR data subject access requests)
+ *
+ * The export is assembled from a registry of sections, one per kind of user
+ * data. Each feature module registers the sections for the tables it owns,
+ * next to its other queries, so new features (history, audit logs, ...) extend
+ * the export without touching this module. Sections must leave out
+ * credentials: password hashes, TOTP secrets and token digests are never
+ * exported.
+ *
+ * Modules register their sections when they are loaded; the export endpoint
+ * loads every module that holds user data.
+ */
+
+import { createZip } from '$lib/zip';
+
+// Bumped when the export layout changes incompatibly
+const EXPORT_FORMAT_VERSION = 1;
+
+type ExportEnv = { DATABASE_URL?: string };
+
+/**
+ * One part of the export, e.g. a table's rows for the user
+ */
+export interface DataExportSection {
+	/** Key in the JSON export and file name (`<name>.json`) in the ZIP export */
+	name: string;
+	description: string;
+	collect(userId: number, env?: ExportEnv): Promise<unknown>;
+}
+
+export interface DataExport {
+	format: 'svelte-bun-data-export';
+	version: number;
+	exportedAt: string;
+	userId: number;
+	sections: Record<string, { description: string; data: unknown }>;
+}
+
+const exportSections = new Map<string, DataExportSection>();
+
+/**
+ * Add a section to the export, replacing any section with the same name
+ */
+export function registerExportSection(section: DataExportSection): void {
+	exportSections.set(section.name, section);
+}
+
+/**
+ * Get the registered sections, in registration order
+ */
+export function getExportSections(): DataExportSection[] {
+	return [...exportSections.values()];
+}
+
+/**
+ * Collect a user's data from every section
+ */
+export async function buildDataExport(
+	userId: number,
+	env?: ExportEnv,
+	sections: DataExportSection[] = getExportSections()
+): Promise<DataExport> {
+	const result: DataExport = {
+		format: 'svelte-bun-data-export',
+		version: EXPORT_FORMAT_VERSION,
+		exportedAt: new Date().toISOString(),
+		userId,
+		sections: {}
+	};
+
+	for (const section of sections) {
+		result.sections[section.name] = {
+			description: section.description,
+			data: await section.collect(userId, env)
+		};
+	}
+
+	return result;
+}
+
+/**
+ * Package an export as a ZIP archive: a manifest plus one JSON file per section
+ */
+export function createDataExportZip(dataExport: DataExport): Uint8Array<ArrayBuffer> {
+	const { sections, ...manifest } = dataExport;
+
+	return createZip(
+		[
+			{
+				name: 'manifest.json',
+				data: JSON.stringify(
+					{
+						...manifest,
+						files: Object.entries(sections).map(([name, section]) => ({
+							file: `${name}.json`,
+							description: section.description
+						}))
+					},
+					null,
+					2
+				)
+			},
+			...Object.entries(sections).map(([name, section]) => ({
+				name: `${name}.json`,
+				data: JSON.stringify(section.data, null, 2)
+			}))
+		],
+		new Date(dataExport.exportedAt)
+	);
+}
@@ -1,26 +1,219 @@
-import { pgTable, serial, text, timestamp, integer } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { pgTable, serial, text, timestamp, integer, boolean, unique, primaryKey, jsonb, index, uniqueIndex } from 'drizzle-orm/pg-core';
 
 export const users = pgTable('users', {
 	id: serial('id').primaryKey(),
 	username: text('username').notNull().unique(),
 	password: text('password').notNull(),
+	// False while the password is a random one nobody knows (accounts created through an OAuth provider)
+	hasPassword: boolean('has_password').notNull().default(true),
+	// TOTP two-factor authentication; the secret is set on enrollment and enabled once a code is confirmed
+	totpSecret: text('totp_secret'),
+	totpEnabledAt: timestamp('totp_enabled_at'),
+	totpLastUsedStep: integer('totp_last_used_step'),
+	// Optional email address; only verified addresses receive mail links and must be unique regardless of case
+	email: text('email'),
+	emailVerifiedAt: timestamp('email_verified_at'),
 	createdAt: timestamp('created_at').defaultNow().notNull()
-});
+}, (table) => [
+	// Partial, so that adding an address someone else verified reveals nothing until it is verified
+	uniqueIndex('users_email_lower_unique').on(sql`lower(${table.email})`).where(sql`${table.emailVerifiedAt} is not null`)
+]);
 
 export const sessions = pgTable('sessions', {
-	id: text('id').primaryKey(),
+	tokenHash: text('token_hash').primaryKey(), // SHA-256 digest of the session cookie value
 	userId: integer('user_id')
 		.notNull()
 		.references(() => users.id, { onDelete: 'cascade' }),
-	expiresAt: timestamp('expires_at').notNull()
+	expiresAt: timestamp('expires_at').notNull(),
+	createdAt: timestamp('created_at').defaultNow().notNull(),
+	lastSeenAt: timestamp('last_seen_at').defaultNow().notNull(),
+	userAgent: text('user_agent'),
+	ipAddress: text('ip_address'),
+	rotatedAt: timestamp('rotated_at').defaultNow().notNull(), // When this session ID was issued
+	replacedAt: timestamp('replaced_at'), // Set when the ID was rotated; valid for a short grace period
+	replacedBy: text('replaced_by'), // Token hash of the session that replaced this one
+	// Set when an admin signed in as this user, see $lib/auth/impersonation
+	impersonatorId: integer('impersonator_id').references(() => users.id, { onDelete: 'cascade' })
 });
 
+// A user has any number of named counters; the default one backs the /api/counter alias
 export const counters = pgTable('counters', {
 	id: serial('id').primaryKey(),
 	userId: integer('user_id')
 		.notNull()
-		.references(() => users.id, { onDelete: 'cascade' })
-		.unique(),
+		.references(() => users.id, { onDelete: 'cascade' }),
+	name: text('name').notNull().default('Default'),
+	position: integer('position').notNull().default(0), // Sort order in the user's list
 	value: integer('value').notNull().default(0),
+	step: integer('step').notNull().default(1), // Amount of increment and decrement
+	minValue: integer('min_value'), // Optional bounds, null for none
+	maxValue: integer('max_value'),
+	overflow: text('overflow').$type<'clamp' | 'wrap'>().notNull().default('clamp'), // What changes past a bound do
+	isDefault: boolean('is_default').notNull().default(false),
+	createdAt: timestamp('created_at').defaultNow().notNull(),
 	updatedAt: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+	index('counters_user_id_position_idx').on(table.userId, table.position),
+	// At most one default counter per user; also the conflict target when creating it
+	uniqueIndex('counters_user_id_default_unique').on(table.userId).where(sql`${table.isDefault}`)
+]);
+
+// Append-only history of counter value changes, written in the same transaction as the change
+export const counterEvents = pgTable('counter_events', {
+	id: serial('id').primaryKey(),
+	counterId: integer('counter_id')
+		.notNull()
+		.references(() => counters.id, { onDelete: 'cascade' }),
+	userId: integer('user_id'), // who made the change (the admin while impersonating); no FK so history outlives accounts
+	action: text('action').notNull(),
+	delta: integer('delta').notNull(),
+	oldValue: integer('old_value').notNull(),
+	newValue: integer('new_value').notNull(),
+	requestId: text('request_id'),
+	createdAt: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+	index('counter_events_counter_id_idx').on(table.counterId, table.id)
+]);
+
+// Per-counter undo/redo stack: undone_at is null for applied operations, set once undone
+export const counterOperations = pgTable('counter_operations', {
+	id: serial('id').primaryKey(),
+	counterId: integer('counter_id')
+		.notNull()
+		.references(() => counters.id, { onDelete: 'cascade' }),
+	delta: integer('delta').notNull(),
+	undoneAt: timestamp('undone_at'),
+	createdAt: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+	index('counter_operations_counter_id_idx').on(table.counterId, table.id)
+]);
+
+// Only the SHA-256 digest of a reset token is stored; the raw token is mailed to the user
+export const passwordResetTokens = pgTable('password_reset_tokens', {
+	id: serial('id').primaryKey(),
+	userId: integer('user_id')
+		.notNull()
+		.references(() => users.id, { onDelete: 'cascade' }),
+	tokenHash: text('token_hash').notNull().unique(),
+	expiresAt: timestamp('expires_at').notNull(),
+	usedAt: timestamp('used_at'),
+	createdAt: timestamp('created_at').defaultNow().notNull()
 });
+
+// Single-use tokens delivered by email: sign-in links and address verification.
+// Only the SHA-256 digest is stored; `email` is the address the token was sent to.
+export const emailTokens = pgTable('email_tokens', {
+	id: serial('id').primaryKey(),
+	userId: integer('user_id')
+		.notNull()
+		.references(() => users.id, { onDelete: 'cascade' }),
+	purpose: text('purpose').notNull(), // 'magic_link' or 'verify_email'
+	email: text('email').notNull(),
+	tokenHash: text('token_hash').notNull().unique(),
+	expiresAt: timestamp('expires_at').notNull(),
+	usedAt: timestamp('used_at'),
+	createdAt: timestamp('created_at').defaultNow().notNull()
+});
+
+export const recoveryCodes = pgTable('recovery_codes', {
+	id: serial('id').primaryKey(),
+	userId: integer('user_id')
+		.notNull()
+		.references(() => users.id, { onDelete: 'cascade' }),
+	codeHash: text('code_hash').notNull(),
+	usedAt: timestamp('used_at'),
+	createdAt: timestamp('created_at').defaultNow().notNull()
+});
+
+// Pending second login step, issued after the password check succeeded for a 2FA-enabled account
+export const twoFactorChallenges = pgTable('two_factor_challenges', {
+	id: text('id').primaryKey(), // SHA-256 digest of the challenge token
+	userId: integer('user_id')
+		.notNull()
+		.references(() => users.id, { onDelete: 'cascade' }),
+	attempts: integer('attempts').notNull().default(0),
+	expiresAt: timestamp('expires_at').notNull()
+});
+
+export const webauthnCredentials = pgTable('webauthn_credentials', {
+	id: text('id').primaryKey(), // base64url credential ID reported by the authenticator
+	userId: integer('user_id')
+		.notNull()
+		.references(() => users.id, { onDelete: 'cascade' }),
+	publicKey: text('public_key').notNull(), // base64url COSE public key
+	counter: integer('counter').notNull().default(0),
+	transports: text('transports'), // comma-separated AuthenticatorTransport values
+	deviceType: text('device_type').notNull(),
+	backedUp: boolean('backed_up').notNull().default(false),
+	name: text('name'),
+	createdAt: timestamp('created_at').defaultNow().notNull(),
+	lastUsedAt: timestamp('last_used_at')
+});
+
+// Pending WebAuthn ceremony challenges, referenced by a short-lived cookie
+export const webauthnChallenges = pgTable('webauthn_challenges', {
+	id: text('id').primaryKey(), // SHA-256 digest of the cookie token
+	challenge: text('challenge').notNull(),
+	userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }), // set for registration only
+	expiresAt: timestamp('expires_at').notNull()
+});
+
+// Links between local users and accounts at external OAuth2/OIDC providers
+export const oauthAccounts = pgTable('oauth_accounts', {
+	id: serial('id').primaryKey(),
+	userId: integer('user_id')
+		.notNull()
+		.references(() => users.id, { onDelete: 'cascade' }),
+	provider: text('provider').notNull(),
+	providerUserId: text('provider_user_id').notNull(), // 'sub' claim or provider user ID
+	email: text('email'),
+	createdAt: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+	unique('oauth_accounts_provider_user_unique').on(table.provider, table.providerUserId),
+	unique('oauth_accounts_user_provider_unique').on(table.userId, table.provider)
+]);
+
+// Personal access tokens for scripted API access; only the SHA-256 digest of the token is stored
+export const apiTokens = pgTable('api_tokens', {
+	id: serial('id').primaryKey(),
+	userId: integer('user_id')
+		.notNull()
+		.references(() => users.id, { onDelete: 'cascade' }),
+	name: text('name').notNull(),
+	tokenHash: text('token_hash').notNull().unique(),
+	tokenPrefix: text('token_prefix').notNull(), // first characters of the token, to tell tokens apart in the UI
+	scopes: text('scopes').notNull(), // comma-separated scopes, e.g. 'counter:read,counter:write'
+	expiresAt: timestamp('expires_at'), // null for tokens that never expire
+	lastUsedAt: timestamp('last_used_at'),
+	createdAt: timestamp('created_at').defaultNow().notNull()
+});
+
+// Roles granted to users on top of the default user access, e.g. 'admin'
+export const userRoles = pgTable('user_roles', {
+	userId: integer('user_id')
+		.notNull()
+		.references(() => users.id, { onDelete: 'cascade' }),
+	role: text('role').notNull(),
+	grantedAt: timestamp('granted_at').defaultNow().notNull(),
+	grantedBy: integer('granted_by').references(() => users.id, { onDelete: 'set null' }) // null when bootstrapped
+}, (table) => [
+	primaryKey({ columns: [table.userId, table.role] })
+]);
+
+// Security-relevant actions (logins, account and admin changes, migrations). User IDs are
+// not foreign keys so that entries outlive deleted accounts.
+export const auditLog = pgTable('audit_log', {
+	id: serial('id').primaryKey(),
+	actorUserId: integer('actor_user_id'), // null for anonymous actions, e.g. failed logins
+	action: text('action').notNull(),
+	target: text('target'), // '<type>:<id>', e.g. 'user:42'
+	success: boolean('success').notNull(),
+	ipAddress: text('ip_address'),
+	userAgent: text('user_agent'),
+	metadata: jsonb('metadata').$type<Record<string, string>>(),
+	createdAt: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+	index('audit_log_actor_user_id_idx').on(table.actorUserId),
+	index('audit_log_action_idx').on(table.action)
+]);
@@ -0,0 +1,228 @@
+/**
+ * Mail delivery
+ *
+ * Outgoing mail goes through a pluggable transport so that the delivery
+ * mechanism can be swapped without touching the code that composes messages.
+ *
+ * Built-in transports:
+ * - http: posts each message as JSON to a mail API (MAIL_API_URL, e.g. Resend's /emails)
+ * - console: prints messages to stdout (default in development)
+ * - file: writes each message as a JSON file to MAIL_FILE_DIR (local development and tests)
+ * - memory: keeps messages in an in-memory outbox (tests)
+ *
+ * Messages carry live sign-in and password reset links, so the local transports
+ * only work in development and tests. Elsewhere, and for an unknown or missing
+ * MAIL_TRANSPORT, mail is refused rather than written to logs. Other transports
+ * can be registered with setMailTransport().
+ */
+
+import { getEnvironmentName } from '$lib/environment';
+
+/**
+ * A single outgoing mail message
+ */
+export interface MailMessage {
+	to: string;
+	subject: string;
+	text: string;
+	html?: string;
+}
+
+/**
+ * Mail transport interface to decouple from specific mail providers
+ */
+export interface MailTransport {
+	/**
+	 * Deliver a message
+	 * @param message - The message to send
+	 */
+	send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Transport that prints messages to the console instead of delivering them
+ */
+export class ConsoleMailTransport implements MailTransport {
+	async send(message: MailMessage & { from: string }): Promise<void> {
+		console.log(
+			`[Mail] From: ${message.from}\n[Mail] To: ${message.to}\n[Mail] Subject: ${message.subject}\n\n${message.text}`
+		);
+	}
+}
+
+/**
+ * Transport that posts each message to an HTTP mail API
+ *
+ * Sends `{ from, to, subject, text, html }` with the API key as bearer token,
+ * the request format of Resend's /emails endpoint.
+ */
+export class HttpMailTransport implements MailTransport {
+	constructor(
+		private url: string,
+		private apiKey: string
+	) {}
+
+	async send(message: MailMessage & { from: string }): Promise<void> {
+		const response = await fetch(this.url, {
+			method: 'POST',
+			headers: {
+				Authorization: `Bearer ${this.apiKey}`,
+				'Content-Type': 'application/json'
+			},
+			body: JSON.stringify(message)
+		});
+
+		if (!response.ok) {
+			throw new Error(`Mail API responded with ${response.status}`);
+		}
+	}
+}
+
+/**
+ * Transport that refuses to deliver, used when no transport is usable in this environment
+ *
+ * Only the reason is logged, never the message, which may contain a sign-in link.
+ */
+export class DisabledMailTransport implements MailTransport {
+	constructor(private reason: string) {}
+
+	async send(): Promise<void> {
+		console.error(`[Mail] Not sent: ${this.reason}`);
+	}
+}
+
+/**
+ * Transport that writes each message as a JSON file into a directory
+ */
+export class FileMailTransport implements MailTransport {
+	constructor(private directory: string) {}
+
+	async send(message: MailMessage & { from: string }): Promise<void> {
+		// Imported lazily so the module stays loadable in runtimes without a filesystem
+		const { mkdir, writeFile } = await import('node:fs/promises');
+		const { join } = await import('node:path');
+
+		await mkdir(this.directory, { recursive: true });
+		const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}.json`;
+		await writeFile(
+			join(this.directory, fileName),
+			JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+		);
+	}
+}
+
+/**
+ * Transport that keeps messages in memory, so tests can assert on what was sent
+ */
+export class MemoryMailTransport implements MailTransport {
+	readonly outbox: (MailMessage & { from: string })[] = [];
+
+	async send(message: MailMessage & { from: string }): Promise<void> {
+		this.outbox.push(message);
+	}
+
+	/**
+	 * Get the most recent message to a recipient
+	 */
+	lastMessageTo(to: string): (MailMessage & { from: string }) | undefined {
+		return this.outbox.findLast((message) => message.to === to);
+	}
+
+	clear(): void {
+		this.outbox.length = 0;
+	}
+}
+
+type MailEnv = {
+	MAIL_TRANSPORT?: string;
+	MAIL_FROM?: string;
+	MAIL_FILE_DIR?: string;
+	MAIL_API_URL?: string;
+	MAIL_API_KEY?: string;
+	ENVIRONMENT?: string;
+	CF_PAGES_BRANCH?: string;
+};
+
+// Environments where the local transports may expose message contents
+const LOCAL_MAIL_ENVIRONMENTS = ['development', 'test'];
+
+function readEnv(env: MailEnv | undefined, key: keyof MailEnv): string | undefined {
+	return env?.[key] || (typeof process !== 'undefined' ? process.env[key] : undefined);
+}
+
+/**
+ * Singleton instance of the mail transport
+ */
+let mailTransportInstance: MailTransport | null = null;
+
+function createMailTransport(env?: MailEnv): MailTransport {
+	const environment = getEnvironmentName({
+		ENVIRONMENT: readEnv(env, 'ENVIRONMENT'),
+		CF_PAGES_BRANCH: readEnv(env, 'CF_PAGES_BRANCH')
+	});
+	const local = LOCAL_MAIL_ENVIRONMENTS.includes(environment);
+	const kind = readEnv(env, 'MAIL_TRANSPORT') || (local ? 'console' : undefined);
+
+	if (kind === 'http') {
+		const url = readEnv(env, 'MAIL_API_URL');
+		const apiKey = readEnv(env, 'MAIL_API_KEY');
+		return url && apiKey
+			? new HttpMailTransport(url, apiKey)
+			: new DisabledMailTransport('MAIL_API_URL and MAIL_API_KEY are required for the http transport');
+	}
+	if (kind === 'console' || kind === 'file' || kind === 'memory') {
+		if (!local) {
+			return new DisabledMailTransport(`the ${kind} transport only works in development and tests`);
+		}
+		if (kind === 'file') {
+			return new FileMailTransport(readEnv(env, 'MAIL_FILE_DIR') || '.mail');
+		}
+		return kind === 'memory' ? new MemoryMailTransport() : new ConsoleMailTransport();
+	}
+	return new DisabledMailTransport(kind ? `unknown MAIL_TRANSPORT "${kind}"` : 'MAIL_TRANSPORT is not configured');
+}
+
+/**
+ * Get the mail transport (singleton)
+ *
+ * Selected by MAIL_TRANSPORT ('http', 'console', 'file' or 'memory'), defaulting to
+ * 'console' in development and tests. Outside them, only 'http' delivers.
+ * @param env - Environment variables
+ */
+export function getMailTransport(env?: MailEnv): MailTransport {
+	if (!mailTransportInstance) {
+		mailTransportInstance = createMailTransport(env);
+	}
+	return mailTransportInstance;
+}
+
+/**
+ * Whether mail can be delivered at all, so that callers can skip issuing a link nobody receives
+ */
+export function canSendMail(env?: MailEnv): boolean {
+	return !(getMailTransport(env) instanceof DisabledMailTransport);
+}
+
+/**
+ * Register a custom mail transport, replacing the env-selected one
+ */
+export function setMailTransport(transport: MailTransport): void {
+	mailTransportInstance = transport;
+}
+
+/**
+ * Reset the mail transport singleton (primarily for testing)
+ */
+export function resetMailTransport(): void {
+	mailTransportInstance = null;
+}
+
+/**
+ * Send a message through the configured transport
+ * @param message - The message to send
+ * @param env - Environment variables
+ */
+export async function sendMail(message: MailMessage, env?: MailEnv): Promise<void> {
+	const from = readEnv(env, 'MAIL_FROM') || 'no-reply@localhost';
+	await getMailTransport(env).send({ ...message, from });
+}
@@ -0,0 +1,58 @@
+import { browserSupportsWebAuthn, startAuthentication, startRegistration } from '@simplewebauthn/browser';
+import { browser } from '$app/environment';
+
+/**
+ * Whether the current browser can use passkeys
+ */
+export function passkeysSupported(): boolean {
+	return browser && browserSupportsWebAuthn();
+}
+
+/**
+ * Run the registration ceremony and store a new passkey for the logged-in user
+ * @param name - Optional label to tell passkeys apart
+ * @throws Error with a user-facing message if registration fails
+ */
+export async function registerPasskey(name?: string): Promise<void> {
+	const optionsResponse = await fetch('/api/auth/passkey/register/options', { method: 'POST' });
+	const optionsJSON = await optionsResponse.json();
+	if (!optionsResponse.ok) {
+		throw new Error(optionsJSON.error || 'Passkey registration failed');
+	}
+
+	const response = await startRegistration({ optionsJSON });
+
+	const verifyResponse = await fetch('/api/auth/passkey/register/verify', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ response, name })
+	});
+	const data = await verifyResponse.json();
+	if (!verifyResponse.ok) {
+		throw new Error(data.error || 'Passkey registration failed');
+	}
+}
+
+/**
+ * Run the authentication ceremony and start a session on success
+ * @throws Error with a user-facing message if sign-in fails
+ */
+export async function signInWithPasskey(): Promise<void> {
+	const optionsResponse = await fetch('/api/auth/passkey/login/options', { method: 'POST' });
+	const optionsJSON = await optionsResponse.json();
+	if (!optionsResponse.ok) {
+		throw new Error(optionsJSON.error || 'Passkey login failed');
+	}
+
+	const response = await startAuthentication({ optionsJSON });
+
+	const verifyResponse = await fetch('/api/auth/passkey/login/verify', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ response })
+	});
+	const data = await verifyResponse.json();
+	if (!verifyResponse.ok) {
+		throw new Error(data.error || 'Passkey login failed');
+	}
+}
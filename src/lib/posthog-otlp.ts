@@ -21,7 +21,7 @@ import { getEnvironmentName, getServiceName } from './environment';
  * - Otherwise, automatically maps POSTHOG_HOST to the correct OTLP endpoint
  * - Falls back to US ingestion endpoint if mapping fails
  */
-function getOTLPEndpoint(posthogHost: string, posthogOtlpHost?: string): string {
+export function getOTLPEndpoint(posthogHost: string, posthogOtlpHost?: string): string {
 	// If OTLP host is explicitly set and not empty, use it
 	if (posthogOtlpHost && posthogOtlpHost.length > 0) {
 		return posthogOtlpHost;
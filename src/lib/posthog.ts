@@ -1,4 +1,23 @@
 import { PostHog } from 'posthog-node';
+import { getEnvironmentName } from './environment';
+
+type PostHogEnv = {
+	POSTHOG_API_KEY?: string;
+	POSTHOG_HOST?: string;
+	POSTHOG_OTLP_HOST?: string;
+	ENVIRONMENT?: string;
+	CF_PAGES_BRANCH?: string;
+};
+
+/**
+ * PostHog settings passed to the browser client
+ */
+export interface PostHogClientConfig {
+	apiKey: string;
+	host?: string;
+	otlpHost?: string;
+	environment: string;
+}
 
 let posthogClient: PostHog | null = null;
 let isInitializing = false;
@@ -40,6 +59,27 @@ export function getPostHog(env?: { POSTHOG_API_KEY?: string; POSTHOG_HOST?: stri
 	return posthogClient;
 }
 
+/**
+ * Get the PostHog settings for the browser client, or undefined if PostHog is not configured
+ * @param env - Environment variables (optional, for Cloudflare Workers)
+ */
+export function getPostHogClientConfig(env?: PostHogEnv): PostHogClientConfig | undefined {
+	const apiKey = env?.POSTHOG_API_KEY || (typeof process !== 'undefined' ? process.env.POSTHOG_API_KEY : undefined);
+	const host = env?.POSTHOG_HOST || (typeof process !== 'undefined' ? process.env.POSTHOG_HOST : undefined);
+	const otlpHost = env?.POSTHOG_OTLP_HOST || (typeof process !== 'undefined' ? process.env.POSTHOG_OTLP_HOST : undefined);
+
+	if (!apiKey || typeof apiKey !== 'string' || apiKey.length === 0) {
+		return undefined;
+	}
+
+	return {
+		apiKey,
+		host: host || undefined,
+		otlpHost: otlpHost || undefined,
+		environment: getEnvironmentName(env)
+	};
+}
+
 /**
  * Shutdown PostHog client
  */
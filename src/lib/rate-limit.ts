@@ -1,18 +1,16 @@
+import { json } from '@sveltejs/kit';
 import { Redis } from '@upstash/redis/cloudflare';
 import { Ratelimit } from '@upstash/ratelimit';
 import { getEnvironmentName } from './environment';
 import { getFeatureFlagService, FeatureFlags } from './feature-flags';
 
 /**
- * Creates a rate limiter instance for counter actions
- * Configured to allow 3 requests per 10 seconds per user
+ * Creates the Upstash Redis client, or returns null if Redis is not configured
  */
-export function createRateLimiter(env?: {
+export function createRedisClient(env?: {
 	UPSTASH_REDIS_REST_URL?: string;
 	UPSTASH_REDIS_REST_TOKEN?: string;
-	ENVIRONMENT?: string;
-	CF_PAGES_BRANCH?: string;
-}) {
+}): Redis | null {
 	// Check if Upstash Redis is configured
 	// Treat empty strings and missing values as unconfigured
 	const url = env?.UPSTASH_REDIS_REST_URL?.trim();
@@ -24,10 +22,27 @@ export function createRateLimiter(env?: {
 
 	// Use Cloudflare-optimized Redis client with fromEnv
 	// Pass only the required Redis credentials
-	const redis = Redis.fromEnv({
+	return Redis.fromEnv({
 		UPSTASH_REDIS_REST_URL: url,
 		UPSTASH_REDIS_REST_TOKEN: token
 	});
+}
+
+/**
+ * Creates a rate limiter instance for counter actions
+ * Configured to allow 3 requests per 10 seconds per user
+ */
+export function createRateLimiter(env?: {
+	UPSTASH_REDIS_REST_URL?: string;
+	UPSTASH_REDIS_REST_TOKEN?: string;
+	ENVIRONMENT?: string;
+	CF_PAGES_BRANCH?: string;
+}) {
+	const redis = createRedisClient(env);
+
+	if (!redis) {
+		return null;
+	}
 
 	// Get environment name for prefix to avoid key collisions between deployments
 	const environment = getEnvironmentName(env);
@@ -112,3 +127,82 @@ export async function checkRateLimit(
 		return { success: true };
 	}
 }
+
+/**
+ * Limits for requests that mail a link to an address, per address and per client IP
+ */
+const MAIL_RATE_LIMITS = {
+	ip: { requests: 10, window: '15 m' },
+	email: { requests: 3, window: '15 m' }
+} as const;
+
+/**
+ * Checks if a link may be mailed to an address, e.g. a sign-in or password reset link
+ *
+ * Each purpose has its own limits per client IP and per (case-insensitive) address,
+ * so the endpoints cannot be used to flood a mailbox. Like checkRateLimit, allows
+ * all requests if Redis is not configured or unavailable.
+ */
+export async function checkMailRateLimit(
+	purpose: string,
+	email: string,
+	ipAddress: string | undefined,
+	env?: {
+		UPSTASH_REDIS_REST_URL?: string;
+		UPSTASH_REDIS_REST_TOKEN?: string;
+		ENVIRONMENT?: string;
+		CF_PAGES_BRANCH?: string;
+	}
+): Promise<{ success: boolean; retryAfter?: number }> {
+	const redis = createRedisClient(env);
+
+	if (!redis) {
+		return { success: true };
+	}
+
+	const prefix = `@upstash/ratelimit/${getEnvironmentName(env)}/${purpose}`;
+	const identifiers: [keyof typeof MAIL_RATE_LIMITS, string][] = [['email', email.trim().toLowerCase()]];
+	if (ipAddress) {
+		identifiers.unshift(['ip', ipAddress]);
+	}
+
+	try {
+		for (const [scope, identifier] of identifiers) {
+			const { requests, window } = MAIL_RATE_LIMITS[scope];
+			const ratelimit = new Ratelimit({
+				redis,
+				limiter: Ratelimit.slidingWindow(requests, window),
+				prefix: `${prefix}/${scope}`
+			});
+
+			const result = await ratelimit.limit(identifier);
+			if (!result.success) {
+				return { success: false, retryAfter: Math.max(1, Math.ceil((result.reset - Date.now()) / 1000)) };
+			}
+		}
+	} catch (error) {
+		console.error('Mail rate limiting check failed:', error);
+	}
+
+	return { success: true };
+}
+
+/**
+ * The 429 response for a request rejected by checkRateLimit
+ */
+export function rateLimitExceededResponse(result: { remaining?: number; retryAfter?: number }): Response {
+	return json(
+		{
+			error: 'Rate limit exceeded',
+			message: 'Too many actions. Please wait before trying again.',
+			remaining: result.remaining,
+			retryAfter: result.retryAfter
+		},
+		{
+			status: 429,
+			headers: {
+				'Retry-After': String(result.retryAfter || 10)
+			}
+		}
+	);
+}
@@ -0,0 +1,267 @@
+/**
+ * Security response headers
+ *
+ * The Content Security Policy itself is generated by SvelteKit (`kit.csp` in
+ * svelte.config.js), which adds a per-request nonce for its inline hydration
+ * script. `hooks.server.ts` then adapts it to the runtime configuration: the
+ * PostHog hosts are added to connect-src, frame-ancestors is set, violations
+ * are reported to /api/csp-report and, in report-only mode, the policy is sent
+ * as Content-Security-Policy-Report-Only instead. The remaining headers (HSTS,
+ * Referrer-Policy, Permissions-Policy, ...) are added to every response.
+ */
+
+import { getOTLPEndpoint } from '$lib/posthog-otlp';
+import { getPostHogClientConfig } from '$lib/posthog';
+
+export const CSP_REPORT_PATH = '/api/csp-report';
+const CSP_REPORT_GROUP = 'csp-endpoint';
+
+// PostHog's default host, as used by the browser client
+const DEFAULT_POSTHOG_HOST = 'https://app.posthog.com';
+
+/**
+ * - enforce: send the policy as Content-Security-Policy (default)
+ * - report-only: only report violations, e.g. while rolling out a stricter policy
+ * - off: send no policy
+ */
+export type CspMode = 'enforce' | 'report-only' | 'off';
+
+export interface SecurityHeadersConfig {
+	cspMode: CspMode;
+	/** Extra connect-src sources, on top of our own origin and the PostHog hosts */
+	connectSrc: string[];
+	/** Sources allowed to embed the app in a frame, e.g. ["'none'"] */
+	frameAncestors: string[];
+	/** HSTS max-age in seconds, 0 to omit the header */
+	hstsMaxAge: number;
+	referrerPolicy: string;
+	permissionsPolicy: string;
+}
+
+type SecurityHeadersEnv = {
+	CSP_MODE?: string;
+	CSP_CONNECT_SRC?: string;
+	CSP_FRAME_ANCESTORS?: string;
+	HSTS_MAX_AGE?: string;
+	REFERRER_POLICY?: string;
+	PERMISSIONS_POLICY?: string;
+	POSTHOG_API_KEY?: string;
+	POSTHOG_HOST?: string;
+	POSTHOG_OTLP_HOST?: string;
+};
+
+export const DEFAULT_SECURITY_HEADERS_CONFIG: SecurityHeadersConfig = {
+	cspMode: 'enforce',
+	connectSrc: [],
+	frameAncestors: ["'none'"],
+	hstsMaxAge: 31536000, // 1 year
+	referrerPolicy: 'strict-origin-when-cross-origin',
+	permissionsPolicy: 'camera=(), microphone=(), geolocation=(), payment=(), usb=(), interest-cohort=()'
+};
+
+function readEnv(env: SecurityHeadersEnv | undefined, key: keyof SecurityHeadersEnv): string | undefined {
+	return env?.[key] || (typeof process !== 'undefined' ? process.env[key] : undefined);
+}
+
+function splitList(value: string | undefined, separator: RegExp): string[] | undefined {
+	return value?.split(separator).map((item) => item.trim()).filter(Boolean);
+}
+
+export function getSecurityHeadersConfig(env?: SecurityHeadersEnv): SecurityHeadersConfig {
+	const defaults = DEFAULT_SECURITY_HEADERS_CONFIG;
+	const cspMode = readEnv(env, 'CSP_MODE');
+	const hstsMaxAge = Number(readEnv(env, 'HSTS_MAX_AGE'));
+
+	return {
+		cspMode: cspMode === 'report-only' || cspMode === 'off' ? cspMode : 'enforce',
+		connectSrc: splitList(readEnv(env, 'CSP_CONNECT_SRC'), /[\s,]+/) ?? defaults.connectSrc,
+		frameAncestors: splitList(readEnv(env, 'CSP_FRAME_ANCESTORS'), /\s+/) ?? defaults.frameAncestors,
+		hstsMaxAge: Number.isInteger(hstsMaxAge) && hstsMaxAge >= 0 && readEnv(env, 'HSTS_MAX_AGE')
+			? hstsMaxAge
+			: defaults.hstsMaxAge,
+		referrerPolicy: readEnv(env, 'REFERRER_POLICY') || defaults.referrerPolicy,
+		permissionsPolicy: readEnv(env, 'PERMISSIONS_POLICY') || defaults.permissionsPolicy
+	};
+}
+
+/**
+ * Origins the browser client talks to when PostHog is configured
+ */
+export function getPostHogOrigins(env?: SecurityHeadersEnv): string[] {
+	const posthog = getPostHogClientConfig(env);
+	if (!posthog) {
+		return [];
+	}
+
+	const host = posthog.host || DEFAULT_POSTHOG_HOST;
+	const origins = new Set<string>();
+	for (const url of [host, getOTLPEndpoint(host, posthog.otlpHost)]) {
+		try {
+			origins.add(new URL(url).origin);
+		} catch {
+			// Misconfigured hosts are reported where they are used
+		}
+	}
+	return [...origins];
+}
+
+/**
+ * Parse a policy into its directives, keeping their order
+ */
+export function parseContentSecurityPolicy(policy: string): Map<string, string[]> {
+	const directives = new Map<string, string[]>();
+	for (const part of policy.split(';')) {
+		const [name, ...values] = part.trim().split(/\s+/);
+		if (name && !directives.has(name.toLowerCase())) {
+			directives.set(name.toLowerCase(), values);
+		}
+	}
+	return directives;
+}
+
+export function serializeContentSecurityPolicy(directives: Map<string, string[]>): string {
+	return [...directives].map(([name, values]) => [name, ...values].join(' ')).join('; ');
+}
+
+/**
+ * Adapt SvelteKit's policy to the runtime configuration
+ * @param connectSrc - Sources to add to connect-src, e.g. the PostHog hosts
+ */
+export function extendContentSecurityPolicy(
+	policy: string,
+	config: SecurityHeadersConfig,
+	connectSrc: string[]
+): string {
+	const directives = parseContentSecurityPolicy(policy);
+
+	const connect = directives.get('connect-src') ?? ["'self'"];
+	for (const source of [...connectSrc, ...config.connectSrc]) {
+		if (!connect.includes(source)) {
+			connect.push(source);
+		}
+	}
+	directives.set('connect-src', connect);
+
+	directives.set('frame-ancestors', config.frameAncestors);
+	directives.set('report-uri', [CSP_REPORT_PATH]);
+	directives.set('report-to', [CSP_REPORT_GROUP]);
+
+	return serializeContentSecurityPolicy(directives);
+}
+
+/**
+ * Add the security headers to a response
+ *
+ * @returns The response, or a copy if its headers were immutable (e.g. fetched responses)
+ */
+export function applySecurityHeaders(
+	response: Response,
+	url: URL,
+	config: SecurityHeadersConfig,
+	connectSrc: string[]
+): Response {
+	const headers = new Headers();
+
+	headers.set('X-Content-Type-Options', 'nosniff');
+	headers.set('Referrer-Policy', config.referrerPolicy);
+	headers.set('Permissions-Policy', config.permissionsPolicy);
+
+	// Legacy counterpart of frame-ancestors for browsers without CSP level 2
+	if (config.frameAncestors.length === 1 && config.frameAncestors[0] === "'none'") {
+		headers.set('X-Frame-Options', 'DENY');
+	} else if (config.frameAncestors.length === 1 && config.frameAncestors[0] === "'self'") {
+		headers.set('X-Frame-Options', 'SAMEORIGIN');
+	}
+
+	// Browsers ignore HSTS received over plain HTTP
+	if (config.hstsMaxAge > 0 && url.protocol === 'https:') {
+		headers.set('Strict-Transport-Security', `max-age=${config.hstsMaxAge}; includeSubDomains`);
+	}
+
+	// Only HTML pages carry a policy; SvelteKit sets it when kit.csp is configured
+	const policy = response.headers.get('content-security-policy');
+	if (policy && config.cspMode !== 'off') {
+		headers.set(
+			config.cspMode === 'report-only' ? 'Content-Security-Policy-Report-Only' : 'Content-Security-Policy',
+			extendContentSecurityPolicy(policy, config, connectSrc)
+		);
+		headers.set('Reporting-Endpoints', `${CSP_REPORT_GROUP}="${CSP_REPORT_PATH}"`);
+	}
+
+	const apply = (target: Response) => {
+		target.headers.delete('content-security-policy');
+		headers.forEach((value, name) => target.headers.set(name, value));
+		return target;
+	};
+
+	try {
+		return apply(response);
+	} catch {
+		return apply(new Response(response.body, response));
+	}
+}
+
+// Upper bounds for what /api/csp-report accepts from a single request
+export const MAX_CSP_REPORT_BYTES = 64 * 1024;
+export const MAX_CSP_REPORTS_PER_REQUEST = 20;
+
+export interface CspViolation {
+	documentUri?: string;
+	blockedUri?: string;
+	violatedDirective?: string;
+	effectiveDirective?: string;
+	disposition?: string;
+	sourceFile?: string;
+	lineNumber?: string;
+	sample?: string;
+}
+
+function reportField(report: Record<string, unknown>, ...keys: string[]): string | undefined {
+	for (const key of keys) {
+		const value = report[key];
+		if (typeof value === 'string' || typeof value === 'number') {
+			// Samples and URLs are attacker-controlled, keep them short
+			return String(value).slice(0, 512);
+		}
+	}
+	return undefined;
+}
+
+function toViolation(report: Record<string, unknown>): CspViolation {
+	return {
+		documentUri: reportField(report, 'document-uri', 'documentURL'),
+		blockedUri: reportField(report, 'blocked-uri', 'blockedURL'),
+		violatedDirective: reportField(report, 'violated-directive'),
+		effectiveDirective: reportField(report, 'effective-directive', 'effectiveDirective'),
+		disposition: reportField(report, 'disposition'),
+		sourceFile: reportField(report, 'source-file', 'sourceFile'),
+		lineNumber: reportField(report, 'line-number', 'lineNumber'),
+		sample: reportField(report, 'script-sample', 'sample')
+	};
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Extract violations from a report body
+ *
+ * Accepts both the report-uri format (`{"csp-report": {...}}`) and the
+ * Reporting API format (an array of reports of type "csp-violation").
+ * Other report types are ignored.
+ */
+export function parseCspReports(payload: unknown): CspViolation[] {
+	if (isObject(payload) && isObject(payload['csp-report'])) {
+		return [toViolation(payload['csp-report'])];
+	}
+
+	if (Array.isArray(payload)) {
+		return payload
+			.filter((report) => isObject(report) && report.type === 'csp-violation' && isObject(report.body))
+			.slice(0, MAX_CSP_REPORTS_PER_REQUEST)
+			.map((report) => toViolation(report.body as Record<string, unknown>));
+	}
+
+	return [];
+}
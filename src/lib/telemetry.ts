@@ -9,6 +9,7 @@
  */
 
 import { getEnvironmentName, getServiceName } from './environment';
+import { recordAuditEvent } from './audit';
 
 interface OTLPAttribute {
 	key: string;
@@ -349,15 +350,60 @@ export async function logLoadFunction(
 	await sendOTLPLogs([logRecord], resourceAttributes, apiKey, host, otlpHost, env);
 }
 
+/**
+ * Authentication event types recorded by logAuthEvent
+ */
+export type AuthEventType =
+	| 'login'
+	| 'logout'
+	| 'register'
+	| 'password_reset'
+	| 'login_failure'
+	| 'session_expired'
+	| 'two_factor_setup'
+	| 'two_factor_enabled'
+	| 'two_factor_disabled'
+	| 'two_factor_challenge'
+	| 'two_factor_verify'
+	| 'passkey_registered'
+	| 'passkey_removed'
+	| 'oauth_linked'
+	| 'oauth_unlinked'
+	| 'session_revoked'
+	| 'account_locked'
+	| 'api_token_created'
+	| 'api_token_revoked'
+	| 'password_changed'
+	| 'username_changed'
+	| 'account_deleted'
+	| 'data_exported'
+	| 'role_granted'
+	| 'role_revoked'
+	| 'lockout_cleared'
+	| 'migration_run'
+	| 'magic_link_requested'
+	| 'email_changed'
+	| 'email_verified'
+	| 'csrf_rejected'
+	| 'impersonation_started'
+	| 'impersonation_ended';
+
+/**
+ * Event types whose failures are expected user errors (WARN) rather than system errors (ERROR)
+ */
+const WARN_ON_FAILURE_EVENTS: AuthEventType[] = ['login_failure', 'two_factor_verify', 'two_factor_enabled', 'two_factor_disabled', 'passkey_registered', 'oauth_linked', 'account_locked', 'password_changed', 'username_changed', 'account_deleted', 'email_changed', 'email_verified', 'csrf_rejected'];
+
 /**
  * 4. Log Security & Authentication Events
  * 
- * Logs authentication events with security context
+ * Logs authentication events with security context. Every event is stored in
+ * the audit log; PostHog receives it as well when configured.
  */
 export async function logAuthEvent(
-	eventType: 'login' | 'logout' | 'register' | 'password_reset' | 'login_failure' | 'session_expired',
+	eventType: AuthEventType,
 	options: {
-		userId?: number;
+		userId?: number; // the acting user
+		target?: string; // what the action applies to, e.g. 'user:42'
 		sessionId?: string;
 		distinctId?: string;
 		provider?: string; // e.g., 'local', 'oauth_google'
@@ -367,21 +413,36 @@ export async function logAuthEvent(
 		errorMessage?: string;
 		metadata?: Record<string, string>;
 	},
-	env?: { POSTHOG_API_KEY?: string; POSTHOG_HOST?: string; POSTHOG_OTLP_HOST?: string; ENVIRONMENT?: string; CF_PAGES_BRANCH?: string }
+	env?: { DATABASE_URL?: string; POSTHOG_API_KEY?: string; POSTHOG_HOST?: string; POSTHOG_OTLP_HOST?: string; ENVIRONMENT?: string; CF_PAGES_BRANCH?: string }
 ): Promise<void> {
+	await recordAuditEvent({
+		actorUserId: options.userId,
+		action: eventType,
+		target: options.target,
+		success: options.success,
+		ipAddress: options.ipAddress,
+		userAgent: options.userAgent,
+		metadata: {
+			...(options.provider ? { provider: options.provider } : {}),
+			...options.metadata,
+			...(options.errorMessage ? { error: options.errorMessage } : {})
+		}
+	}, env);
+
 	const { apiKey, host, otlpHost } = getPostHogConfig(env);
 	if (!apiKey) return;
 
 	const logRecord: OTLPLogRecord = {
 		timeUnixNano: String(Date.now() * 1000000),
-		severityNumber: options.success ? 9 : (eventType === 'login_failure' ? 13 : 17), // INFO, WARN, or ERROR
-		severityText: options.success ? 'INFO' : (eventType === 'login_failure' ? 'WARN' : 'ERROR'),
+		severityNumber: options.success ? 9 : (WARN_ON_FAILURE_EVENTS.includes(eventType) ? 13 : 17), // INFO, WARN, or ERROR
+		severityText: options.success ? 'INFO' : (WARN_ON_FAILURE_EVENTS.includes(eventType) ? 'WARN' : 'ERROR'),
 		body: {
 			stringValue: `Auth event: ${eventType} ${options.success ? 'succeeded' : 'failed'}`
 		},
 		attributes: [
 			{ key: 'auth.event_type', value: { stringValue: eventType } },
 			{ key: 'auth.provider', value: { stringValue: options.provider || 'local' } },
+			...(options.target ? [{ key: 'auth.target', value: { stringValue: options.target } }] : []),
 			...(options.ipAddress ? [{ key: 'ip.address', value: { stringValue: options.ipAddress } }] : []),
 			...(options.userAgent ? [{ key: 'user_agent', value: { stringValue: options.userAgent } }] : []),
 			{ key: 'success', value: { stringValue: String(options.success) } },
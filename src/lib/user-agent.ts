@@ -0,0 +1,41 @@
+/**
+ * Minimal user agent parsing for displaying sessions
+ *
+ * Only recognizes the common browsers and platforms well enough to produce a
+ * label like "Firefox on Linux"; it is not meant for feature detection.
+ */
+
+const BROWSERS: [RegExp, string][] = [
+	// Order matters: Edge and Opera also claim to be Chrome, and Chrome claims to be Safari
+	[/Edg(e|A|iOS)?\//, 'Edge'],
+	[/OPR\/|Opera/, 'Opera'],
+	[/Firefox\/|FxiOS\//, 'Firefox'],
+	[/Chrome\/|CriOS\//, 'Chrome'],
+	[/Safari\//, 'Safari']
+];
+
+const PLATFORMS: [RegExp, string][] = [
+	[/iPhone|iPad|iPod/, 'iOS'],
+	[/Android/, 'Android'],
+	[/Windows/, 'Windows'],
+	[/Mac OS X|Macintosh/, 'macOS'],
+	[/CrOS/, 'ChromeOS'],
+	[/Linux/, 'Linux']
+];
+
+/**
+ * Describe a user agent as "<browser> on <platform>"
+ */
+export function describeUserAgent(userAgent: string | null | undefined): string {
+	if (!userAgent) {
+		return 'Unknown device';
+	}
+
+	const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+	const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+	if (browser && platform) {
+		return `${browser} on ${platform}`;
+	}
+	return browser || platform || 'Unknown device';
+}
@@ -0,0 +1,109 @@
+/**
+ * Minimal ZIP archive writer
+ *
+ * Entries are stored without compression, which keeps this dependency-free and
+ * Workers-compatible. Good enough for small archives such as data exports.
+ */
+
+export interface ZipEntry {
+	name: string;
+	data: string | Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 (IEEE 802.3) checksum, as required by the ZIP format
+ */
+export function crc32(data: Uint8Array): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crcTable[n] = c >>> 0;
+		}
+	}
+
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time, the timestamp format of ZIP headers
+function toDosDateTime(date: Date): { time: number; date: number } {
+	return {
+		time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+		date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+	};
+}
+
+/**
+ * Build a ZIP archive from a list of files
+ */
+export function createZip(entries: ZipEntry[], modified = new Date()): Uint8Array<ArrayBuffer> {
+	const encoder = new TextEncoder();
+	const { time, date } = toDosDateTime(modified);
+	const localParts: Uint8Array[] = [];
+	const centralParts: Uint8Array[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const name = encoder.encode(entry.name);
+		const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+		const crc = crc32(data);
+
+		const local = new DataView(new ArrayBuffer(30));
+		local.setUint32(0, 0x04034b50, true); // local file header signature
+		local.setUint16(4, 20, true); // version needed to extract
+		local.setUint16(6, 0x0800, true); // flags: UTF-8 file names
+		local.setUint16(8, 0, true); // compression: stored
+		local.setUint16(10, time, true);
+		local.setUint16(12, date, true);
+		local.setUint32(14, crc, true);
+		local.setUint32(18, data.length, true); // compressed size
+		local.setUint32(22, data.length, true); // uncompressed size
+		local.setUint16(26, name.length, true);
+		local.setUint16(28, 0, true); // extra field length
+
+		const central = new DataView(new ArrayBuffer(46));
+		central.setUint32(0, 0x02014b50, true); // central directory header signature
+		central.setUint16(4, 20, true); // version made by
+		central.setUint16(6, 20, true); // version needed to extract
+		central.setUint16(8, 0x0800, true);
+		central.setUint16(10, 0, true);
+		central.setUint16(12, time, true);
+		central.setUint16(14, date, true);
+		central.setUint32(16, crc, true);
+		central.setUint32(20, data.length, true);
+		central.setUint32(24, data.length, true);
+		central.setUint16(28, name.length, true);
+		// extra field, comment, disk number and attributes stay 0
+		central.setUint32(42, offset, true); // offset of the local header
+
+		localParts.push(new Uint8Array(local.buffer), name, data);
+		centralParts.push(new Uint8Array(central.buffer), name);
+		offset += 30 + name.length + data.length;
+	}
+
+	const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+	const end = new DataView(new ArrayBuffer(22));
+	end.setUint32(0, 0x06054b50, true); // end of central directory signature
+	end.setUint16(8, entries.length, true); // entries on this disk
+	end.setUint16(10, entries.length, true); // total entries
+	end.setUint32(12, centralSize, true);
+	end.setUint32(16, offset, true); // offset of the central directory
+
+	const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+	const archive = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+	let position = 0;
+	for (const part of parts) {
+		archive.set(part, position);
+		position += part.length;
+	}
+	return archive;
+}
@@ -1,6 +1,7 @@
 import type { LayoutServerLoad } from './$types';
 import { logLoadFunction } from '$lib/telemetry';
-import { getEnvironmentName } from '$lib/environment';
+import { getPostHogClientConfig } from '$lib/posthog';
+import { getUserById } from '$lib/auth';
 
 const ROUTE_ID = '/layout';
 
@@ -16,19 +17,23 @@ export const load: LayoutServerLoad = async ({ platform, locals, route, isDataRe
 			ENVIRONMENT?: string;
 			CF_PAGES_BRANCH?: string;
 		} | undefined;
-		const posthogApiKey = env?.POSTHOG_API_KEY || (typeof process !== 'undefined' ? process.env.POSTHOG_API_KEY : undefined);
-		const posthogHost = env?.POSTHOG_HOST || (typeof process !== 'undefined' ? process.env.POSTHOG_HOST : undefined);
-		const posthogOtlpHost = env?.POSTHOG_OTLP_HOST || (typeof process !== 'undefined' ? process.env.POSTHOG_OTLP_HOST : undefined);
+
+		// Shown in a banner on every page while an admin is signed in as another user
+		let impersonation: { username: string; impersonatorUsername: string } | null = null;
+		if (locals.userId && locals.impersonatorId) {
+			const [user, impersonator] = await Promise.all([
+				getUserById(locals.userId, platform?.env),
+				getUserById(locals.impersonatorId, platform?.env)
+			]);
+			impersonation = {
+				username: user?.username ?? `#${locals.userId}`,
+				impersonatorUsername: impersonator?.username ?? `#${locals.impersonatorId}`
+			};
+		}
 
 		const result = {
-			posthog: (posthogApiKey && typeof posthogApiKey === 'string' && posthogApiKey.length > 0) 
-				? {
-					apiKey: posthogApiKey,
-					host: posthogHost || undefined,
-					otlpHost: posthogOtlpHost || undefined,
-					environment: getEnvironmentName(env)
-				}
-				: undefined
+			posthog: getPostHogClientConfig(env),
+			impersonation
 		};
 
 		// Log load function performance
@@ -0,0 +1,90 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { deleteUser, getUserById } from '$lib/auth';
+import { reauthenticationErrorResponse, verifyReauthentication } from '$lib/auth/reauthentication';
+import { logAuthEvent } from '$lib/telemetry';
+
+export const GET: RequestHandler = async ({ locals, platform }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const user = await getUserById(locals.userId, platform?.env);
+	if (!user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	return json({
+		username: user.username,
+		email: user.email,
+		emailVerified: !!user.emailVerifiedAt,
+		hasPassword: user.hasPassword,
+		createdAt: user.createdAt
+	});
+};
+
+/**
+ * Delete the account after re-authentication (the password, or for accounts
+ * without one a 2FA code or a recent sign-in)
+ * Sessions, counters and all other user data are removed by the database cascade
+ */
+export const DELETE: RequestHandler = async ({ request, locals, platform, cookies, getClientAddress }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const userId = locals.userId;
+	const env = platform?.env;
+	const logContext = {
+		userId,
+		sessionId: locals.telemetryContext?.sessionId,
+		distinctId: `user_${userId}`,
+		ipAddress: getClientAddress(),
+		userAgent: request.headers.get('user-agent') || undefined
+	};
+
+	try {
+		const { password, code, recoveryCode } = await request.json();
+
+		const user = await getUserById(userId, env);
+		if (!user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const reauthentication = await verifyReauthentication(
+			user,
+			{ password, code, recoveryCode },
+			locals,
+			logContext.ipAddress,
+			env
+		);
+		if (reauthentication.status !== 'verified') {
+			if (reauthentication.status !== 'required') {
+				await logAuthEvent('account_deleted', {
+					...logContext,
+					success: false,
+					errorMessage: reauthentication.status === 'locked' ? 'Too many failed attempts' : 'Invalid password or code'
+				}, env);
+			}
+			return reauthenticationErrorResponse(reauthentication, user);
+		}
+
+		await deleteUser(userId, env);
+		cookies.delete('session', { path: '/' });
+
+		await logAuthEvent('account_deleted', {
+			...logContext,
+			success: true,
+			metadata: { username: user.username }
+		}, env);
+
+		return json({ success: true });
+	} catch (error: any) {
+		console.error('Account deletion error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Deleting account failed' }, { status: 500 });
+	}
+};
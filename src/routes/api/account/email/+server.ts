@@ -0,0 +1,110 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { getUserById } from '$lib/auth';
+import {
+	isSameEmail,
+	isValidEmail,
+	normalizeEmail,
+	sendEmailChangedNotice,
+	sendVerificationEmail,
+	setUserEmail
+} from '$lib/auth/email';
+import { reauthenticationErrorResponse, verifyReauthentication } from '$lib/auth/reauthentication';
+import { logAuthEvent } from '$lib/telemetry';
+
+/**
+ * Set, change or remove (`email: null`) the account's address
+ *
+ * Requires re-authentication like a password change, since the address
+ * receives password reset links; the previous verified address is told about
+ * the change. A new address is unverified until the mailed link is opened.
+ * The response is the same whether or not another account uses the address.
+ *
+ * Body: { email, password } (or `code`/`recoveryCode`, see $lib/auth/reauthentication)
+ */
+export const PATCH: RequestHandler = async ({ request, url, locals, platform, getClientAddress }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const userId = locals.userId;
+	const env = platform?.env;
+	const logContext = {
+		userId,
+		sessionId: locals.telemetryContext?.sessionId,
+		distinctId: `user_${userId}`,
+		ipAddress: getClientAddress(),
+		userAgent: request.headers.get('user-agent') || undefined
+	};
+
+	try {
+		const body = await request.json();
+		const email = body.email === null ? null : typeof body.email === 'string' ? normalizeEmail(body.email) : undefined;
+
+		if (email === undefined || (email !== null && !isValidEmail(email))) {
+			return json({ error: 'A valid email address is required' }, { status: 400 });
+		}
+
+		const user = await getUserById(userId, env);
+		if (!user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		// Addresses differing only in case are the same address
+		if (user.email === email || isSameEmail(user.email, email)) {
+			return json({ success: true, email: user.email, emailVerified: !!user.emailVerifiedAt });
+		}
+
+		const reauthentication = await verifyReauthentication(
+			user,
+			{ password: body.password, code: body.code, recoveryCode: body.recoveryCode },
+			locals,
+			logContext.ipAddress,
+			env
+		);
+		if (reauthentication.status !== 'verified') {
+			if (reauthentication.status !== 'required') {
+				await logAuthEvent('email_changed', {
+					...logContext,
+					success: false,
+					errorMessage: reauthentication.status === 'locked' ? 'Too many failed attempts' : 'Invalid password or code'
+				}, env);
+			}
+			return reauthenticationErrorResponse(reauthentication, user);
+		}
+
+		await setUserEmail(userId, email, env);
+
+		if (user.email && user.emailVerifiedAt) {
+			await sendEmailChangedNotice(user.email, user.username, email, env);
+		}
+
+		await logAuthEvent('email_changed', {
+			...logContext,
+			success: true,
+			metadata: { removed: String(email === null) }
+		}, env);
+
+		if (email === null) {
+			return json({ success: true, email, emailVerified: false });
+		}
+
+		// A throttled link can be requested again from the resend endpoint
+		const verification = await sendVerificationEmail(userId, email, url.origin, env);
+
+		return json({
+			success: true,
+			email,
+			emailVerified: false,
+			verificationSent: verification.sent,
+			...(verification.sent ? {} : { retryAfter: verification.retryAfter })
+		});
+	} catch (error: any) {
+		console.error('Email change error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Changing email failed' }, { status: 500 });
+	}
+};
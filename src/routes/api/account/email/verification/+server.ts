@@ -0,0 +1,55 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { getUserById } from '$lib/auth';
+import { sendVerificationEmail } from '$lib/auth/email';
+
+/**
+ * Resend the verification link for the account's unverified address
+ */
+export const POST: RequestHandler = async ({ url, locals, platform }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const env = platform?.env;
+
+	try {
+		const user = await getUserById(locals.userId, env);
+		if (!user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		if (!user.email) {
+			return json({ error: 'No email address to verify' }, { status: 400 });
+		}
+
+		if (user.emailVerifiedAt) {
+			return json({ error: 'Email address is already verified' }, { status: 400 });
+		}
+
+		const verification = await sendVerificationEmail(user.id, user.email, url.origin, env);
+		if (!verification.sent) {
+			return json(
+				{
+					error: 'A verification link was sent recently. Please wait before requesting another one.',
+					retryAfter: verification.retryAfter
+				},
+				{
+					status: 429,
+					headers: {
+						'Retry-After': String(verification.retryAfter)
+					}
+				}
+			);
+		}
+
+		return json({ success: true });
+	} catch (error: any) {
+		console.error('Verification resend error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Sending verification link failed' }, { status: 500 });
+	}
+};
@@ -0,0 +1,68 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { buildDataExport, createDataExportZip } from '$lib/data-export';
+import { logAuthEvent } from '$lib/telemetry';
+// Modules holding user data register their export sections when loaded
+import '$lib/auth';
+import '$lib/auth/roles';
+import '$lib/counters';
+import '$lib/auth/oauth';
+import '$lib/auth/webauthn';
+import '$lib/auth/api-tokens';
+import '$lib/auth/password-reset';
+import '$lib/auth/email';
+import '$lib/audit';
+
+/**
+ * Download all personal data as JSON (default) or, with `?format=zip`, as a ZIP archive
+ */
+export const GET: RequestHandler = async ({ url, request, locals, platform, getClientAddress }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const format = url.searchParams.get('format') || 'json';
+	if (format !== 'json' && format !== 'zip') {
+		return json({ error: 'Format must be json or zip' }, { status: 400 });
+	}
+
+	const userId = locals.userId;
+	const env = platform?.env;
+
+	try {
+		const dataExport = await buildDataExport(userId, env);
+		const fileName = `data-export-${userId}-${dataExport.exportedAt.slice(0, 10)}.${format}`;
+
+		await logAuthEvent('data_exported', {
+			userId,
+			sessionId: locals.telemetryContext?.sessionId,
+			distinctId: `user_${userId}`,
+			ipAddress: getClientAddress(),
+			userAgent: request.headers.get('user-agent') || undefined,
+			success: true,
+			metadata: { format, sections: Object.keys(dataExport.sections).join(',') }
+		}, env);
+
+		const headers = {
+			'Content-Disposition': `attachment; filename="${fileName}"`,
+			'Cache-Control': 'no-store'
+		};
+
+		if (format === 'zip') {
+			return new Response(createDataExportZip(dataExport), {
+				headers: { ...headers, 'Content-Type': 'application/zip' }
+			});
+		}
+
+		return new Response(JSON.stringify(dataExport, null, 2), {
+			headers: { ...headers, 'Content-Type': 'application/json' }
+		});
+	} catch (error: any) {
+		console.error('Data export error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Exporting data failed' }, { status: 500 });
+	}
+};
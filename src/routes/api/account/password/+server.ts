@@ -0,0 +1,79 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { changePassword, getUserById, rotateSessionCookie, validatePassword } from '$lib/auth';
+import { reauthenticationErrorResponse, verifyReauthentication } from '$lib/auth/reauthentication';
+import { logAuthEvent } from '$lib/telemetry';
+
+/**
+ * Change the password after re-authentication: the current password, or for
+ * accounts without a usable one a 2FA code or a recent sign-in
+ * Every other session is logged out and the current session ID is rotated
+ */
+export const PATCH: RequestHandler = async ({ request, locals, platform, cookies, getClientAddress }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const userId = locals.userId;
+	const env = platform?.env;
+	const logContext = {
+		userId,
+		sessionId: locals.telemetryContext?.sessionId,
+		distinctId: `user_${userId}`,
+		ipAddress: getClientAddress(),
+		userAgent: request.headers.get('user-agent') || undefined
+	};
+
+	try {
+		const { currentPassword, code, recoveryCode, newPassword } = await request.json();
+
+		if (!newPassword) {
+			return json({ error: 'New password is required' }, { status: 400 });
+		}
+
+		const user = await getUserById(userId, env);
+		if (!user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const reauthentication = await verifyReauthentication(
+			user,
+			{ password: currentPassword, code, recoveryCode },
+			locals,
+			logContext.ipAddress,
+			env
+		);
+		if (reauthentication.status !== 'verified') {
+			if (reauthentication.status !== 'required') {
+				await logAuthEvent('password_changed', {
+					...logContext,
+					success: false,
+					errorMessage: reauthentication.status === 'locked' ? 'Too many failed attempts' : 'Invalid password or code'
+				}, env);
+			}
+			return reauthenticationErrorResponse(reauthentication, user);
+		}
+
+		const failures = await validatePassword(newPassword, { username: user.username }, env);
+		if (failures.length > 0) {
+			return json({ error: failures[0].message, failures }, { status: 400 });
+		}
+
+		await changePassword(userId, newPassword, cookies.get('session'), env);
+		await rotateSessionCookie(cookies, env);
+
+		await logAuthEvent('password_changed', {
+			...logContext,
+			success: true
+		}, env);
+
+		return json({ success: true });
+	} catch (error: any) {
+		console.error('Password change error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Changing password failed' }, { status: 500 });
+	}
+};
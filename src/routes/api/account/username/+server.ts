@@ -0,0 +1,72 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { changeUsername, getUserById } from '$lib/auth';
+import { logAuthEvent } from '$lib/telemetry';
+
+export const PATCH: RequestHandler = async ({ request, locals, platform, getClientAddress }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const userId = locals.userId;
+	const env = platform?.env;
+	const logContext = {
+		userId,
+		sessionId: locals.telemetryContext?.sessionId,
+		distinctId: `user_${userId}`,
+		ipAddress: getClientAddress(),
+		userAgent: request.headers.get('user-agent') || undefined
+	};
+
+	try {
+		const { username } = await request.json();
+
+		if (typeof username !== 'string' || !username) {
+			return json({ error: 'Username is required' }, { status: 400 });
+		}
+
+		if (username.length < 3) {
+			return json({ error: 'Username must be at least 3 characters' }, { status: 400 });
+		}
+
+		const user = await getUserById(userId, env);
+		if (!user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		if (user.username === username) {
+			return json({ success: true, username });
+		}
+
+		try {
+			await changeUsername(userId, username, env);
+		} catch (error: any) {
+			if (error?.code !== '23505') {
+				throw error;
+			}
+
+			await logAuthEvent('username_changed', {
+				...logContext,
+				success: false,
+				errorMessage: 'Username already exists',
+				metadata: { username: user.username }
+			}, env);
+			return json({ error: 'Username already exists' }, { status: 409 });
+		}
+
+		await logAuthEvent('username_changed', {
+			...logContext,
+			success: true,
+			metadata: { previous_username: user.username, username }
+		}, env);
+
+		return json({ success: true, username });
+	} catch (error: any) {
+		console.error('Username change error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Changing username failed' }, { status: 500 });
+	}
+};
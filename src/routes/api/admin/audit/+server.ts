@@ -0,0 +1,31 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { listAuditLog, parseAuditLogQuery } from '$lib/audit';
+import { requireRole } from '$lib/auth/roles';
+
+/**
+ * List audit log entries, newest first (admin only)
+ *
+ * Filters: actor, action, target, success, since, until. Pass the returned
+ * nextCursor as `cursor` to get the next page.
+ */
+export const GET: RequestHandler = async ({ url, locals, platform }) => {
+	const denied = requireRole(locals, 'admin');
+	if (denied) return denied;
+
+	const parsed = parseAuditLogQuery(url.searchParams);
+	if ('error' in parsed) {
+		return json({ error: parsed.error }, { status: 400 });
+	}
+
+	try {
+		return json(await listAuditLog(parsed.query, platform?.env));
+	} catch (error: any) {
+		console.error('Audit log error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Loading audit log failed' }, { status: 500 });
+	}
+};
@@ -0,0 +1,113 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { getUserByUsername, setSessionCookie } from '$lib/auth';
+import { endImpersonation, startImpersonation } from '$lib/auth/impersonation';
+import { requireRole } from '$lib/auth/roles';
+import { logAuthEvent } from '$lib/telemetry';
+
+/**
+ * Sign in as another user (admin only)
+ *
+ * Replaces the admin's session with an impersonation session of the user
+ * named in the body; DELETE returns to the admin's own account.
+ */
+export const POST: RequestHandler = async ({ request, cookies, locals, platform, getClientAddress }) => {
+	const denied = requireRole(locals, 'admin');
+	if (denied) return denied;
+
+	if (locals.impersonatorId) {
+		return json({ error: 'Already impersonating a user' }, { status: 409 });
+	}
+
+	const env = platform?.env;
+	const impersonatorId = locals.userId as number;
+	const logContext = {
+		userId: impersonatorId,
+		sessionId: locals.telemetryContext?.sessionId,
+		distinctId: `user_${impersonatorId}`,
+		ipAddress: getClientAddress(),
+		userAgent: request.headers.get('user-agent') || undefined
+	};
+
+	try {
+		const { username } = await request.json();
+		if (!username || typeof username !== 'string') {
+			return json({ error: 'username is required' }, { status: 400 });
+		}
+
+		const user = await getUserByUsername(username, env);
+		if (!user) {
+			return json({ error: 'User not found' }, { status: 404 });
+		}
+
+		if (user.id === impersonatorId) {
+			return json({ error: 'Cannot impersonate yourself' }, { status: 400 });
+		}
+
+		const { sessionId, expiresAt } = await startImpersonation(impersonatorId, user.id, cookies.get('session'), env, {
+			userAgent: logContext.userAgent,
+			ipAddress: logContext.ipAddress
+		});
+		setSessionCookie(cookies, sessionId, env, expiresAt);
+
+		await logAuthEvent('impersonation_started', {
+			...logContext,
+			target: `user:${user.id}`,
+			success: true,
+			metadata: { username: user.username }
+		}, env);
+
+		return json({ success: true, user: { id: user.id, username: user.username }, expiresAt });
+	} catch (error: any) {
+		console.error('Start impersonation error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Starting impersonation failed' }, { status: 500 });
+	}
+};
+
+/**
+ * Stop impersonating and return to the admin's own account
+ *
+ * Checks the impersonation instead of the admin role: the session carries the
+ * roles of the impersonated user.
+ */
+export const DELETE: RequestHandler = async ({ request, cookies, locals, platform, getClientAddress }) => {
+	const sessionId = cookies.get('session');
+	if (!locals.userId || !locals.impersonatorId || !sessionId) {
+		return json({ error: 'Not impersonating' }, { status: 400 });
+	}
+
+	const env = platform?.env;
+	const userAgent = request.headers.get('user-agent') || undefined;
+
+	try {
+		const ended = await endImpersonation(sessionId, env, { userAgent, ipAddress: getClientAddress() });
+		if (!ended) {
+			return json({ error: 'Not impersonating' }, { status: 400 });
+		}
+		setSessionCookie(cookies, ended.sessionId, env);
+
+		await logAuthEvent('impersonation_ended', {
+			userId: ended.impersonatorId,
+			sessionId: locals.telemetryContext?.sessionId,
+			distinctId: `user_${ended.impersonatorId}`,
+			ipAddress: getClientAddress(),
+			userAgent,
+			target: `user:${ended.userId}`,
+			success: true,
+			metadata: { reason: 'exited' }
+		}, env);
+
+		return json({ success: true });
+	} catch (error: any) {
+		console.error('End impersonation error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Ending impersonation failed' }, { status: 500 });
+	}
+};
@@ -0,0 +1,57 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { clearLockout } from '$lib/auth/lockout';
+import { hasRole } from '$lib/auth/roles';
+import { logAuthEvent } from '$lib/telemetry';
+
+/**
+ * Lift a login lockout for a username and/or client IP
+ *
+ * Allowed for logged-in admins, and for scripts presenting ADMIN_SECRET
+ * as a bearer token (disabled while the secret is unset).
+ */
+export const DELETE: RequestHandler = async ({ request, platform, locals, getClientAddress }) => {
+	const env = platform?.env;
+	const adminSecret = env?.ADMIN_SECRET || (typeof process !== 'undefined' ? process.env.ADMIN_SECRET : undefined);
+	const hasSecret = !!adminSecret && request.headers.get('authorization') === `Bearer ${adminSecret}`;
+
+	if (!hasSecret && !hasRole(locals, 'admin')) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const { username, ipAddress } = await request.json();
+
+		if (!username && !ipAddress) {
+			return json({ error: 'username or ipAddress is required' }, { status: 400 });
+		}
+		if ((username && typeof username !== 'string') || (ipAddress && typeof ipAddress !== 'string')) {
+			return json({ error: 'username and ipAddress must be strings' }, { status: 400 });
+		}
+
+		await clearLockout({ username, ipAddress }, env);
+
+		await logAuthEvent('lockout_cleared', {
+			userId: locals.userId,
+			sessionId: locals.telemetryContext?.sessionId,
+			distinctId: locals.userId ? `user_${locals.userId}` : locals.telemetryContext?.distinctId,
+			ipAddress: getClientAddress(),
+			userAgent: request.headers.get('user-agent') || undefined,
+			success: true,
+			metadata: {
+				auth: hasSecret ? 'secret' : 'session',
+				...(username ? { username } : {}),
+				...(ipAddress ? { lockout_ip_address: ipAddress } : {})
+			}
+		}, env);
+
+		return json({ success: true });
+	} catch (error: any) {
+		console.error('Clear lockout error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Clearing lockout failed' }, { status: 500 });
+	}
+};
@@ -1,6 +1,9 @@
 import type { RequestHandler } from './$types';
 import { json } from '@sveltejs/kit';
+import { bootstrapAdmin, requireRole } from '$lib/auth/roles';
+import { CSRF_COOKIE, CSRF_HEADER } from '$lib/csrf';
 import { getDb } from '$lib/db';
+import { logAuthEvent } from '$lib/telemetry';
 
 // The SQL migration content
 const MIGRATION_SQL = `
@@ -26,6 +29,16 @@ CREATE TABLE IF NOT EXISTS "users" (
 CONSTRAINT "users_username_unique" UNIQUE("username")
 );
 
+CREATE TABLE IF NOT EXISTS "password_reset_tokens" (
+"id" serial PRIMARY KEY NOT NULL,
+"user_id" integer NOT NULL,
+"token_hash" text NOT NULL,
+"expires_at" timestamp NOT NULL,
+"used_at" timestamp,
+"created_at" timestamp DEFAULT now() NOT NULL,
+CONSTRAINT "password_reset_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+
 DO $$ 
 BEGIN
 IF NOT EXISTS (
@@ -45,13 +58,334 @@ ALTER TABLE "sessions" ADD CONSTRAINT "sessions_user_id_users_id_fk"
 FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
 END IF;
 END $$;
+
+DO $$ 
+BEGIN
+IF NOT EXISTS (
+SELECT 1 FROM pg_constraint WHERE conname = 'password_reset_tokens_user_id_users_id_fk'
+) THEN
+ALTER TABLE "password_reset_tokens" ADD CONSTRAINT "password_reset_tokens_user_id_users_id_fk" 
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+END IF;
+END $$;
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "totp_secret" text;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "totp_enabled_at" timestamp;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "totp_last_used_step" integer;
+
+CREATE TABLE IF NOT EXISTS "recovery_codes" (
+"id" serial PRIMARY KEY NOT NULL,
+"user_id" integer NOT NULL,
+"code_hash" text NOT NULL,
+"used_at" timestamp,
+"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "two_factor_challenges" (
+"id" text PRIMARY KEY NOT NULL,
+"user_id" integer NOT NULL,
+"attempts" integer DEFAULT 0 NOT NULL,
+"expires_at" timestamp NOT NULL
+);
+
+DO $$ 
+BEGIN
+IF NOT EXISTS (
+SELECT 1 FROM pg_constraint WHERE conname = 'recovery_codes_user_id_users_id_fk'
+) THEN
+ALTER TABLE "recovery_codes" ADD CONSTRAINT "recovery_codes_user_id_users_id_fk" 
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+END IF;
+END $$;
+
+DO $$ 
+BEGIN
+IF NOT EXISTS (
+SELECT 1 FROM pg_constraint WHERE conname = 'two_factor_challenges_user_id_users_id_fk'
+) THEN
+ALTER TABLE "two_factor_challenges" ADD CONSTRAINT "two_factor_challenges_user_id_users_id_fk" 
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "webauthn_credentials" (
+"id" text PRIMARY KEY NOT NULL,
+"user_id" integer NOT NULL,
+"public_key" text NOT NULL,
+"counter" integer DEFAULT 0 NOT NULL,
+"transports" text,
+"device_type" text NOT NULL,
+"backed_up" boolean DEFAULT false NOT NULL,
+"name" text,
+"created_at" timestamp DEFAULT now() NOT NULL,
+"last_used_at" timestamp
+);
+
+CREATE TABLE IF NOT EXISTS "webauthn_challenges" (
+"id" text PRIMARY KEY NOT NULL,
+"challenge" text NOT NULL,
+"user_id" integer,
+"expires_at" timestamp NOT NULL
+);
+
+DO $$ 
+BEGIN
+IF NOT EXISTS (
+SELECT 1 FROM pg_constraint WHERE conname = 'webauthn_credentials_user_id_users_id_fk'
+) THEN
+ALTER TABLE "webauthn_credentials" ADD CONSTRAINT "webauthn_credentials_user_id_users_id_fk" 
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+END IF;
+END $$;
+
+DO $$ 
+BEGIN
+IF NOT EXISTS (
+SELECT 1 FROM pg_constraint WHERE conname = 'webauthn_challenges_user_id_users_id_fk'
+) THEN
+ALTER TABLE "webauthn_challenges" ADD CONSTRAINT "webauthn_challenges_user_id_users_id_fk" 
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "oauth_accounts" (
+"id" serial PRIMARY KEY NOT NULL,
+"user_id" integer NOT NULL,
+"provider" text NOT NULL,
+"provider_user_id" text NOT NULL,
+"email" text,
+"created_at" timestamp DEFAULT now() NOT NULL,
+CONSTRAINT "oauth_accounts_provider_user_unique" UNIQUE("provider","provider_user_id"),
+CONSTRAINT "oauth_accounts_user_provider_unique" UNIQUE("user_id","provider")
+);
+
+DO $$ 
+BEGIN
+IF NOT EXISTS (
+SELECT 1 FROM pg_constraint WHERE conname = 'oauth_accounts_user_id_users_id_fk'
+) THEN
+ALTER TABLE "oauth_accounts" ADD CONSTRAINT "oauth_accounts_user_id_users_id_fk" 
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+END IF;
+END $$;
+
+ALTER TABLE "sessions" ADD COLUMN IF NOT EXISTS "created_at" timestamp DEFAULT now() NOT NULL;
+ALTER TABLE "sessions" ADD COLUMN IF NOT EXISTS "last_seen_at" timestamp DEFAULT now() NOT NULL;
+ALTER TABLE "sessions" ADD COLUMN IF NOT EXISTS "user_agent" text;
+ALTER TABLE "sessions" ADD COLUMN IF NOT EXISTS "ip_address" text;
+ALTER TABLE "sessions" ADD COLUMN IF NOT EXISTS "rotated_at" timestamp DEFAULT now() NOT NULL;
+ALTER TABLE "sessions" ADD COLUMN IF NOT EXISTS "replaced_at" timestamp;
+
+-- Session IDs used to be stored raw: hash them in place (so existing logins stay valid)
+-- and rename the column, which also marks the conversion as done
+DO $$ 
+BEGIN
+IF EXISTS (
+SELECT 1 FROM information_schema.columns WHERE table_name = 'sessions' AND column_name = 'id'
+) THEN
+UPDATE "sessions" SET "id" = encode(sha256(convert_to("id", 'UTF8')), 'hex');
+ALTER TABLE "sessions" RENAME COLUMN "id" TO "token_hash";
+END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "api_tokens" (
+"id" serial PRIMARY KEY NOT NULL,
+"user_id" integer NOT NULL,
+"name" text NOT NULL,
+"token_hash" text NOT NULL,
+"token_prefix" text NOT NULL,
+"scopes" text NOT NULL,
+"expires_at" timestamp,
+"last_used_at" timestamp,
+"created_at" timestamp DEFAULT now() NOT NULL,
+CONSTRAINT "api_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+
+DO $$ 
+BEGIN
+IF NOT EXISTS (
+SELECT 1 FROM pg_constraint WHERE conname = 'api_tokens_user_id_users_id_fk'
+) THEN
+ALTER TABLE "api_tokens" ADD CONSTRAINT "api_tokens_user_id_users_id_fk" 
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "user_roles" (
+"user_id" integer NOT NULL,
+"role" text NOT NULL,
+"granted_at" timestamp DEFAULT now() NOT NULL,
+"granted_by" integer,
+CONSTRAINT "user_roles_user_id_role_pk" PRIMARY KEY("user_id","role")
+);
+
+DO $$ 
+BEGIN
+IF NOT EXISTS (
+SELECT 1 FROM pg_constraint WHERE conname = 'user_roles_user_id_users_id_fk'
+) THEN
+ALTER TABLE "user_roles" ADD CONSTRAINT "user_roles_user_id_users_id_fk" 
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+END IF;
+IF NOT EXISTS (
+SELECT 1 FROM pg_constraint WHERE conname = 'user_roles_granted_by_users_id_fk'
+) THEN
+ALTER TABLE "user_roles" ADD CONSTRAINT "user_roles_granted_by_users_id_fk" 
+FOREIGN KEY ("granted_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "audit_log" (
+"id" serial PRIMARY KEY NOT NULL,
+"actor_user_id" integer,
+"action" text NOT NULL,
+"target" text,
+"success" boolean NOT NULL,
+"ip_address" text,
+"user_agent" text,
+"metadata" jsonb,
+"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "audit_log_actor_user_id_idx" ON "audit_log" USING btree ("actor_user_id");
+CREATE INDEX IF NOT EXISTS "audit_log_action_idx" ON "audit_log" USING btree ("action");
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "email" text;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "email_verified_at" timestamp;
+
+CREATE TABLE IF NOT EXISTS "email_tokens" (
+"id" serial PRIMARY KEY NOT NULL,
+"user_id" integer NOT NULL,
+"purpose" text NOT NULL,
+"email" text NOT NULL,
+"token_hash" text NOT NULL,
+"expires_at" timestamp NOT NULL,
+"used_at" timestamp,
+"created_at" timestamp DEFAULT now() NOT NULL,
+CONSTRAINT "email_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+
+DO $$ 
+BEGIN
+IF NOT EXISTS (
+SELECT 1 FROM pg_constraint WHERE conname = 'email_tokens_user_id_users_id_fk'
+) THEN
+ALTER TABLE "email_tokens" ADD CONSTRAINT "email_tokens_user_id_users_id_fk" 
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+END IF;
+END $$;
+
+ALTER TABLE "users" DROP CONSTRAINT IF EXISTS "users_email_unique";
+
+-- Only verified addresses are unique; replace the earlier index covering all addresses
+DO $$
+BEGIN
+IF EXISTS (
+SELECT 1 FROM pg_indexes WHERE indexname = 'users_email_lower_unique' AND indexdef NOT LIKE '%WHERE%'
+) THEN
+DROP INDEX "users_email_lower_unique";
+END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "users_email_lower_unique" ON "users" USING btree (lower("email")) WHERE "users"."email_verified_at" is not null;
+
+ALTER TABLE "sessions" ADD COLUMN IF NOT EXISTS "impersonator_id" integer;
+
+DO $$ 
+BEGIN
+IF NOT EXISTS (
+SELECT 1 FROM pg_constraint WHERE conname = 'sessions_impersonator_id_users_id_fk'
+) THEN
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_impersonator_id_users_id_fk" 
+FOREIGN KEY ("impersonator_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+END IF;
+END $$;
+
+ALTER TABLE "counters" DROP CONSTRAINT IF EXISTS "counters_user_id_unique";
+ALTER TABLE "counters" ADD COLUMN IF NOT EXISTS "name" text DEFAULT 'Default' NOT NULL;
+ALTER TABLE "counters" ADD COLUMN IF NOT EXISTS "position" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "counters" ADD COLUMN IF NOT EXISTS "created_at" timestamp DEFAULT now() NOT NULL;
+CREATE INDEX IF NOT EXISTS "counters_user_id_position_idx" ON "counters" USING btree ("user_id","position");
+
+ALTER TABLE "counters" ADD COLUMN IF NOT EXISTS "is_default" boolean DEFAULT false NOT NULL;
+-- The oldest counter of each user becomes the default, unless the user already has one
+UPDATE "counters" SET "is_default" = true
+WHERE "id" IN (SELECT min("id") FROM "counters" GROUP BY "user_id")
+AND "user_id" NOT IN (SELECT "user_id" FROM "counters" WHERE "is_default");
+CREATE UNIQUE INDEX IF NOT EXISTS "counters_user_id_default_unique" ON "counters" USING btree ("user_id") WHERE "counters"."is_default";
+
+CREATE TABLE IF NOT EXISTS "counter_events" (
+"id" serial PRIMARY KEY NOT NULL,
+"counter_id" integer NOT NULL,
+"user_id" integer,
+"action" text NOT NULL,
+"delta" integer NOT NULL,
+"old_value" integer NOT NULL,
+"new_value" integer NOT NULL,
+"request_id" text,
+"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+DO $$ 
+BEGIN
+IF NOT EXISTS (
+SELECT 1 FROM pg_constraint WHERE conname = 'counter_events_counter_id_counters_id_fk'
+) THEN
+ALTER TABLE "counter_events" ADD CONSTRAINT "counter_events_counter_id_counters_id_fk" 
+FOREIGN KEY ("counter_id") REFERENCES "public"."counters"("id") ON DELETE cascade ON UPDATE no action;
+END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "counter_events_counter_id_idx" ON "counter_events" USING btree ("counter_id","id");
+
+CREATE TABLE IF NOT EXISTS "counter_operations" (
+"id" serial PRIMARY KEY NOT NULL,
+"counter_id" integer NOT NULL,
+"delta" integer NOT NULL,
+"undone_at" timestamp,
+"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+DO $$ 
+BEGIN
+IF NOT EXISTS (
+SELECT 1 FROM pg_constraint WHERE conname = 'counter_operations_counter_id_counters_id_fk'
+) THEN
+ALTER TABLE "counter_operations" ADD CONSTRAINT "counter_operations_counter_id_counters_id_fk" 
+FOREIGN KEY ("counter_id") REFERENCES "public"."counters"("id") ON DELETE cascade ON UPDATE no action;
+END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "counter_operations_counter_id_idx" ON "counter_operations" USING btree ("counter_id","id");
+
+ALTER TABLE "counters" ADD COLUMN IF NOT EXISTS "step" integer DEFAULT 1 NOT NULL;
+ALTER TABLE "counters" ADD COLUMN IF NOT EXISTS "min_value" integer;
+ALTER TABLE "counters" ADD COLUMN IF NOT EXISTS "max_value" integer;
+ALTER TABLE "counters" ADD COLUMN IF NOT EXISTS "overflow" text DEFAULT 'clamp' NOT NULL;
+
+-- False for accounts created through an OAuth provider until a password is set
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "has_password" boolean DEFAULT true NOT NULL;
+
+-- Token hash of the session that replaced a rotated one
+ALTER TABLE "sessions" ADD COLUMN IF NOT EXISTS "replaced_by" text;
 `;
 
-export const POST: RequestHandler = async ({ request, platform }) => {
+// Tables that must exist for the application to work
+const REQUIRED_TABLES = ['users', 'sessions', 'counters', 'password_reset_tokens', 'recovery_codes', 'two_factor_challenges', 'webauthn_credentials', 'webauthn_challenges', 'oauth_accounts', 'api_tokens', 'user_roles', 'audit_log', 'email_tokens', 'counter_events', 'counter_operations'];
+
+export const POST: RequestHandler = async ({ request, platform, locals, getClientAddress }) => {
+	const env = platform?.env as { DATABASE_URL?: string; MIGRATION_SECRET?: string; INITIAL_ADMIN_USERNAME?: string } | undefined;
+	const auditContext = {
+		userId: locals.userId,
+		sessionId: locals.telemetryContext?.sessionId,
+		distinctId: locals.userId ? `user_${locals.userId}` : locals.telemetryContext?.distinctId,
+		ipAddress: getClientAddress(),
+		userAgent: request.headers.get('user-agent') || undefined
+	};
+
 	try {
 		// Simple authentication check - require a secret token
 		const authHeader = request.headers.get('authorization');
-		const env = platform?.env as { DATABASE_URL?: string; MIGRATION_SECRET?: string } | undefined;
 		
 		// Check for migration secret (optional, but recommended)
 		const migrationSecret = env?.MIGRATION_SECRET;
@@ -59,6 +393,13 @@ export const POST: RequestHandler = async ({ request, platform }) => {
 			if (!authHeader || authHeader !== `Bearer ${migrationSecret}`) {
 				return json({ error: 'Unauthorized' }, { status: 401 });
 			}
+		} else {
+			// Without a secret, only admins may migrate; a fresh database needs the secret
+			// (or `bun run db:migrate`) for its first migration
+			const denied = requireRole(locals, 'admin');
+			if (denied) {
+				return denied;
+			}
 		}
 
 		const db = getDb(env);
@@ -66,6 +407,16 @@ export const POST: RequestHandler = async ({ request, platform }) => {
 		// Execute the migration SQL as a single statement
 		await db.execute(MIGRATION_SQL as any);
 
+		// The roles table exists now, so the initial admin can be promoted; only the
+		// secret holder may do that, as registering the name is open to anyone
+		const adminBootstrapped = migrationSecret ? await bootstrapAdmin(env) : false;
+
+		await logAuthEvent('migration_run', {
+			...auditContext,
+			success: true,
+			metadata: { auth: migrationSecret ? 'secret' : 'session', adminBootstrapped: String(adminBootstrapped) }
+		}, env);
+
 		return json({ 
 			success: true, 
 			message: 'Database migration completed successfully'
@@ -77,6 +428,11 @@ export const POST: RequestHandler = async ({ request, platform }) => {
 			name: error?.name,
 			stack: error?.stack
 		});
+		await logAuthEvent('migration_run', {
+			...auditContext,
+			success: false,
+			errorMessage: error?.message || String(error)
+		}, env);
 		return json({ 
 			error: 'Migration failed', 
 			details: error?.message 
@@ -95,17 +451,14 @@ export const GET: RequestHandler = async ({ request, platform }) => {
 			SELECT table_name 
 			FROM information_schema.tables 
 			WHERE table_schema = 'public' 
-			AND table_name IN ('users', 'sessions', 'counters')
+			AND table_name IN (${REQUIRED_TABLES.map((name) => `'${name}'`).join(', ')})
 			ORDER BY table_name
 		` as any);
 		
 		const tables = (result as any)?.rows || [];
 		const tableNames = tables.map((row: any) => row.table_name);
 		
-		const allTablesExist = tableNames.length === 3 && 
-			tableNames.includes('users') && 
-			tableNames.includes('sessions') && 
-			tableNames.includes('counters');
+		const allTablesExist = REQUIRED_TABLES.every((name) => tableNames.includes(name));
 
 		// Check if request wants JSON (API call) or HTML (browser)
 		const acceptHeader = request.headers.get('accept') || '';
@@ -332,6 +685,15 @@ export const GET: RequestHandler = async ({ request, platform }) => {
 				if (authToken && authToken.value) {
 					headers['Authorization'] = 'Bearer ' + authToken.value;
 				}
+
+				// This page is served outside the app, so repeat the double-submit token
+				// for CSRF_PROTECTION=token ourselves (see $lib/csrf)
+				const csrfCookie = document.cookie
+					.split('; ')
+					.find((cookie) => cookie.startsWith('${CSRF_COOKIE}='));
+				if (csrfCookie) {
+					headers['${CSRF_HEADER}'] = csrfCookie.slice('${CSRF_COOKIE}='.length);
+				}
 				
 				const response = await fetch('/api/admin/migrate', {
 					method: 'POST',
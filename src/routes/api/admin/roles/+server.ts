@@ -0,0 +1,111 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { getUserByUsername } from '$lib/auth';
+import {
+	GRANTABLE_ROLES,
+	getUserIdsWithRole,
+	getUserRoles,
+	grantRole,
+	isGrantableRole,
+	requireRole,
+	revokeRole
+} from '$lib/auth/roles';
+import { logAuthEvent } from '$lib/telemetry';
+
+async function readTarget(request: Request, env?: { DATABASE_URL?: string }) {
+	const { username, role } = await request.json();
+
+	if (!username || !isGrantableRole(role)) {
+		return { error: json({ error: `username and role (${GRANTABLE_ROLES.join(', ')}) are required` }, { status: 400 }) };
+	}
+
+	const user = await getUserByUsername(username, env);
+	if (!user) {
+		return { error: json({ error: 'User not found' }, { status: 404 }) };
+	}
+
+	return { user, role };
+}
+
+/**
+ * Grant a role to a user (admin only)
+ */
+export const POST: RequestHandler = async ({ request, locals, platform, getClientAddress }) => {
+	const denied = requireRole(locals, 'admin');
+	if (denied) return denied;
+
+	const env = platform?.env;
+
+	try {
+		const target = await readTarget(request, env);
+		if (target.error) return target.error;
+
+		await grantRole(target.user.id, target.role, locals.userId ?? null, env);
+
+		await logAuthEvent('role_granted', {
+			userId: locals.userId,
+			sessionId: locals.telemetryContext?.sessionId,
+			distinctId: `user_${locals.userId}`,
+			ipAddress: getClientAddress(),
+			userAgent: request.headers.get('user-agent') || undefined,
+			target: `user:${target.user.id}`,
+			success: true,
+			metadata: { role: target.role }
+		}, env);
+
+		return json({ success: true, roles: await getUserRoles(target.user.id, env) });
+	} catch (error: any) {
+		console.error('Grant role error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Granting role failed' }, { status: 500 });
+	}
+};
+
+/**
+ * Revoke a role from a user (admin only); the last admin cannot be removed
+ */
+export const DELETE: RequestHandler = async ({ request, locals, platform, getClientAddress }) => {
+	const denied = requireRole(locals, 'admin');
+	if (denied) return denied;
+
+	const env = platform?.env;
+
+	try {
+		const target = await readTarget(request, env);
+		if (target.error) return target.error;
+
+		if (target.role === 'admin') {
+			const admins = await getUserIdsWithRole('admin', env);
+			if (admins.length === 1 && admins[0] === target.user.id) {
+				return json({ error: 'Cannot remove the last admin' }, { status: 409 });
+			}
+		}
+
+		if (!(await revokeRole(target.user.id, target.role, env))) {
+			return json({ error: 'User does not have this role' }, { status: 404 });
+		}
+
+		await logAuthEvent('role_revoked', {
+			userId: locals.userId,
+			sessionId: locals.telemetryContext?.sessionId,
+			distinctId: `user_${locals.userId}`,
+			ipAddress: getClientAddress(),
+			userAgent: request.headers.get('user-agent') || undefined,
+			target: `user:${target.user.id}`,
+			success: true,
+			metadata: { role: target.role }
+		}, env);
+
+		return json({ success: true, roles: await getUserRoles(target.user.id, env) });
+	} catch (error: any) {
+		console.error('Revoke role error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Revoking role failed' }, { status: 500 });
+	}
+};
@@ -0,0 +1,12 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { getTwoFactorStatus } from '$lib/auth/two-factor';
+
+export const GET: RequestHandler = async ({ locals, platform }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const status = await getTwoFactorStatus(locals.userId, platform?.env);
+	return json(status);
+};
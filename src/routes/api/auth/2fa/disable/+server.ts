@@ -0,0 +1,73 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { getDb } from '$lib/db';
+import { users } from '$lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { rotateSessionCookie, verifyPassword } from '$lib/auth';
+import { disableTotp, verifySecondFactor } from '$lib/auth/two-factor';
+import { logAuthEvent } from '$lib/telemetry';
+
+export const POST: RequestHandler = async ({ request, locals, platform, cookies, getClientAddress }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const userId = locals.userId;
+	const env = platform?.env;
+	const logContext = {
+		userId,
+		sessionId: locals.telemetryContext?.sessionId,
+		distinctId: `user_${userId}`,
+		ipAddress: getClientAddress(),
+		userAgent: request.headers.get('user-agent') || undefined
+	};
+
+	try {
+		const { password, code, recoveryCode } = await request.json();
+
+		if (!password || (!code && !recoveryCode)) {
+			return json({ error: 'Password and a code are required' }, { status: 400 });
+		}
+
+		const [user] = await getDb(env).select().from(users).where(eq(users.id, userId)).limit(1);
+
+		if (!user || !(await verifyPassword(password, user.password, { userId, env }))) {
+			await logAuthEvent('two_factor_disabled', {
+				...logContext,
+				success: false,
+				errorMessage: 'Invalid password'
+			}, env);
+			return json({ error: 'Invalid password' }, { status: 400 });
+		}
+
+		const result = await verifySecondFactor(userId, { code, recoveryCode }, env);
+
+		if (!result.valid) {
+			await logAuthEvent('two_factor_disabled', {
+				...logContext,
+				success: false,
+				errorMessage: 'Invalid code',
+				metadata: { method: result.method }
+			}, env);
+			return json({ error: 'Invalid code' }, { status: 400 });
+		}
+
+		await disableTotp(userId, env);
+		await rotateSessionCookie(cookies, env);
+
+		await logAuthEvent('two_factor_disabled', {
+			...logContext,
+			success: true,
+			metadata: { method: result.method }
+		}, env);
+
+		return json({ success: true });
+	} catch (error: any) {
+		console.error('2FA disable error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Disabling two-factor authentication failed' }, { status: 500 });
+	}
+};
@@ -0,0 +1,51 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { rotateSessionCookie } from '$lib/auth';
+import { enableTotp } from '$lib/auth/two-factor';
+import { logAuthEvent } from '$lib/telemetry';
+
+export const POST: RequestHandler = async ({ request, locals, platform, cookies, getClientAddress }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const userId = locals.userId;
+	const env = platform?.env;
+
+	try {
+		const { code } = await request.json();
+
+		if (!code) {
+			return json({ error: 'Code is required' }, { status: 400 });
+		}
+
+		const recoveryCodes = await enableTotp(userId, String(code), env);
+
+		await logAuthEvent('two_factor_enabled', {
+			userId,
+			sessionId: locals.telemetryContext?.sessionId,
+			distinctId: `user_${userId}`,
+			ipAddress: getClientAddress(),
+			userAgent: request.headers.get('user-agent') || undefined,
+			success: !!recoveryCodes,
+			errorMessage: recoveryCodes ? undefined : 'Invalid code'
+		}, env);
+
+		if (!recoveryCodes) {
+			return json({ error: 'Invalid code' }, { status: 400 });
+		}
+
+		// Security-relevant change: issue a new session ID
+		await rotateSessionCookie(cookies, env);
+
+		// Recovery codes are only stored hashed, so this is the only time they are shown
+		return json({ success: true, recoveryCodes });
+	} catch (error: any) {
+		console.error('2FA enable error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Enabling two-factor authentication failed' }, { status: 500 });
+	}
+};
@@ -0,0 +1,49 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { getDb } from '$lib/db';
+import { users } from '$lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { beginTotpEnrollment } from '$lib/auth/two-factor';
+import { logAuthEvent } from '$lib/telemetry';
+
+export const POST: RequestHandler = async ({ request, locals, platform, getClientAddress }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const userId = locals.userId;
+	const env = platform?.env;
+
+	try {
+		const [user] = await getDb(env)
+			.select({ username: users.username })
+			.from(users)
+			.where(eq(users.id, userId))
+			.limit(1);
+
+		const enrollment = user ? await beginTotpEnrollment(userId, user.username, env) : null;
+
+		await logAuthEvent('two_factor_setup', {
+			userId,
+			sessionId: locals.telemetryContext?.sessionId,
+			distinctId: `user_${userId}`,
+			ipAddress: getClientAddress(),
+			userAgent: request.headers.get('user-agent') || undefined,
+			success: !!enrollment,
+			errorMessage: enrollment ? undefined : 'Two-factor authentication already enabled'
+		}, env);
+
+		if (!enrollment) {
+			return json({ error: 'Two-factor authentication is already enabled' }, { status: 409 });
+		}
+
+		return json(enrollment);
+	} catch (error: any) {
+		console.error('2FA setup error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Two-factor setup failed' }, { status: 500 });
+	}
+};
@@ -1,15 +1,145 @@
 import type { RequestHandler } from './$types';
-import { getUserByUsername, verifyPassword, createSession } from '$lib/auth';
+import { getUserByUsername, verifyPassword, createSession, getSessionTelemetryId, setSessionCookie } from '$lib/auth';
 import { json } from '@sveltejs/kit';
 import { logServerException } from '$lib/posthog-otlp';
 import { logAuthEvent } from '$lib/telemetry';
+import {
+	clearTwoFactorChallengeCookie,
+	createTwoFactorChallenge,
+	completeTwoFactorChallenge,
+	getTwoFactorChallengeUsername,
+	setTwoFactorChallengeCookie,
+	TWO_FACTOR_CHALLENGE_COOKIE
+} from '$lib/auth/two-factor';
+import { recordLoginSuccess, reserveLoginAttempt } from '$lib/auth/lockout';
 
 export const POST: RequestHandler = async ({ request, cookies, platform, getClientAddress, locals }) => {
 	const startTime = Date.now();
 	let username: string | undefined;
+
+	/**
+	 * Count an attempt before any credential is checked, refusing it while the
+	 * username or client IP is blocked; the attempt counts as failed until
+	 * recordLoginSuccess. Reports a lockout when it starts.
+	 *
+	 * @returns The 429 response if the attempt is refused
+	 */
+	async function reserveAttempt(attemptedUsername: string | undefined): Promise<Response | null> {
+		const reservation = await reserveLoginAttempt(attemptedUsername, getClientAddress(), platform?.env);
+
+		if (!reservation.allowed) {
+			await logAuthEvent('login_failure', {
+				distinctId: locals.telemetryContext?.distinctId,
+				ipAddress: getClientAddress(),
+				userAgent: request.headers.get('user-agent') || undefined,
+				success: false,
+				errorMessage: 'Too many failed attempts',
+				metadata: { username: attemptedUsername || 'unknown', lockout_scope: reservation.scope }
+			}, platform?.env);
+
+			return json(
+				{
+					error: 'Too many failed login attempts. Please try again later.',
+					retryAfter: reservation.retryAfter
+				},
+				{
+					status: 429,
+					headers: {
+						'Retry-After': String(reservation.retryAfter)
+					}
+				}
+			);
+		}
+
+		for (const scope of reservation.lockedOut) {
+			await logAuthEvent('account_locked', {
+				distinctId: locals.telemetryContext?.distinctId,
+				ipAddress: getClientAddress(),
+				userAgent: request.headers.get('user-agent') || undefined,
+				success: false,
+				errorMessage: 'Too many failed login attempts',
+				metadata: { username: attemptedUsername || 'unknown', lockout_scope: scope }
+			}, platform?.env);
+		}
+		return null;
+	}
 	
 	try {
 		const body = await request.json();
+
+		// Second step: answer the 2FA challenge issued after a successful first step
+		// (password, provider or email link), which the challenge cookie refers to
+		if (body.code || body.recoveryCode) {
+			// A missing or expired cookie fails as an invalid challenge
+			const challengeToken = cookies.get(TWO_FACTOR_CHALLENGE_COOKIE) ?? '';
+			// Codes count against the same lockout as passwords, per username and IP;
+			// unknown or expired challenges count against the IP only
+			const challengeUsername = await getTwoFactorChallengeUsername(challengeToken, platform?.env);
+			const refused = await reserveAttempt(challengeUsername ?? undefined);
+			if (refused) {
+				return refused;
+			}
+
+			const result = await completeTwoFactorChallenge(
+				challengeToken,
+				{ code: body.code, recoveryCode: body.recoveryCode },
+				platform?.env
+			);
+
+			if (!result.userId) {
+				await logAuthEvent('two_factor_verify', {
+					distinctId: locals.telemetryContext?.distinctId,
+					ipAddress: getClientAddress(),
+					userAgent: request.headers.get('user-agent') || undefined,
+					success: false,
+					errorMessage: result.reason === 'invalid_challenge' ? 'Invalid or expired challenge' : 'Invalid code',
+					metadata: { method: result.method || 'unknown' }
+				}, platform?.env);
+
+				if (result.reason === 'invalid_challenge') {
+					clearTwoFactorChallengeCookie(cookies);
+					return json({ error: 'Verification expired. Please log in again.' }, { status: 401 });
+				}
+				return json({ error: 'Invalid verification code' }, { status: 401 });
+			}
+
+			const sessionId = await createSession(result.userId, platform?.env, {
+				userAgent: request.headers.get('user-agent') || undefined,
+				ipAddress: getClientAddress()
+			});
+
+			setSessionCookie(cookies, sessionId, platform?.env);
+			clearTwoFactorChallengeCookie(cookies);
+			if (challengeUsername) {
+				await recordLoginSuccess(challengeUsername, getClientAddress(), platform?.env);
+			}
+
+			await logAuthEvent('two_factor_verify', {
+				userId: result.userId,
+				sessionId: getSessionTelemetryId(sessionId),
+				distinctId: `user_${result.userId}`,
+				ipAddress: getClientAddress(),
+				userAgent: request.headers.get('user-agent') || undefined,
+				success: true,
+				metadata: { method: result.method || 'totp' }
+			}, platform?.env);
+
+			await logAuthEvent('login', {
+				userId: result.userId,
+				sessionId: getSessionTelemetryId(sessionId),
+				distinctId: `user_${result.userId}`,
+				ipAddress: getClientAddress(),
+				userAgent: request.headers.get('user-agent') || undefined,
+				success: true,
+				metadata: {
+					two_factor: 'true',
+					login_duration_ms: String(Date.now() - startTime)
+				}
+			}, platform?.env);
+
+			return json({ success: true });
+		}
+
 		username = body.username;
 		const password = body.password;
 
@@ -27,7 +157,13 @@ export const POST: RequestHandler = async ({ request, cookies, platform, getClie
 			return json({ error: 'Username and password are required' }, { status: 400 });
 		}
 
-		const env = platform?.env as { DATABASE_URL?: string } | undefined;
+		const env = platform?.env;
+
+		const refused = await reserveAttempt(username);
+		if (refused) {
+			return refused;
+		}
+
 		const user = await getUserByUsername(username, env);
 
 		if (!user) {
@@ -44,7 +180,7 @@ export const POST: RequestHandler = async ({ request, cookies, platform, getClie
 			return json({ error: 'Invalid credentials' }, { status: 401 });
 		}
 
-		const valid = await verifyPassword(password, user.password);
+		const valid = await verifyPassword(password, user.password, { userId: user.id, env });
 
 		if (!valid) {
 			// Log failed login attempt due to invalid password
@@ -61,19 +197,36 @@ export const POST: RequestHandler = async ({ request, cookies, platform, getClie
 			return json({ error: 'Invalid credentials' }, { status: 401 });
 		}
 
-		const sessionId = await createSession(user.id, env);
+		// Accounts with 2FA enabled must pass a second step before a session is created;
+		// the attempt stays counted until then
+		if (user.totpEnabledAt) {
+			const challenge = await createTwoFactorChallenge(user.id, env);
 
-		cookies.set('session', sessionId, {
-			path: '/',
-			httpOnly: true,
-			sameSite: 'lax',
-			maxAge: 60 * 60 * 24 * 7 // 7 days
+			await logAuthEvent('two_factor_challenge', {
+				userId: user.id,
+				distinctId: `user_${user.id}`,
+				ipAddress: getClientAddress(),
+				userAgent: request.headers.get('user-agent') || undefined,
+				success: true,
+				metadata: { username }
+			}, platform?.env);
+
+			setTwoFactorChallengeCookie(cookies, challenge);
+			return json({ twoFactorRequired: true });
+		}
+
+		const sessionId = await createSession(user.id, env, {
+			userAgent: request.headers.get('user-agent') || undefined,
+			ipAddress: getClientAddress()
 		});
 
+		setSessionCookie(cookies, sessionId, env);
+		await recordLoginSuccess(username, getClientAddress(), env);
+
 		// Log successful login
 		await logAuthEvent('login', {
 			userId: user.id,
-			sessionId,
+			sessionId: getSessionTelemetryId(sessionId),
 			distinctId: `user_${user.id}`,
 			ipAddress: getClientAddress(),
 			userAgent: request.headers.get('user-agent') || undefined,
@@ -1,14 +1,39 @@
 import type { RequestHandler } from './$types';
 import { deleteSession } from '$lib/auth';
 import { json } from '@sveltejs/kit';
+import { logAuthEvent } from '$lib/telemetry';
 
-export const POST: RequestHandler = async ({ cookies, platform }) => {
+export const POST: RequestHandler = async ({ cookies, platform, locals, request, getClientAddress }) => {
 	try {
 		const sessionId = cookies.get('session');
 
 		if (sessionId) {
 			const env = platform?.env as { DATABASE_URL?: string } | undefined;
 			await deleteSession(sessionId, env);
+
+			if (locals.userId) {
+				await logAuthEvent('logout', {
+					userId: locals.userId,
+					sessionId: locals.telemetryContext?.sessionId,
+					distinctId: `user_${locals.userId}`,
+					ipAddress: getClientAddress(),
+					userAgent: request.headers.get('user-agent') || undefined,
+					success: true
+				}, env);
+			}
+
+			if (locals.userId && locals.impersonatorId) {
+				await logAuthEvent('impersonation_ended', {
+					userId: locals.impersonatorId,
+					sessionId: locals.telemetryContext?.sessionId,
+					distinctId: `user_${locals.impersonatorId}`,
+					ipAddress: getClientAddress(),
+					userAgent: request.headers.get('user-agent') || undefined,
+					target: `user:${locals.userId}`,
+					success: true,
+					metadata: { reason: 'logout' }
+				}, env);
+			}
 		}
 
 		cookies.delete('session', { path: '/' });
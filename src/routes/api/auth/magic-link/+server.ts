@@ -0,0 +1,96 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { createEmailToken, getUserByVerifiedEmail, isValidEmail } from '$lib/auth/email';
+import { canSendMail, sendMail } from '$lib/mail';
+import { checkMailRateLimit } from '$lib/rate-limit';
+import { logAuthEvent } from '$lib/telemetry';
+
+// Same response whether or not an account uses the address, to avoid leaking accounts
+const GENERIC_RESPONSE = {
+	success: true,
+	message: 'If an account with this verified email exists, a sign-in link has been sent.'
+};
+
+/**
+ * Mail a single-use sign-in link to a verified address
+ *
+ * Throttled per address and per client IP, whether or not an account uses the address.
+ */
+export const POST: RequestHandler = async ({ request, platform, url, locals, getClientAddress }) => {
+	try {
+		const { email } = await request.json();
+
+		if (!isValidEmail(email)) {
+			return json({ error: 'A valid email address is required' }, { status: 400 });
+		}
+
+		const env = platform?.env;
+
+		const rateLimit = await checkMailRateLimit('magic-link', email, getClientAddress(), env);
+		if (!rateLimit.success) {
+			await logAuthEvent('magic_link_requested', {
+				distinctId: locals.telemetryContext?.distinctId,
+				ipAddress: getClientAddress(),
+				userAgent: request.headers.get('user-agent') || undefined,
+				success: false,
+				errorMessage: 'Rate limit exceeded'
+			}, env);
+			return json(
+				{ error: 'Too many sign-in links requested. Please try again later.', retryAfter: rateLimit.retryAfter },
+				{ status: 429, headers: { 'Retry-After': String(rateLimit.retryAfter) } }
+			);
+		}
+
+		const user = await getUserByVerifiedEmail(email, env);
+
+		if (!user || !user.email) {
+			await logAuthEvent('magic_link_requested', {
+				distinctId: locals.telemetryContext?.distinctId,
+				ipAddress: getClientAddress(),
+				userAgent: request.headers.get('user-agent') || undefined,
+				success: false,
+				errorMessage: 'No account with this verified email'
+			}, env);
+			return json(GENERIC_RESPONSE);
+		}
+
+		// A sign-in link that cannot be delivered is not issued at all
+		if (!canSendMail(env)) {
+			await logAuthEvent('magic_link_requested', {
+				userId: user.id,
+				distinctId: `user_${user.id}`,
+				ipAddress: getClientAddress(),
+				userAgent: request.headers.get('user-agent') || undefined,
+				success: false,
+				errorMessage: 'Mail delivery is not configured'
+			}, env);
+			return json(GENERIC_RESPONSE);
+		}
+
+		const token = await createEmailToken(user.id, 'magic_link', user.email, env);
+		const signInUrl = `${url.origin}/login/email/verify?token=${token}`;
+
+		await sendMail({
+			to: user.email,
+			subject: 'Your sign-in link',
+			text: `Open the following link to sign in as ${user.username}. It expires in 15 minutes and can only be used once:\n\n${signInUrl}\n\nIf you did not request this, you can ignore this message.`
+		}, env);
+
+		await logAuthEvent('magic_link_requested', {
+			userId: user.id,
+			distinctId: `user_${user.id}`,
+			ipAddress: getClientAddress(),
+			userAgent: request.headers.get('user-agent') || undefined,
+			success: true
+		}, env);
+
+		return json(GENERIC_RESPONSE);
+	} catch (error: any) {
+		console.error('Magic link request error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Sending sign-in link failed' }, { status: 500 });
+	}
+};
@@ -0,0 +1,76 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { createSession, getSessionTelemetryId, setSessionCookie } from '$lib/auth';
+import { redeemMagicLink } from '$lib/auth/email';
+import { createTwoFactorChallenge, getTwoFactorStatus, setTwoFactorChallengeCookie } from '$lib/auth/two-factor';
+import { logAuthEvent } from '$lib/telemetry';
+
+/**
+ * Sign in with a mailed link
+ *
+ * The link opens a confirmation page (/login/email/verify), which posts the
+ * token here; a plain GET never consumes it, so mail scanners that follow
+ * links cannot use it up. Accounts with 2FA enabled continue on the login
+ * page with a challenge, as after provider sign-in.
+ *
+ * Body: { token }
+ */
+export const POST: RequestHandler = async ({ request, locals, platform, cookies, getClientAddress }) => {
+	const env = platform?.env;
+	const logContext = {
+		distinctId: locals.telemetryContext?.distinctId,
+		provider: 'magic_link',
+		ipAddress: getClientAddress(),
+		userAgent: request.headers.get('user-agent') || undefined
+	};
+
+	try {
+		const { token } = await request.json();
+		const userId = await redeemMagicLink(typeof token === 'string' ? token : '', env);
+
+		if (userId === null) {
+			await logAuthEvent('login_failure', {
+				...logContext,
+				success: false,
+				errorMessage: 'Invalid or expired sign-in link'
+			}, env);
+			return json({ error: 'The sign-in link is invalid or has expired. Please request a new one.' }, { status: 401 });
+		}
+
+		if ((await getTwoFactorStatus(userId, env)).enabled) {
+			const challenge = await createTwoFactorChallenge(userId, env);
+			await logAuthEvent('two_factor_challenge', {
+				...logContext,
+				userId,
+				distinctId: `user_${userId}`,
+				success: true
+			}, env);
+			setTwoFactorChallengeCookie(cookies, challenge);
+			return json({ twoFactorRequired: true });
+		}
+
+		const sessionId = await createSession(userId, env, {
+			userAgent: logContext.userAgent,
+			ipAddress: logContext.ipAddress
+		});
+
+		setSessionCookie(cookies, sessionId, env);
+
+		await logAuthEvent('login', {
+			...logContext,
+			userId,
+			sessionId: getSessionTelemetryId(sessionId),
+			distinctId: `user_${userId}`,
+			success: true
+		}, env);
+
+		return json({ success: true });
+	} catch (error: any) {
+		console.error('Magic link sign-in error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Signing in failed' }, { status: 500 });
+	}
+};
@@ -0,0 +1,25 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { getOAuthProviders, listOAuthAccounts } from '$lib/auth/oauth';
+
+export const GET: RequestHandler = async ({ locals, platform }) => {
+	const providers = getOAuthProviders(platform?.env).map((provider) => ({
+		id: provider.id,
+		name: provider.name
+	}));
+
+	if (!locals.userId) {
+		return json({ providers });
+	}
+
+	const accounts = await listOAuthAccounts(locals.userId, platform?.env);
+
+	return json({
+		providers,
+		linked: accounts.map((account) => ({
+			provider: account.provider,
+			email: account.email,
+			createdAt: account.createdAt
+		}))
+	});
+};
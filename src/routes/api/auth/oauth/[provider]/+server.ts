@@ -0,0 +1,28 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { unlinkOAuthAccount } from '$lib/auth/oauth';
+import { logAuthEvent } from '$lib/telemetry';
+
+export const DELETE: RequestHandler = async ({ params, request, locals, platform, getClientAddress }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const deleted = await unlinkOAuthAccount(locals.userId, params.provider, platform?.env);
+
+	if (!deleted) {
+		return json({ error: 'Account not linked' }, { status: 404 });
+	}
+
+	await logAuthEvent('oauth_unlinked', {
+		userId: locals.userId,
+		sessionId: locals.telemetryContext?.sessionId,
+		distinctId: `user_${locals.userId}`,
+		provider: `oauth_${params.provider}`,
+		ipAddress: getClientAddress(),
+		userAgent: request.headers.get('user-agent') || undefined,
+		success: true
+	}, platform?.env);
+
+	return json({ success: true });
+};
@@ -0,0 +1,172 @@
+import type { RequestHandler } from './$types';
+import { isRedirect, redirect } from '@sveltejs/kit';
+import { createSession, getSessionTelemetryId, setSessionCookie } from '$lib/auth';
+import {
+	completeAuthorization,
+	createUserFromOAuthProfile,
+	findOAuthAccount,
+	getOAuthProvider,
+	getOAuthRedirectUri,
+	linkOAuthAccount,
+	OAUTH_FLOW_COOKIE,
+	OAuthError,
+	type OAuthFlowState
+} from '$lib/auth/oauth';
+import { createTwoFactorChallenge, getTwoFactorStatus, setTwoFactorChallengeCookie } from '$lib/auth/two-factor';
+import { logServerException } from '$lib/posthog-otlp';
+import { logAuthEvent } from '$lib/telemetry';
+
+function parseFlow(value: string | undefined): OAuthFlowState | null {
+	if (!value) {
+		return null;
+	}
+	try {
+		return JSON.parse(value);
+	} catch {
+		return null;
+	}
+}
+
+export const GET: RequestHandler = async ({ params, url, request, locals, platform, cookies, getClientAddress }) => {
+	const env = platform?.env;
+	const logContext = {
+		distinctId: locals.telemetryContext?.distinctId,
+		provider: `oauth_${params.provider}`,
+		ipAddress: getClientAddress(),
+		userAgent: request.headers.get('user-agent') || undefined
+	};
+
+	const flow = parseFlow(cookies.get(OAUTH_FLOW_COOKIE));
+	cookies.delete(OAUTH_FLOW_COOKIE, { path: '/api/auth/oauth' });
+
+	const failureLocation = flow?.mode === 'link' ? '/settings/security?oauth=failed' : '/login?error=oauth';
+
+	try {
+		const provider = getOAuthProvider(params.provider, env);
+		const code = url.searchParams.get('code');
+
+		if (!provider || !flow || !code) {
+			await logAuthEvent(flow?.mode === 'link' ? 'oauth_linked' : 'login_failure', {
+				...logContext,
+				success: false,
+				errorMessage: url.searchParams.get('error') || 'Missing provider, flow state or code'
+			}, env);
+			redirect(302, failureLocation);
+		}
+
+		const redirectUri = getOAuthRedirectUri(url, provider.id, env);
+		const profile = await completeAuthorization(
+			provider,
+			{ code, state: url.searchParams.get('state') || '' },
+			flow,
+			redirectUri
+		);
+		const account = await findOAuthAccount(provider.id, profile.subject, env);
+
+		if (flow.mode === 'link') {
+			if (!locals.userId) {
+				redirect(302, '/login');
+			}
+
+			if (account && account.userId !== locals.userId) {
+				await logAuthEvent('oauth_linked', {
+					...logContext,
+					userId: locals.userId,
+					distinctId: `user_${locals.userId}`,
+					success: false,
+					errorMessage: 'Provider account is linked to another user'
+				}, env);
+				redirect(302, '/settings/security?oauth=already_linked');
+			}
+
+			if (!account) {
+				await linkOAuthAccount(locals.userId, provider.id, profile, env);
+				await logAuthEvent('oauth_linked', {
+					...logContext,
+					userId: locals.userId,
+					distinctId: `user_${locals.userId}`,
+					success: true
+				}, env);
+			}
+
+			redirect(302, '/settings/security?oauth=linked');
+		}
+
+		// Accounts are never linked automatically by email address - an unverified
+		// or recycled address at the provider would otherwise grant access
+		let userId = account?.userId;
+		if (!userId) {
+			const result = await createUserFromOAuthProfile(provider.id, profile, env);
+			userId = result.userId;
+			if (result.created) {
+				await logAuthEvent('register', {
+					...logContext,
+					userId,
+					distinctId: `user_${userId}`,
+					success: true
+				}, env);
+			}
+		}
+
+		if ((await getTwoFactorStatus(userId, env)).enabled) {
+			const challenge = await createTwoFactorChallenge(userId, env);
+			await logAuthEvent('two_factor_challenge', {
+				...logContext,
+				userId,
+				distinctId: `user_${userId}`,
+				success: true
+			}, env);
+			setTwoFactorChallengeCookie(cookies, challenge);
+			redirect(302, '/login?two_factor=required');
+		}
+
+		const sessionId = await createSession(userId, env, {
+			userAgent: logContext.userAgent,
+			ipAddress: logContext.ipAddress
+		});
+
+		setSessionCookie(cookies, sessionId, env);
+
+		await logAuthEvent('login', {
+			...logContext,
+			userId,
+			sessionId: getSessionTelemetryId(sessionId),
+			distinctId: `user_${userId}`,
+			success: true
+		}, env);
+
+		redirect(302, '/counter');
+	} catch (error: any) {
+		if (isRedirect(error)) {
+			throw error;
+		}
+
+		if (error instanceof OAuthError) {
+			await logAuthEvent(flow?.mode === 'link' ? 'oauth_linked' : 'login_failure', {
+				...logContext,
+				userId: locals.userId,
+				success: false,
+				errorMessage: error.message,
+				metadata: { reason: error.code }
+			}, env);
+		} else {
+			await logServerException(
+				error instanceof Error ? error : new Error(String(error)),
+				{
+					endpoint: '/api/auth/oauth/[provider]/callback',
+					method: 'GET',
+					error_code: error?.code || 'UNKNOWN',
+				},
+				env
+			);
+
+			console.error('OAuth callback error:', {
+				message: error?.message || String(error),
+				code: error?.code,
+				name: error?.name
+			});
+		}
+
+		redirect(302, failureLocation);
+	}
+};
@@ -0,0 +1,51 @@
+import type { RequestHandler } from './$types';
+import { json, redirect } from '@sveltejs/kit';
+import {
+	createAuthorizationRequest,
+	getOAuthProvider,
+	getOAuthRedirectUri,
+	OAUTH_FLOW_COOKIE
+} from '$lib/auth/oauth';
+
+export const GET: RequestHandler = async ({ params, url, locals, platform, cookies }) => {
+	const env = platform?.env;
+	const provider = getOAuthProvider(params.provider, env);
+
+	if (!provider) {
+		return json({ error: 'Unknown provider' }, { status: 404 });
+	}
+
+	const mode = url.searchParams.get('mode') === 'link' ? 'link' : 'login';
+
+	if (mode === 'link' && !locals.userId) {
+		redirect(302, '/login');
+	}
+
+	// Linking is a GET, so the credential lockdown in hooks.server.ts does not cover it
+	if (mode === 'link' && locals.impersonatorId) {
+		return json({ error: 'Credentials cannot be changed while impersonating' }, { status: 403 });
+	}
+
+	let location: string;
+	try {
+		const request = await createAuthorizationRequest(provider, getOAuthRedirectUri(url, provider.id, env), mode);
+		location = request.url;
+
+		// lax (not strict) so the cookie is sent on the top-level redirect back from the provider
+		cookies.set(OAUTH_FLOW_COOKIE, JSON.stringify(request.flow), {
+			path: '/api/auth/oauth',
+			httpOnly: true,
+			sameSite: 'lax',
+			maxAge: 60 * 10 // 10 minutes
+		});
+	} catch (error: any) {
+		console.error('OAuth start error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Could not contact the provider' }, { status: 502 });
+	}
+
+	redirect(302, location);
+};
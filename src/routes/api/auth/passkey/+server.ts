@@ -0,0 +1,22 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { listPasskeys } from '$lib/auth/webauthn';
+
+export const GET: RequestHandler = async ({ locals, platform }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const passkeys = await listPasskeys(locals.userId, platform?.env);
+
+	return json({
+		passkeys: passkeys.map((passkey) => ({
+			id: passkey.id,
+			name: passkey.name,
+			deviceType: passkey.deviceType,
+			backedUp: passkey.backedUp,
+			createdAt: passkey.createdAt,
+			lastUsedAt: passkey.lastUsedAt
+		}))
+	});
+};
@@ -0,0 +1,28 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { deletePasskey } from '$lib/auth/webauthn';
+import { logAuthEvent } from '$lib/telemetry';
+
+export const DELETE: RequestHandler = async ({ params, request, locals, platform, getClientAddress }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const deleted = await deletePasskey(locals.userId, params.id, platform?.env);
+
+	if (!deleted) {
+		return json({ error: 'Passkey not found' }, { status: 404 });
+	}
+
+	await logAuthEvent('passkey_removed', {
+		userId: locals.userId,
+		sessionId: locals.telemetryContext?.sessionId,
+		distinctId: `user_${locals.userId}`,
+		provider: 'passkey',
+		ipAddress: getClientAddress(),
+		userAgent: request.headers.get('user-agent') || undefined,
+		success: true
+	}, platform?.env);
+
+	return json({ success: true });
+};
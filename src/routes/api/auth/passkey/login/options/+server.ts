@@ -0,0 +1,33 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import {
+	buildAuthenticationOptions,
+	createWebAuthnChallenge,
+	getRelyingParty,
+	WEBAUTHN_CHALLENGE_COOKIE
+} from '$lib/auth/webauthn';
+
+export const POST: RequestHandler = async ({ platform, url, cookies }) => {
+	const env = platform?.env;
+
+	try {
+		const options = await buildAuthenticationOptions(getRelyingParty(url, env));
+		const token = await createWebAuthnChallenge(options.challenge, null, env);
+
+		cookies.set(WEBAUTHN_CHALLENGE_COOKIE, token, {
+			path: '/api/auth/passkey',
+			httpOnly: true,
+			sameSite: 'strict',
+			maxAge: 60 * 5 // 5 minutes
+		});
+
+		return json(options);
+	} catch (error: any) {
+		console.error('Passkey login options error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Passkey login failed' }, { status: 500 });
+	}
+};
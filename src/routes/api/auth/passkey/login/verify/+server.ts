@@ -0,0 +1,96 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { createSession, getSessionTelemetryId, setSessionCookie } from '$lib/auth';
+import {
+	consumeWebAuthnChallenge,
+	getPasskey,
+	getRelyingParty,
+	updatePasskeyCounter,
+	verifyPasskeyAuthentication,
+	WEBAUTHN_CHALLENGE_COOKIE
+} from '$lib/auth/webauthn';
+import { logServerException } from '$lib/posthog-otlp';
+import { logAuthEvent } from '$lib/telemetry';
+
+export const POST: RequestHandler = async ({ request, locals, platform, url, cookies, getClientAddress }) => {
+	const env = platform?.env;
+	const logContext = {
+		distinctId: locals.telemetryContext?.distinctId,
+		provider: 'passkey',
+		ipAddress: getClientAddress(),
+		userAgent: request.headers.get('user-agent') || undefined
+	};
+
+	try {
+		const { response } = await request.json();
+		const token = cookies.get(WEBAUTHN_CHALLENGE_COOKIE);
+		cookies.delete(WEBAUTHN_CHALLENGE_COOKIE, { path: '/api/auth/passkey' });
+
+		const challenge = token ? await consumeWebAuthnChallenge(token, env) : null;
+
+		if (!response?.id || !challenge) {
+			return json({ error: 'Sign-in expired. Please try again.' }, { status: 400 });
+		}
+
+		const passkey = await getPasskey(response.id, env);
+
+		if (!passkey) {
+			await logAuthEvent('login_failure', {
+				...logContext,
+				success: false,
+				errorMessage: 'Unknown passkey'
+			}, env);
+			return json({ error: 'Passkey not recognized' }, { status: 401 });
+		}
+
+		const result = await verifyPasskeyAuthentication(response, challenge.challenge, getRelyingParty(url, env), passkey);
+
+		if (!result.verified) {
+			await logAuthEvent('login_failure', {
+				...logContext,
+				userId: passkey.userId,
+				distinctId: `user_${passkey.userId}`,
+				success: false,
+				errorMessage: result.reason
+			}, env);
+			return json({ error: 'Passkey could not be verified' }, { status: 401 });
+		}
+
+		await updatePasskeyCounter(passkey.id, result.newCounter, env);
+
+		// Passkeys require user verification, so they satisfy 2FA on their own
+		const sessionId = await createSession(passkey.userId, env, {
+			userAgent: logContext.userAgent,
+			ipAddress: logContext.ipAddress
+		});
+
+		setSessionCookie(cookies, sessionId, env);
+
+		await logAuthEvent('login', {
+			...logContext,
+			userId: passkey.userId,
+			sessionId: getSessionTelemetryId(sessionId),
+			distinctId: `user_${passkey.userId}`,
+			success: true
+		}, env);
+
+		return json({ success: true });
+	} catch (error: any) {
+		await logServerException(
+			error instanceof Error ? error : new Error(String(error)),
+			{
+				endpoint: '/api/auth/passkey/login/verify',
+				method: 'POST',
+				error_code: error?.code || 'UNKNOWN',
+			},
+			env
+		);
+
+		console.error('Passkey login error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Passkey login failed' }, { status: 500 });
+	}
+};
@@ -0,0 +1,48 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { getDb } from '$lib/db';
+import { users } from '$lib/db/schema';
+import { eq } from 'drizzle-orm';
+import {
+	buildRegistrationOptions,
+	createWebAuthnChallenge,
+	getRelyingParty,
+	listPasskeys,
+	WEBAUTHN_CHALLENGE_COOKIE
+} from '$lib/auth/webauthn';
+
+export const POST: RequestHandler = async ({ locals, platform, url, cookies }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const userId = locals.userId;
+	const env = platform?.env;
+
+	try {
+		const [user] = await getDb(env).select().from(users).where(eq(users.id, userId)).limit(1);
+		if (!user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const existing = await listPasskeys(userId, env);
+		const options = await buildRegistrationOptions(getRelyingParty(url, env), user, existing);
+		const token = await createWebAuthnChallenge(options.challenge, userId, env);
+
+		cookies.set(WEBAUTHN_CHALLENGE_COOKIE, token, {
+			path: '/api/auth/passkey',
+			httpOnly: true,
+			sameSite: 'strict',
+			maxAge: 60 * 5 // 5 minutes
+		});
+
+		return json(options);
+	} catch (error: any) {
+		console.error('Passkey registration options error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Passkey registration failed' }, { status: 500 });
+	}
+};
@@ -0,0 +1,70 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import {
+	consumeWebAuthnChallenge,
+	getRelyingParty,
+	savePasskey,
+	verifyPasskeyRegistration,
+	WEBAUTHN_CHALLENGE_COOKIE
+} from '$lib/auth/webauthn';
+import { logAuthEvent } from '$lib/telemetry';
+
+export const POST: RequestHandler = async ({ request, locals, platform, url, cookies, getClientAddress }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const userId = locals.userId;
+	const env = platform?.env;
+	const logContext = {
+		userId,
+		sessionId: locals.telemetryContext?.sessionId,
+		distinctId: `user_${userId}`,
+		provider: 'passkey',
+		ipAddress: getClientAddress(),
+		userAgent: request.headers.get('user-agent') || undefined
+	};
+
+	try {
+		const { response, name } = await request.json();
+		const token = cookies.get(WEBAUTHN_CHALLENGE_COOKIE);
+		cookies.delete(WEBAUTHN_CHALLENGE_COOKIE, { path: '/api/auth/passkey' });
+
+		const challenge = token ? await consumeWebAuthnChallenge(token, env) : null;
+
+		if (!response || !challenge || challenge.userId !== userId) {
+			return json({ error: 'Registration expired. Please try again.' }, { status: 400 });
+		}
+
+		const result = await verifyPasskeyRegistration(response, challenge.challenge, getRelyingParty(url, env));
+
+		if (!result.verified) {
+			await logAuthEvent('passkey_registered', {
+				...logContext,
+				success: false,
+				errorMessage: result.reason
+			}, env);
+			return json({ error: 'Passkey could not be verified' }, { status: 400 });
+		}
+
+		await savePasskey(userId, result.passkey, typeof name === 'string' ? name.slice(0, 100) : undefined, env);
+
+		await logAuthEvent('passkey_registered', {
+			...logContext,
+			success: true,
+			metadata: { device_type: result.passkey.deviceType }
+		}, env);
+
+		return json({ success: true });
+	} catch (error: any) {
+		if (error?.code === '23505') {
+			return json({ error: 'This passkey is already registered' }, { status: 409 });
+		}
+		console.error('Passkey registration error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Passkey registration failed' }, { status: 500 });
+	}
+};
@@ -0,0 +1,7 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { getPasswordPolicy } from '$lib/auth/password-policy';
+
+export const GET: RequestHandler = async ({ platform }) => {
+	return json({ policy: getPasswordPolicy(platform?.env) });
+};
@@ -0,0 +1,66 @@
+import type { RequestHandler } from './$types';
+import { getPasswordResetTokenUserId, resetPassword } from '$lib/auth/password-reset';
+import { getUserById, validatePassword } from '$lib/auth';
+import { json } from '@sveltejs/kit';
+import { logAuthEvent } from '$lib/telemetry';
+
+export const POST: RequestHandler = async ({ request, cookies, platform, getClientAddress, locals }) => {
+	try {
+		const { token, password } = await request.json();
+
+		if (!token || !password) {
+			return json({ error: 'Token and password are required' }, { status: 400 });
+		}
+
+		const env = platform?.env;
+
+		// The policy needs the username, so look the token up before consuming it
+		const tokenUserId = await getPasswordResetTokenUserId(token, env);
+		const user = tokenUserId === null ? null : await getUserById(tokenUserId, env);
+
+		if (user) {
+			const failures = await validatePassword(password, { username: user.username }, env);
+			if (failures.length > 0) {
+				return json({ error: failures[0].message, failures }, { status: 400 });
+			}
+		}
+
+		const userId = user ? await resetPassword(token, password, env) : null;
+
+		if (!userId) {
+			await logAuthEvent('password_reset', {
+				distinctId: locals.telemetryContext?.distinctId,
+				ipAddress: getClientAddress(),
+				userAgent: request.headers.get('user-agent') || undefined,
+				success: false,
+				errorMessage: 'Invalid or expired token',
+				metadata: { stage: 'confirmed' }
+			}, env);
+
+			return json({ error: 'Invalid or expired reset token' }, { status: 400 });
+		}
+
+		// All sessions were revoked, including the one this browser may hold
+		cookies.delete('session', { path: '/' });
+
+		await logAuthEvent('password_reset', {
+			userId,
+			distinctId: `user_${userId}`,
+			ipAddress: getClientAddress(),
+			userAgent: request.headers.get('user-agent') || undefined,
+			success: true,
+			metadata: { stage: 'confirmed' }
+		}, env);
+
+		return json({ success: true });
+	} catch (error: any) {
+		// Log error details for debugging
+		console.error('Password reset error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name,
+			stack: error?.stack
+		});
+		return json({ error: 'Password reset failed' }, { status: 500 });
+	}
+};
@@ -0,0 +1,81 @@
+import type { RequestHandler } from './$types';
+import { getUserByUsername } from '$lib/auth';
+import { createPasswordResetToken } from '$lib/auth/password-reset';
+import { sendMail } from '$lib/mail';
+import { checkMailRateLimit } from '$lib/rate-limit';
+import { json } from '@sveltejs/kit';
+import { logAuthEvent } from '$lib/telemetry';
+
+// Same response whether or not the account exists or has a verified address, to avoid leaking usernames
+const GENERIC_RESPONSE = {
+	success: true,
+	message: 'If the account exists and has a verified email address, a password reset link has been sent.'
+};
+
+/**
+ * Mail a password reset link to the account's verified email address
+ *
+ * Accounts without a verified address get no link. Throttled per username and per client IP.
+ */
+export const POST: RequestHandler = async ({ request, platform, url, locals, getClientAddress }) => {
+	try {
+		const { username } = await request.json();
+
+		if (typeof username !== 'string' || !username.trim()) {
+			return json({ error: 'Username is required' }, { status: 400 });
+		}
+
+		const env = platform?.env;
+
+		const rateLimit = await checkMailRateLimit('password-reset', username, getClientAddress(), env);
+		if (!rateLimit.success) {
+			await logAuthEvent('password_reset', {
+				distinctId: locals.telemetryContext?.distinctId,
+				ipAddress: getClientAddress(),
+				userAgent: request.headers.get('user-agent') || undefined,
+				success: false,
+				errorMessage: 'Rate limit exceeded',
+				metadata: { stage: 'requested' }
+			}, env);
+			return json(
+				{ error: 'Too many reset links requested. Please try again later.', retryAfter: rateLimit.retryAfter },
+				{ status: 429, headers: { 'Retry-After': String(rateLimit.retryAfter) } }
+			);
+		}
+
+		const user = await getUserByUsername(username, env);
+
+		if (!user || !user.email || !user.emailVerifiedAt) {
+			return json(GENERIC_RESPONSE);
+		}
+
+		const token = await createPasswordResetToken(user.id, env);
+		const resetUrl = `${url.origin}/reset-password?token=${token}`;
+
+		await sendMail({
+			to: user.email,
+			subject: 'Reset your password',
+			text: `A password reset was requested for your account.\n\nOpen the following link to choose a new password. It expires in one hour and can only be used once:\n\n${resetUrl}\n\nIf you did not request this, you can ignore this message.`
+		}, env);
+
+		await logAuthEvent('password_reset', {
+			userId: user.id,
+			distinctId: `user_${user.id}`,
+			ipAddress: getClientAddress(),
+			userAgent: request.headers.get('user-agent') || undefined,
+			success: true,
+			metadata: { stage: 'requested' }
+		}, env);
+
+		return json(GENERIC_RESPONSE);
+	} catch (error: any) {
+		// Log error details for debugging
+		console.error('Password reset request error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name,
+			stack: error?.stack
+		});
+		return json({ error: 'Password reset request failed' }, { status: 500 });
+	}
+};
@@ -1,10 +1,14 @@
 import type { RequestHandler } from './$types';
-import { createUser, createSession } from '$lib/auth';
+import { createUser, createSession, getSessionTelemetryId, setSessionCookie, validatePassword } from '$lib/auth';
+import { isValidEmail, normalizeEmail, sendVerificationEmail } from '$lib/auth/email';
 import { json } from '@sveltejs/kit';
+import { logAuthEvent } from '$lib/telemetry';
 
-export const POST: RequestHandler = async ({ request, cookies, platform }) => {
+export const POST: RequestHandler = async ({ request, cookies, platform, url, getClientAddress }) => {
 	try {
-		const { username, password } = await request.json();
+		const { username, password, email: rawEmail } = await request.json();
+		// The email address is optional
+		const email = typeof rawEmail === 'string' && rawEmail.trim() ? normalizeEmail(rawEmail) : null;
 
 		if (!username || !password) {
 			return json({ error: 'Username and password are required' }, { status: 400 });
@@ -14,21 +18,38 @@ export const POST: RequestHandler = async ({ request, cookies, platform }) => {
 			return json({ error: 'Username must be at least 3 characters' }, { status: 400 });
 		}
 
-		if (password.length < 6) {
-			return json({ error: 'Password must be at least 6 characters' }, { status: 400 });
+		if (email !== null && !isValidEmail(email)) {
+			return json({ error: 'Please enter a valid email address' }, { status: 400 });
 		}
 
-		const env = platform?.env as { DATABASE_URL?: string } | undefined;
-		const userId = await createUser(username, password, env);
-		const sessionId = await createSession(userId, env);
+		const env = platform?.env;
 
-		cookies.set('session', sessionId, {
-			path: '/',
-			httpOnly: true,
-			sameSite: 'lax',
-			maxAge: 60 * 60 * 24 * 7 // 7 days
+		const failures = await validatePassword(password, { username }, env);
+		if (failures.length > 0) {
+			return json({ error: failures[0].message, failures }, { status: 400 });
+		}
+
+		const userId = await createUser(username, password, env, { email });
+		const sessionId = await createSession(userId, env, {
+			userAgent: request.headers.get('user-agent') || undefined,
+			ipAddress: getClientAddress()
 		});
 
+		setSessionCookie(cookies, sessionId, env);
+
+		if (email !== null) {
+			await sendVerificationEmail(userId, email, url.origin, env);
+		}
+
+		await logAuthEvent('register', {
+			userId,
+			sessionId: getSessionTelemetryId(sessionId),
+			distinctId: `user_${userId}`,
+			ipAddress: getClientAddress(),
+			userAgent: request.headers.get('user-agent') || undefined,
+			success: true
+		}, env);
+
 		return json({ success: true });
 	} catch (error: any) {
 		if (error?.code === '23505') {
@@ -0,0 +1,52 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { hashToken, listSessions, revokeOtherSessions } from '$lib/auth';
+import { logAuthEvent } from '$lib/telemetry';
+
+export const GET: RequestHandler = async ({ locals, platform, cookies }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const currentSessionId = cookies.get('session');
+	const currentTokenHash = currentSessionId ? hashToken(currentSessionId) : undefined;
+	const sessions = await listSessions(locals.userId, platform?.env);
+
+	return json({
+		sessions: sessions.map((session) => ({
+			// The digest identifies the session without granting access to it
+			id: session.tokenHash,
+			createdAt: session.createdAt,
+			lastSeenAt: session.lastSeenAt,
+			expiresAt: session.expiresAt,
+			userAgent: session.userAgent,
+			ipAddress: session.ipAddress,
+			current: session.tokenHash === currentTokenHash
+		}))
+	});
+};
+
+/**
+ * Log out everywhere else: revoke all sessions except the current one
+ */
+export const DELETE: RequestHandler = async ({ request, locals, platform, cookies, getClientAddress }) => {
+	const currentSessionId = cookies.get('session');
+
+	if (!locals.userId || !currentSessionId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const revoked = await revokeOtherSessions(locals.userId, currentSessionId, platform?.env);
+
+	await logAuthEvent('session_revoked', {
+		userId: locals.userId,
+		sessionId: locals.telemetryContext?.sessionId,
+		distinctId: `user_${locals.userId}`,
+		ipAddress: getClientAddress(),
+		userAgent: request.headers.get('user-agent') || undefined,
+		success: true,
+		metadata: { scope: 'others', count: String(revoked) }
+	}, platform?.env);
+
+	return json({ success: true, revoked });
+};
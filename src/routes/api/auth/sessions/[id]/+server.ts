@@ -0,0 +1,35 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { hashToken, revokeSession } from '$lib/auth';
+import { logAuthEvent } from '$lib/telemetry';
+
+export const DELETE: RequestHandler = async ({ params, request, locals, platform, cookies, getClientAddress }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const revoked = await revokeSession(locals.userId, params.id, platform?.env);
+
+	if (!revoked) {
+		return json({ error: 'Session not found' }, { status: 404 });
+	}
+
+	// Revoking the current session is the same as logging out
+	const sessionId = cookies.get('session');
+	const current = !!sessionId && hashToken(sessionId) === params.id;
+	if (current) {
+		cookies.delete('session', { path: '/' });
+	}
+
+	await logAuthEvent('session_revoked', {
+		userId: locals.userId,
+		sessionId: locals.telemetryContext?.sessionId,
+		distinctId: `user_${locals.userId}`,
+		ipAddress: getClientAddress(),
+		userAgent: request.headers.get('user-agent') || undefined,
+		success: true,
+		metadata: { scope: current ? 'current' : 'single' }
+	}, platform?.env);
+
+	return json({ success: true, current });
+};
@@ -0,0 +1,92 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { API_TOKEN_SCOPES, createApiToken, listApiTokens, parseScopes } from '$lib/auth/api-tokens';
+import { logAuthEvent } from '$lib/telemetry';
+
+const MAX_EXPIRY_DAYS = 365;
+
+export const GET: RequestHandler = async ({ locals, platform }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const tokens = await listApiTokens(locals.userId, platform?.env);
+
+	return json({
+		scopes: API_TOKEN_SCOPES,
+		tokens: tokens.map((token) => ({
+			id: token.id,
+			name: token.name,
+			prefix: token.tokenPrefix,
+			scopes: token.scopes.split(','),
+			createdAt: token.createdAt,
+			lastUsedAt: token.lastUsedAt,
+			expiresAt: token.expiresAt
+		}))
+	});
+};
+
+/**
+ * Create a token; the raw value is only ever returned in this response
+ */
+export const POST: RequestHandler = async ({ request, locals, platform, getClientAddress }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const { name, scopes, expiresInDays } = await request.json();
+
+		if (typeof name !== 'string' || !name.trim()) {
+			return json({ error: 'Token name is required' }, { status: 400 });
+		}
+
+		const parsedScopes = parseScopes(scopes);
+		if (!parsedScopes) {
+			return json({ error: `Scopes must be one or more of: ${API_TOKEN_SCOPES.join(', ')}` }, { status: 400 });
+		}
+
+		let expiresAt: Date | null = null;
+		if (expiresInDays !== undefined && expiresInDays !== null) {
+			if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS) {
+				return json({ error: `Expiry must be between 1 and ${MAX_EXPIRY_DAYS} days` }, { status: 400 });
+			}
+			expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+		}
+
+		const { token, apiToken } = await createApiToken(
+			locals.userId,
+			{ name, scopes: parsedScopes, expiresAt },
+			platform?.env
+		);
+
+		await logAuthEvent('api_token_created', {
+			userId: locals.userId,
+			sessionId: locals.telemetryContext?.sessionId,
+			distinctId: `user_${locals.userId}`,
+			ipAddress: getClientAddress(),
+			userAgent: request.headers.get('user-agent') || undefined,
+			success: true,
+			target: `api_token:${apiToken.id}`,
+			metadata: { token_id: String(apiToken.id), scopes: apiToken.scopes }
+		}, platform?.env);
+
+		return json({
+			token,
+			id: apiToken.id,
+			name: apiToken.name,
+			prefix: apiToken.tokenPrefix,
+			scopes: parsedScopes,
+			createdAt: apiToken.createdAt,
+			lastUsedAt: apiToken.lastUsedAt,
+			expiresAt: apiToken.expiresAt
+		});
+	} catch (error: any) {
+		console.error('API token creation error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Creating token failed' }, { status: 500 });
+	}
+};
@@ -0,0 +1,28 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { revokeApiToken } from '$lib/auth/api-tokens';
+import { logAuthEvent } from '$lib/telemetry';
+
+export const DELETE: RequestHandler = async ({ params, request, locals, platform, getClientAddress }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const tokenId = Number(params.id);
+	if (!Number.isInteger(tokenId) || !(await revokeApiToken(locals.userId, tokenId, platform?.env))) {
+		return json({ error: 'Token not found' }, { status: 404 });
+	}
+
+	await logAuthEvent('api_token_revoked', {
+		userId: locals.userId,
+		sessionId: locals.telemetryContext?.sessionId,
+		distinctId: `user_${locals.userId}`,
+		ipAddress: getClientAddress(),
+		userAgent: request.headers.get('user-agent') || undefined,
+		success: true,
+		target: `api_token:${tokenId}`,
+		metadata: { token_id: String(tokenId) }
+	}, platform?.env);
+
+	return json({ success: true });
+};
@@ -0,0 +1,47 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { verifyEmail } from '$lib/auth/email';
+import { logAuthEvent } from '$lib/telemetry';
+
+/**
+ * Confirm an email address from the mailed verification link
+ *
+ * The link opens a confirmation page (/verify-email), which posts the token
+ * here; a plain GET never consumes it, so mail scanners and prefetchers that
+ * follow links cannot verify addresses on the user's behalf.
+ *
+ * Body: { token }
+ * Returns `result`: 'verified', 'in_use' (another account verified the address
+ * first) or 'invalid', for the settings page to show.
+ */
+export const POST: RequestHandler = async ({ request, locals, platform, getClientAddress }) => {
+	const env = platform?.env;
+
+	try {
+		const { token } = await request.json();
+		const result = await verifyEmail(typeof token === 'string' ? token : '', env);
+		const userId = typeof result === 'number' ? result : null;
+
+		await logAuthEvent('email_verified', {
+			userId: userId ?? undefined,
+			distinctId: userId ? `user_${userId}` : locals.telemetryContext?.distinctId,
+			ipAddress: getClientAddress(),
+			userAgent: request.headers.get('user-agent') || undefined,
+			success: userId !== null,
+			...(result === 'in_use'
+				? { errorMessage: 'Address verified by another account' }
+				: userId === null
+					? { errorMessage: 'Invalid or expired verification link' }
+					: {})
+		}, env);
+
+		return json({ result: result === 'in_use' ? 'in_use' : userId === null ? 'invalid' : 'verified' });
+	} catch (error: any) {
+		console.error('Email verification error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Verifying the address failed' }, { status: 500 });
+	}
+};
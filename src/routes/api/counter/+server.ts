@@ -1,46 +1,32 @@
 import type { RequestHandler } from './$types';
-import { getDb } from '$lib/db';
-import { counters } from '$lib/db/schema';
-import { eq } from 'drizzle-orm';
 import { json } from '@sveltejs/kit';
 import { wrapDatabaseQuery } from '$lib/telemetry';
-import { checkRateLimit } from '$lib/rate-limit';
-
+import { checkRateLimit, rateLimitExceededResponse } from '$lib/rate-limit';
+import { hasScope } from '$lib/auth/api-tokens';
+import { parseCounterAction, readJsonBody, validationErrorResponse } from '$lib/counter-actions';
+import { getCounterChangeContext, getDefaultCounter, updateDefaultCounterValue } from '$lib/counters';
+
+/**
+ * Compatibility alias for the user's default counter, see /api/counters for all counters
+ */
 export const GET: RequestHandler = async ({ locals, platform }) => {
 	if (!locals.userId) {
 		return json({ error: 'Unauthorized' }, { status: 401 });
 	}
 
+	if (!hasScope(locals, 'counter:read')) {
+		return json({ error: 'Insufficient scope', requiredScope: 'counter:read' }, { status: 403 });
+	}
+
 	// TypeScript narrowing: userId is guaranteed to be defined after the check
 	const userId = locals.userId;
-	const db = getDb(platform?.env);
-
-	// Wrap database query with telemetry logging
-	const [counter] = await wrapDatabaseQuery(
-		() => db
-			.select()
-			.from(counters)
-			.where(eq(counters.userId, userId))
-			.limit(1),
-		'counters',
-		'SELECT',
-		{
-			userId,
-			sessionId: locals.telemetryContext?.sessionId,
-			distinctId: locals.telemetryContext?.distinctId
-		},
-		platform?.env
-	);
 
-	if (!counter) {
-		// Initialize counter for new user
-		const [newCounter] = await wrapDatabaseQuery(
-			() => db
-				.insert(counters)
-				.values({ userId, value: 0 })
-				.returning(),
+	try {
+		// Wrap database query with telemetry logging; the default counter is created for new users
+		const counter = await wrapDatabaseQuery(
+			() => getDefaultCounter(userId, platform?.env),
 			'counters',
-			'INSERT',
+			'SELECT',
 			{
 				userId,
 				sessionId: locals.telemetryContext?.sessionId,
@@ -48,92 +34,75 @@ export const GET: RequestHandler = async ({ locals, platform }) => {
 			},
 			platform?.env
 		);
-		return json({ value: newCounter.value });
-	}
 
-	return json({ value: counter.value });
+		return json({ id: counter.id, name: counter.name, value: counter.value });
+	} catch (error: any) {
+		console.error('Get counter error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Loading counter failed' }, { status: 500 });
+	}
 };
 
+/**
+ * Apply an action to the default counter, see POST /api/counters/:id for the actions
+ */
 export const POST: RequestHandler = async ({ request, locals, platform }) => {
 	if (!locals.userId) {
 		return json({ error: 'Unauthorized' }, { status: 401 });
 	}
 
+	if (!hasScope(locals, 'counter:write')) {
+		return json({ error: 'Insufficient scope', requiredScope: 'counter:write' }, { status: 403 });
+	}
+
 	// TypeScript narrowing: userId is guaranteed to be defined after the check
 	const userId = locals.userId;
 
 	// Check rate limit before processing the request
 	const rateLimitResult = await checkRateLimit(userId, platform?.env);
 	if (!rateLimitResult.success) {
-		return json(
-			{
-				error: 'Rate limit exceeded',
-				message: 'Too many actions. Please wait before trying again.',
-				remaining: rateLimitResult.remaining,
-				retryAfter: rateLimitResult.retryAfter
-			},
-			{ 
-				status: 429,
-				headers: {
-					'Retry-After': String(rateLimitResult.retryAfter || 10)
-				}
-			}
-		);
-	}
-
-	const db = getDb(platform?.env);
-
-	const { action } = await request.json();
-
-	if (action !== 'increment' && action !== 'decrement') {
-		return json({ error: 'Invalid action' }, { status: 400 });
+		return rateLimitExceededResponse(rateLimitResult);
 	}
 
-	const telemetryContext = {
-		userId,
-		sessionId: locals.telemetryContext?.sessionId,
-		distinctId: locals.telemetryContext?.distinctId
-	};
+	try {
+		const body = await readJsonBody(request);
+		const parsed = 'issues' in body ? body : parseCounterAction(body.data);
+		if ('issues' in parsed) {
+			return validationErrorResponse(parsed.issues);
+		}
 
-	// Get or create counter with telemetry
-	let [counter] = await wrapDatabaseQuery(
-		() => db
-			.select()
-			.from(counters)
-			.where(eq(counters.userId, userId))
-			.limit(1),
-		'counters',
-		'SELECT',
-		telemetryContext,
-		platform?.env
-	);
+		const telemetryContext = {
+			userId,
+			sessionId: locals.telemetryContext?.sessionId,
+			distinctId: locals.telemetryContext?.distinctId
+		};
 
-	if (!counter) {
-		[counter] = await wrapDatabaseQuery(
-			() => db
-				.insert(counters)
-				.values({ userId, value: 0 })
-				.returning(),
+		// Creates the default counter if needed
+		const updated = await wrapDatabaseQuery(
+			() => updateDefaultCounterValue(userId, parsed.data, getCounterChangeContext(userId, locals), platform?.env),
 			'counters',
-			'INSERT',
+			'UPSERT',
 			telemetryContext,
 			platform?.env
 		);
-	}
 
-	const newValue = action === 'increment' ? counter.value + 1 : counter.value - 1;
-
-	const [updated] = await wrapDatabaseQuery(
-		() => db
-			.update(counters)
-			.set({ value: newValue, updatedAt: new Date() })
-			.where(eq(counters.userId, userId))
-			.returning(),
-		'counters',
-		'UPDATE',
-		telemetryContext,
-		platform?.env
-	);
-
-	return json({ value: updated.value });
+		if (!updated) {
+			return json({ error: 'Counter not found' }, { status: 404 });
+		}
+		if ('issues' in updated) {
+			return validationErrorResponse(updated.issues);
+		}
+
+		return json({ id: updated.id, name: updated.name, value: updated.value });
+	} catch (error: any) {
+		console.error('Change counter error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Updating counter failed' }, { status: 500 });
+	}
 };
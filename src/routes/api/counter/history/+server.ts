@@ -0,0 +1,80 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { wrapDatabaseQuery } from '$lib/telemetry';
+import { hasScope } from '$lib/auth/api-tokens';
+import { getCounter, getDefaultCounter, listCounterEvents, parseCounterHistoryQuery } from '$lib/counters';
+
+/**
+ * List a counter's value changes, newest first
+ *
+ * Query: counter (ID, defaults to the default counter), cursor, limit (max 100).
+ * Pass the returned nextCursor as `cursor` to get the next page.
+ */
+export const GET: RequestHandler = async ({ url, locals, platform }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	if (!hasScope(locals, 'counter:read')) {
+		return json({ error: 'Insufficient scope', requiredScope: 'counter:read' }, { status: 403 });
+	}
+
+	const parsed = parseCounterHistoryQuery(url.searchParams);
+	if ('error' in parsed) {
+		return json({ error: parsed.error }, { status: 400 });
+	}
+
+	const userId = locals.userId;
+	const { counterId, cursor, limit } = parsed.query;
+	const telemetryContext = {
+		userId,
+		sessionId: locals.telemetryContext?.sessionId,
+		distinctId: locals.telemetryContext?.distinctId
+	};
+
+	try {
+		const counter = await wrapDatabaseQuery(
+			() => (counterId === undefined ? getDefaultCounter(userId, platform?.env) : getCounter(userId, counterId, platform?.env)),
+			'counters',
+			'SELECT',
+			telemetryContext,
+			platform?.env
+		);
+
+		if (!counter) {
+			return json({ error: 'Counter not found' }, { status: 404 });
+		}
+
+		const { events, nextCursor } = await wrapDatabaseQuery(
+			() => listCounterEvents(counter.id, { cursor, limit }, platform?.env),
+			'counter_events',
+			'SELECT',
+			telemetryContext,
+			platform?.env
+		);
+
+		return json({
+			counter: { id: counter.id, name: counter.name },
+			events: events.map((event) => ({
+				id: event.id,
+				action: event.action,
+				delta: event.delta,
+				oldValue: event.oldValue,
+				newValue: event.newValue,
+				userId: event.userId,
+				// False for changes made by an admin impersonating the owner
+				byOwner: event.userId === counter.userId,
+				requestId: event.requestId,
+				createdAt: event.createdAt
+			})),
+			nextCursor
+		});
+	} catch (error: any) {
+		console.error('Counter history error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Loading counter history failed' }, { status: 500 });
+	}
+};
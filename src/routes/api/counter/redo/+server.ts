@@ -0,0 +1,10 @@
+import type { RequestHandler } from './$types';
+import { createUndoHandler } from '$lib/counter-undo';
+
+/**
+ * Redo the last undone change of a counter; any new change discards the redo stack
+ *
+ * Body (optional): { counter: id }, defaults to the default counter.
+ * Rate limited like POST /api/counter.
+ */
+export const POST: RequestHandler = createUndoHandler('redo');
@@ -0,0 +1,10 @@
+import type { RequestHandler } from './$types';
+import { createUndoHandler } from '$lib/counter-undo';
+
+/**
+ * Undo the last change of a counter within the undo window
+ *
+ * Body (optional): { counter: id }, defaults to the default counter.
+ * Rate limited like POST /api/counter.
+ */
+export const POST: RequestHandler = createUndoHandler('undo');
@@ -0,0 +1,158 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { wrapDatabaseQuery } from '$lib/telemetry';
+import { checkRateLimit, rateLimitExceededResponse } from '$lib/rate-limit';
+import { hasScope } from '$lib/auth/api-tokens';
+import {
+	MAX_COUNTERS_PER_USER,
+	createCounter,
+	getDefaultCounter,
+	listCounters,
+	parseCounterName,
+	reorderCounters,
+	toCounterResponse
+} from '$lib/counters';
+
+/**
+ * List the user's counters in display order
+ *
+ * Users always have at least their default counter, which is created here on first use.
+ */
+export const GET: RequestHandler = async ({ locals, platform }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	if (!hasScope(locals, 'counter:read')) {
+		return json({ error: 'Insufficient scope', requiredScope: 'counter:read' }, { status: 403 });
+	}
+
+	const userId = locals.userId;
+	const telemetryContext = {
+		userId,
+		sessionId: locals.telemetryContext?.sessionId,
+		distinctId: locals.telemetryContext?.distinctId
+	};
+
+	let list = await wrapDatabaseQuery(
+		() => listCounters(userId, platform?.env),
+		'counters',
+		'SELECT',
+		telemetryContext,
+		platform?.env
+	);
+
+	if (list.length === 0) {
+		list = [
+			await wrapDatabaseQuery(
+				() => getDefaultCounter(userId, platform?.env),
+				'counters',
+				'INSERT',
+				telemetryContext,
+				platform?.env
+			)
+		];
+	}
+
+	return json({ counters: list.map(toCounterResponse) });
+};
+
+/**
+ * Create a counter
+ *
+ * Body: { name }
+ */
+export const POST: RequestHandler = async ({ request, locals, platform }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	if (!hasScope(locals, 'counter:write')) {
+		return json({ error: 'Insufficient scope', requiredScope: 'counter:write' }, { status: 403 });
+	}
+
+	const userId = locals.userId;
+
+	const rateLimitResult = await checkRateLimit(userId, platform?.env);
+	if (!rateLimitResult.success) {
+		return rateLimitExceededResponse(rateLimitResult);
+	}
+
+	try {
+		const parsed = parseCounterName((await request.json()).name);
+		if ('error' in parsed) {
+			return json({ error: parsed.error }, { status: 400 });
+		}
+
+		const counter = await wrapDatabaseQuery(
+			() => createCounter(userId, parsed.name, platform?.env),
+			'counters',
+			'INSERT',
+			{
+				userId,
+				sessionId: locals.telemetryContext?.sessionId,
+				distinctId: locals.telemetryContext?.distinctId
+			},
+			platform?.env
+		);
+
+		if (!counter) {
+			return json({ error: `You can have at most ${MAX_COUNTERS_PER_USER} counters` }, { status: 409 });
+		}
+
+		return json({ counter: toCounterResponse(counter) }, { status: 201 });
+	} catch (error: any) {
+		console.error('Create counter error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Creating counter failed' }, { status: 500 });
+	}
+};
+
+/**
+ * Reorder the user's counters
+ *
+ * Body: { order: [id, ...] } listing every counter of the user exactly once
+ */
+export const PATCH: RequestHandler = async ({ request, locals, platform }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	if (!hasScope(locals, 'counter:write')) {
+		return json({ error: 'Insufficient scope', requiredScope: 'counter:write' }, { status: 403 });
+	}
+
+	const userId = locals.userId;
+
+	try {
+		const { order } = await request.json();
+
+		const reordered = await wrapDatabaseQuery(
+			() => reorderCounters(userId, order, platform?.env),
+			'counters',
+			'UPDATE',
+			{
+				userId,
+				sessionId: locals.telemetryContext?.sessionId,
+				distinctId: locals.telemetryContext?.distinctId
+			},
+			platform?.env
+		);
+
+		if (!reordered) {
+			return json({ error: 'order must list each of your counter IDs exactly once' }, { status: 400 });
+		}
+
+		return json({ counters: reordered.map(toCounterResponse) });
+	} catch (error: any) {
+		console.error('Reorder counters error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Reordering counters failed' }, { status: 500 });
+	}
+};
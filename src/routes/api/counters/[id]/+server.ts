@@ -0,0 +1,235 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { wrapDatabaseQuery } from '$lib/telemetry';
+import { checkRateLimit, rateLimitExceededResponse } from '$lib/rate-limit';
+import { hasScope } from '$lib/auth/api-tokens';
+import { parseCounterAction, parseCounterSettings, readJsonBody, validationErrorResponse } from '$lib/counter-actions';
+import {
+	deleteCounter,
+	getCounter,
+	getCounterChangeContext,
+	getUndoState,
+	parseCounterId,
+	toCounterResponse,
+	updateCounterSettings,
+	updateCounterValue
+} from '$lib/counters';
+
+const notFound = () => json({ error: 'Counter not found' }, { status: 404 });
+
+export const GET: RequestHandler = async ({ params, locals, platform }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	if (!hasScope(locals, 'counter:read')) {
+		return json({ error: 'Insufficient scope', requiredScope: 'counter:read' }, { status: 403 });
+	}
+
+	const userId = locals.userId;
+	const counterId = parseCounterId(params.id);
+	if (counterId === null) {
+		return notFound();
+	}
+
+	try {
+		const counter = await wrapDatabaseQuery(
+			() => getCounter(userId, counterId, platform?.env),
+			'counters',
+			'SELECT',
+			{
+				userId,
+				sessionId: locals.telemetryContext?.sessionId,
+				distinctId: locals.telemetryContext?.distinctId
+			},
+			platform?.env
+		);
+
+		if (!counter) {
+			return notFound();
+		}
+
+		return json({ counter: toCounterResponse(counter), undo: await getUndoState(counter.id, platform?.env) });
+	} catch (error: any) {
+		console.error('Get counter error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Loading counter failed' }, { status: 500 });
+	}
+};
+
+/**
+ * Change a counter's value within its bounds
+ *
+ * Body: { action: 'increment' | 'decrement' } (by the counter's step),
+ * { action: 'add', amount }, { action: 'set', value } or { action: 'reset' }.
+ * Invalid bodies and `set` outside the bounds return 422 with the issues.
+ */
+export const POST: RequestHandler = async ({ params, request, locals, platform }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	if (!hasScope(locals, 'counter:write')) {
+		return json({ error: 'Insufficient scope', requiredScope: 'counter:write' }, { status: 403 });
+	}
+
+	const userId = locals.userId;
+	const counterId = parseCounterId(params.id);
+	if (counterId === null) {
+		return notFound();
+	}
+
+	// Check rate limit before processing the request
+	const rateLimitResult = await checkRateLimit(userId, platform?.env);
+	if (!rateLimitResult.success) {
+		return rateLimitExceededResponse(rateLimitResult);
+	}
+
+	try {
+		const body = await readJsonBody(request);
+		const parsed = 'issues' in body ? body : parseCounterAction(body.data);
+		if ('issues' in parsed) {
+			return validationErrorResponse(parsed.issues);
+		}
+
+		const updated = await wrapDatabaseQuery(
+			() => updateCounterValue(userId, counterId, parsed.data, getCounterChangeContext(userId, locals), platform?.env),
+			'counters',
+			'UPDATE',
+			{
+				userId,
+				sessionId: locals.telemetryContext?.sessionId,
+				distinctId: locals.telemetryContext?.distinctId
+			},
+			platform?.env
+		);
+
+		if (!updated) {
+			return notFound();
+		}
+		if ('issues' in updated) {
+			return validationErrorResponse(updated.issues);
+		}
+
+		// The change can be undone through /api/counter/undo
+		return json({ counter: toCounterResponse(updated), undo: await getUndoState(updated.id, platform?.env) });
+	} catch (error: any) {
+		console.error('Change counter error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Updating counter failed' }, { status: 500 });
+	}
+};
+
+/**
+ * Rename a counter or change its settings
+ *
+ * Body: any of { name, step, minValue, maxValue, overflow: 'clamp' | 'wrap' };
+ * null removes a bound. Returns 422 with the issues if the settings are invalid
+ * or the current value is outside the new bounds.
+ */
+export const PATCH: RequestHandler = async ({ params, request, locals, platform }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	if (!hasScope(locals, 'counter:write')) {
+		return json({ error: 'Insufficient scope', requiredScope: 'counter:write' }, { status: 403 });
+	}
+
+	const userId = locals.userId;
+	const counterId = parseCounterId(params.id);
+	if (counterId === null) {
+		return notFound();
+	}
+
+	try {
+		const body = await readJsonBody(request);
+		const parsed = 'issues' in body ? body : parseCounterSettings(body.data);
+		if ('issues' in parsed) {
+			return validationErrorResponse(parsed.issues);
+		}
+
+		const counter = await wrapDatabaseQuery(
+			() => updateCounterSettings(userId, counterId, parsed.data, platform?.env),
+			'counters',
+			'UPDATE',
+			{
+				userId,
+				sessionId: locals.telemetryContext?.sessionId,
+				distinctId: locals.telemetryContext?.distinctId
+			},
+			platform?.env
+		);
+
+		if (!counter) {
+			return notFound();
+		}
+		if ('issues' in counter) {
+			return validationErrorResponse(counter.issues);
+		}
+
+		return json({ counter: toCounterResponse(counter) });
+	} catch (error: any) {
+		console.error('Update counter error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Updating counter failed' }, { status: 500 });
+	}
+};
+
+/**
+ * Delete a counter; the last remaining counter cannot be deleted
+ */
+export const DELETE: RequestHandler = async ({ params, locals, platform }) => {
+	if (!locals.userId) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	if (!hasScope(locals, 'counter:write')) {
+		return json({ error: 'Insufficient scope', requiredScope: 'counter:write' }, { status: 403 });
+	}
+
+	const userId = locals.userId;
+	const counterId = parseCounterId(params.id);
+	if (counterId === null) {
+		return notFound();
+	}
+
+	try {
+		const result = await wrapDatabaseQuery(
+			() => deleteCounter(userId, counterId, platform?.env),
+			'counters',
+			'DELETE',
+			{
+				userId,
+				sessionId: locals.telemetryContext?.sessionId,
+				distinctId: locals.telemetryContext?.distinctId
+			},
+			platform?.env
+		);
+
+		if (result === 'not_found') {
+			return notFound();
+		}
+		if (result === 'last_counter') {
+			return json({ error: 'Cannot delete your last counter' }, { status: 409 });
+		}
+
+		return json({ success: true });
+	} catch (error: any) {
+		console.error('Delete counter error:', {
+			message: error?.message || String(error),
+			code: error?.code,
+			name: error?.name
+		});
+		return json({ error: 'Deleting counter failed' }, { status: 500 });
+	}
+};
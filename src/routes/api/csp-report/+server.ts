@@ -0,0 +1,53 @@
+import type { RequestHandler } from './$types';
+import { logServerMessage } from '$lib/posthog-otlp';
+import { MAX_CSP_REPORT_BYTES, parseCspReports } from '$lib/security-headers';
+
+/**
+ * Receive Content Security Policy violation reports from browsers
+ *
+ * Reports are forwarded to PostHog as OTLP warning logs. The endpoint is
+ * unauthenticated, so bodies are size-limited and malformed reports ignored.
+ */
+export const POST: RequestHandler = async ({ request, platform }) => {
+	const contentLength = Number(request.headers.get('content-length'));
+	if (contentLength > MAX_CSP_REPORT_BYTES) {
+		return new Response(null, { status: 413 });
+	}
+
+	try {
+		const body = await request.text();
+		if (body.length > MAX_CSP_REPORT_BYTES) {
+			return new Response(null, { status: 413 });
+		}
+
+		const violations = parseCspReports(JSON.parse(body));
+		const userAgent = request.headers.get('user-agent') || undefined;
+
+		await Promise.all(
+			violations.map((violation) => {
+				const properties = Object.fromEntries(
+					Object.entries({
+						'csp.document_uri': violation.documentUri,
+						'csp.blocked_uri': violation.blockedUri,
+						'csp.violated_directive': violation.violatedDirective,
+						'csp.effective_directive': violation.effectiveDirective,
+						'csp.disposition': violation.disposition,
+						'csp.source_file': violation.sourceFile,
+						'csp.line_number': violation.lineNumber,
+						'csp.sample': violation.sample,
+						'http.user_agent': userAgent
+					}).filter(([, value]) => value !== undefined)
+				);
+				return logServerMessage('warn', 'CSP violation', properties, platform?.env);
+			})
+		);
+	} catch (error: any) {
+		// Malformed reports are dropped, the browser does not retry anyway
+		console.error('CSP report error:', {
+			message: error?.message || String(error),
+			name: error?.name
+		});
+	}
+
+	return new Response(null, { status: 204 });
+};
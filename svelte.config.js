@@ -8,7 +8,24 @@ const config = {
 			platformProxy: {
 				configPath: 'wrangler.toml'
 			}
-		})
+		}),
+		// Nonces are added to SvelteKit's inline scripts on every request. The policy is
+		// adapted at runtime (PostHog hosts, report-only mode), see src/lib/security-headers.ts
+		csp: {
+			mode: 'auto',
+			directives: {
+				'default-src': ['self'],
+				'script-src': ['self'],
+				'style-src': ['self', 'unsafe-inline'],
+				'img-src': ['self', 'data:'],
+				'font-src': ['self'],
+				'connect-src': ['self'],
+				'object-src': ['none'],
+				'base-uri': ['self'],
+				'form-action': ['self'],
+				'frame-ancestors': ['none']
+			}
+		}
 	}
 };
 
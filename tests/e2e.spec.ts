@@ -271,3 +271,186 @@ test.describe('Authentication Flow', () => {
 		expect(page.url()).toContain('/register');
 	});
 });
+
+test.describe('Counter Concurrency', () => {
+	const testPassword = 'testpass123';
+	const PARALLEL_REQUESTS = 10;
+
+	test('should not lose parallel increments of a new user\'s default counter', async ({ page }) => {
+		// Register through the API so that the default counter does not exist yet:
+		// the first increments race to create it
+		const username = `testuser_${Date.now()}`;
+		const register = await page.request.post('/api/auth/register', {
+			data: { username, password: testPassword },
+			timeout: API_RESPONSE_TIMEOUT
+		});
+		expect(register.ok()).toBe(true);
+
+		const responses = await Promise.all(
+			Array.from({ length: PARALLEL_REQUESTS }, () =>
+				page.request.post('/api/counter', {
+					data: { action: 'increment' },
+					timeout: API_RESPONSE_TIMEOUT
+				})
+			)
+		);
+
+		// Rate-limited requests (if Upstash is configured) do not change the value
+		const statuses = responses.map((response) => response.status());
+		expect(statuses.every((status) => status === 200 || status === 429)).toBe(true);
+		const succeeded = statuses.filter((status) => status === 200).length;
+		expect(succeeded).toBeGreaterThan(0);
+
+		const counter = await page.request.get('/api/counter');
+		expect((await counter.json()).value).toBe(succeeded);
+
+		// Only one default counter was created
+		const list = await page.request.get('/api/counters');
+		expect((await list.json()).counters).toHaveLength(1);
+
+		// Every change is in the history, with consecutive values
+		const history = await page.request.get('/api/counter/history?limit=100');
+		const { events } = await history.json();
+		expect(events).toHaveLength(succeeded);
+		expect(events.map((event: { newValue: number }) => event.newValue).sort((a: number, b: number) => a - b))
+			.toEqual(Array.from({ length: succeeded }, (_, index) => index + 1));
+	});
+
+	test('should not lose parallel increments of a named counter', async ({ page }) => {
+		const username = `testuser_${Date.now()}`;
+		const register = await page.request.post('/api/auth/register', {
+			data: { username, password: testPassword },
+			timeout: API_RESPONSE_TIMEOUT
+		});
+		expect(register.ok()).toBe(true);
+
+		const created = await page.request.post('/api/counters', { data: { name: 'Parallel' } });
+		expect(created.status()).toBe(201);
+		const { counter } = await created.json();
+
+		const responses = await Promise.all(
+			Array.from({ length: PARALLEL_REQUESTS }, (_, index) =>
+				page.request.post(`/api/counters/${counter.id}`, {
+					// Mix in decrements so that both directions race
+					data: { action: index % 3 === 0 ? 'decrement' : 'increment' },
+					timeout: API_RESPONSE_TIMEOUT
+				})
+			)
+		);
+
+		let expected = 0;
+		responses.forEach((response, index) => {
+			expect([200, 429]).toContain(response.status());
+			if (response.status() === 200) {
+				expected += index % 3 === 0 ? -1 : 1;
+			}
+		});
+
+		const current = await page.request.get(`/api/counters/${counter.id}`);
+		expect((await current.json()).counter.value).toBe(expected);
+	});
+});
+
+test.describe('Counter Undo', () => {
+	const testPassword = 'testpass123';
+
+	test('should undo and redo counter changes', async ({ page }) => {
+		const username = `testuser_${Date.now()}`;
+		const register = await page.request.post('/api/auth/register', {
+			data: { username, password: testPassword },
+			timeout: API_RESPONSE_TIMEOUT
+		});
+		expect(register.ok()).toBe(true);
+
+		// Stay within the rate limit of 3 actions; undo and redo do not count
+		for (let i = 0; i < 2; i++) {
+			const increment = await page.request.post('/api/counter', { data: { action: 'increment' } });
+			expect(increment.ok()).toBe(true);
+		}
+
+		const undo = await page.request.post('/api/counter/undo', { data: {} });
+		expect(undo.ok()).toBe(true);
+		const undone = await undo.json();
+		expect(undone.counter.value).toBe(1);
+		expect(undone.undo).toEqual({ canUndo: true, canRedo: true });
+
+		const redo = await page.request.post('/api/counter/redo', { data: {} });
+		expect((await redo.json()).counter.value).toBe(2);
+
+		// A new change discards the redo stack
+		await page.request.post('/api/counter/undo', { data: {} });
+		const decrement = await page.request.post('/api/counter', { data: { action: 'decrement' } });
+		expect((await decrement.json()).value).toBe(0);
+
+		const noRedo = await page.request.post('/api/counter/redo', { data: {} });
+		expect(noRedo.status()).toBe(409);
+
+		const history = await page.request.get('/api/counter/history');
+		const actions = (await history.json()).events.map((event: { action: string }) => event.action);
+		expect(actions).toEqual(['decrement', 'undo', 'redo', 'undo', 'increment', 'increment']);
+	});
+
+	test('should undo with the keyboard shortcut', async ({ page }) => {
+		const username = `testuser_${Date.now()}`;
+		const register = await page.request.post('/api/auth/register', {
+			data: { username, password: testPassword },
+			timeout: API_RESPONSE_TIMEOUT
+		});
+		expect(register.ok()).toBe(true);
+
+		// The API request shares the page's cookies, so the page is signed in
+		await page.goto('/counter');
+		await expect(page.locator('.counter-display')).toHaveText('0', { timeout: PAGE_LOAD_TIMEOUT });
+
+		const undoButton = page.locator('button', { hasText: 'Undo' });
+		await expect(undoButton).toBeDisabled();
+
+		await page.click('.counter-button.increment');
+		await expect(page.locator('.counter-display')).toHaveText('1');
+		await expect(undoButton).toBeEnabled();
+
+		await page.keyboard.press('Control+z');
+		await expect(page.locator('.counter-display')).toHaveText('0');
+		await expect(page.locator('button', { hasText: 'Redo' })).toBeEnabled();
+	});
+});
+
+test.describe('Counter Actions', () => {
+	const testPassword = 'testpass123';
+
+	test('should keep changes within the counter bounds', async ({ page }) => {
+		const username = `testuser_${Date.now()}`;
+		const register = await page.request.post('/api/auth/register', {
+			data: { username, password: testPassword },
+			timeout: API_RESPONSE_TIMEOUT
+		});
+		expect(register.ok()).toBe(true);
+
+		const created = await page.request.post('/api/counters', { data: { name: 'Laps' } });
+		const { counter } = await created.json();
+
+		const settings = await page.request.patch(`/api/counters/${counter.id}`, {
+			data: { step: 4, minValue: 0, maxValue: 10, overflow: 'wrap' }
+		});
+		expect((await settings.json()).counter).toMatchObject({ step: 4, minValue: 0, maxValue: 10, overflow: 'wrap' });
+
+		// Stay within the rate limit of 3 actions: 4, 8, then 12 wraps around to 1
+		await page.request.post(`/api/counters/${counter.id}`, { data: { action: 'increment' } });
+		await page.request.post(`/api/counters/${counter.id}`, { data: { action: 'increment' } });
+		const wrapped = await page.request.post(`/api/counters/${counter.id}`, { data: { action: 'increment' } });
+		expect((await wrapped.json()).counter.value).toBe(1);
+
+		// Settings are validated without spending an action
+		const invalid = await page.request.patch(`/api/counters/${counter.id}`, { data: { minValue: 5 } });
+		expect(invalid.status()).toBe(422);
+		const { issues } = await invalid.json();
+		expect(issues[0]).toMatchObject({ path: 'minValue', code: 'value_out_of_bounds' });
+
+		// Malformed JSON is a validation error, not a server error
+		const malformed = await page.request.post('/api/counter', {
+			headers: { 'Content-Type': 'application/json' },
+			data: '{"action":'
+		});
+		expect(malformed.status()).toBe(422);
+	});
+});